@@ -1,4 +1,5 @@
 import 'reflect-metadata'
+import * as path from 'path'
 import { vi } from 'vitest'
 
 class MockPosition {
@@ -45,6 +46,10 @@ class MockUri {
     return `${this.scheme}://${this.path}`
   }
 
+  with(change: { path?: string }) {
+    return new MockUri(this.scheme, change.path ?? this.path)
+  }
+
   static file(path: string) {
     return new MockUri('file', path)
   }
@@ -58,17 +63,21 @@ class MockUri {
   }
 
   static joinPath(base: MockUri, ...segments: string[]) {
-    const basePath = base.path.endsWith('/') ? base.path.slice(0, -1) : base.path
-    const joined = segments.reduce((acc, seg) => {
-      if (seg.startsWith('./')) {
-        seg = seg.slice(2)
-      }
-      return acc + '/' + seg
-    }, basePath)
-    return new MockUri(base.scheme, joined)
+    return new MockUri(base.scheme, path.posix.join(base.path, ...segments))
   }
 }
 
+class MockRelativePattern {
+  constructor(
+    public readonly baseUri: MockUri,
+    public readonly pattern: string,
+  ) {}
+}
+
+class MockThemeColor {
+  constructor(public readonly id: string) {}
+}
+
 class MockEventEmitter<T> {
   private listeners: ((e: T) => void)[] = []
 
@@ -89,10 +98,13 @@ class MockEventEmitter<T> {
 }
 
 vi.mock('vscode', () => ({
+  ColorThemeKind: { Light: 1, Dark: 2, HighContrast: 3, HighContrastLight: 4 },
   EventEmitter: MockEventEmitter,
   Position: MockPosition,
   Range: MockRange,
+  RelativePattern: MockRelativePattern,
   MarkdownString: MockMarkdownString,
+  ThemeColor: MockThemeColor,
   Uri: MockUri,
   window: {
     createTextEditorDecorationType: vi.fn((opts: { color: string }) => ({
@@ -111,6 +123,7 @@ vi.mock('vscode', () => ({
       debug: vi.fn(),
       trace: vi.fn(),
     })),
+    activeColorTheme: { kind: 2 },
     visibleTextEditors: [] as unknown[],
     activeTextEditor: undefined as unknown,
     onDidChangeActiveTextEditor: vi.fn(() => ({ dispose: vi.fn() })),
@@ -120,13 +133,25 @@ vi.mock('vscode', () => ({
     openTextDocument: vi.fn(async () => ({})),
     onDidChangeTextDocument: vi.fn(() => ({ dispose: vi.fn() })),
     onDidCloseTextDocument: vi.fn(() => ({ dispose: vi.fn() })),
+    onDidSaveTextDocument: vi.fn(() => ({ dispose: vi.fn() })),
+    onDidChangeConfiguration: vi.fn(() => ({ dispose: vi.fn() })),
+    createFileSystemWatcher: vi.fn(() => ({
+      onDidChange: vi.fn(() => ({ dispose: vi.fn() })),
+      onDidCreate: vi.fn(() => ({ dispose: vi.fn() })),
+      onDidDelete: vi.fn(() => ({ dispose: vi.fn() })),
+      dispose: vi.fn(),
+    })),
     getConfiguration: vi.fn(() => ({
       get: vi.fn(),
     })),
     fs: {
       readFile: vi.fn(),
+      stat: vi.fn(),
     },
   },
+  languages: {
+    match: vi.fn(() => 0),
+  },
   extensions: {
     all: [] as unknown[],
     onDidChange: vi.fn(() => ({ dispose: vi.fn() })),
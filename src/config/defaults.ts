@@ -0,0 +1,39 @@
+import { SymbolKind } from '@/symbol'
+import type { ExtensionConfiguration } from './types'
+
+export const CONFIGURATION_SECTION = 'semanticImports'
+
+export const DEFAULT_CONFIGURATION: ExtensionConfiguration = {
+  enabled: true,
+  languages: ['typescript', 'typescriptreact', 'javascript', 'javascriptreact', 'vue', 'svelte', 'astro', 'html'],
+  exclude: [],
+  maxFileSize: 1_000_000,
+  kinds: {
+    [SymbolKind.Function]: true,
+    [SymbolKind.Class]: true,
+    [SymbolKind.Interface]: true,
+    [SymbolKind.Type]: true,
+    [SymbolKind.Enum]: true,
+    [SymbolKind.Namespace]: true,
+    [SymbolKind.Variable]: true,
+  },
+  styles: {},
+  kindFallbacks: {
+    [SymbolKind.Class]: [SymbolKind.Type],
+    [SymbolKind.Interface]: [SymbolKind.Type],
+    [SymbolKind.Enum]: [SymbolKind.Class, SymbolKind.Type],
+    [SymbolKind.Namespace]: [SymbolKind.Type],
+  },
+  moduleSpecifiers: {
+    enabled: false,
+  },
+  debounceDelay: 300,
+  resolver: {
+    concurrency: 5,
+    maxRetries: 5,
+    retryDelay: 500,
+  },
+  probe: {
+    timeout: 10_000,
+  },
+}
@@ -0,0 +1,3 @@
+export { CONFIGURATION_SECTION, DEFAULT_CONFIGURATION } from './defaults'
+export { ConfigurationService } from './service'
+export type { ExtensionConfiguration, ResolverSettings } from './types'
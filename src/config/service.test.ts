@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import * as vscode from 'vscode'
+import { ConfigurationService } from './service'
+
+type ConfigurationListener = (e: vscode.ConfigurationChangeEvent) => void
+
+function mockSettings(settings: Record<string, unknown>) {
+  vi.mocked(vscode.workspace.getConfiguration).mockImplementation(
+    () => ({ get: vi.fn((key: string) => settings[key]) }) as unknown as vscode.WorkspaceConfiguration,
+  )
+}
+
+function changeEvent(section: string) {
+  return { affectsConfiguration: (s: string) => s === section } as vscode.ConfigurationChangeEvent
+}
+
+describe('ConfigurationService', () => {
+  let listener: ConfigurationListener
+  let subscription: vscode.Disposable
+
+  beforeEach(() => {
+    vi.mocked(vscode.workspace.getConfiguration).mockReset()
+    vi.mocked(vscode.workspace.onDidChangeConfiguration).mockImplementation((l) => {
+      listener = l as ConfigurationListener
+      subscription = { dispose: vi.fn() }
+      return subscription
+    })
+  })
+
+  it('should read the settings on creation', () => {
+    mockSettings({ debounceDelay: 100 })
+    expect(new ConfigurationService().current.debounceDelay).toBe(100)
+  })
+
+  it('should reload and notify when semanticImports settings change', () => {
+    mockSettings({})
+    const service = new ConfigurationService()
+    const onDidChange = vi.fn()
+    service.onDidChange(onDidChange)
+
+    mockSettings({ enabled: false })
+    listener(changeEvent('semanticImports'))
+
+    expect(service.current.enabled).toBe(false)
+    expect(onDidChange).toHaveBeenCalledWith(service.current)
+  })
+
+  it('should ignore changes to other sections', () => {
+    mockSettings({})
+    const service = new ConfigurationService()
+    const onDidChange = vi.fn()
+    service.onDidChange(onDidChange)
+
+    listener(changeEvent('editor'))
+
+    expect(onDidChange).not.toHaveBeenCalled()
+  })
+
+  it('should stop listening when disposed', () => {
+    mockSettings({})
+    const service = new ConfigurationService()
+
+    service.dispose()
+
+    expect(subscription.dispose).toHaveBeenCalledOnce()
+  })
+})
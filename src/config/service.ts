@@ -0,0 +1,39 @@
+import { injectable } from 'inversify'
+import * as vscode from 'vscode'
+import { Logger } from '@/logger'
+import { CONFIGURATION_SECTION } from './defaults'
+import type { ExtensionConfiguration } from './types'
+import { readConfiguration } from './utils/readConfiguration'
+
+/** Snapshot of the `semanticImports.*` settings, refreshed whenever they change */
+@injectable()
+export class ConfigurationService implements vscode.Disposable {
+  private readonly logger = Logger.create(ConfigurationService)
+  private readonly _onDidChange = new vscode.EventEmitter<ExtensionConfiguration>()
+  private readonly subscription: vscode.Disposable
+  private configuration = readConfiguration()
+  readonly onDidChange = this._onDidChange.event
+
+  constructor() {
+    this.subscription = vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration(CONFIGURATION_SECTION)) {
+        this.reload()
+      }
+    })
+  }
+
+  get current() {
+    return this.configuration
+  }
+
+  reload() {
+    this.configuration = readConfiguration()
+    this.logger.info('configuration changed')
+    this._onDidChange.fire(this.configuration)
+  }
+
+  dispose() {
+    this.subscription.dispose()
+    this._onDidChange.dispose()
+  }
+}
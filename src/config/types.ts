@@ -0,0 +1,39 @@
+import type { SymbolKind } from '@/symbol'
+import type { SymbolStyleMap } from '@/theme'
+
+export interface ResolverSettings {
+  /** Number of symbols resolved in parallel */
+  concurrency: number
+  /** Retries while tsserver is still loading */
+  maxRetries: number
+  /** Delay between retries in milliseconds */
+  retryDelay: number
+}
+
+export interface ExtensionConfiguration {
+  /** Master switch for all decorations */
+  enabled: boolean
+  /** Language ids of the documents to decorate */
+  languages: string[]
+  /** Glob patterns of files that are never decorated */
+  exclude: string[]
+  /** Documents longer than this many characters are not decorated, 0 for no limit */
+  maxFileSize: number
+  /** Symbol kinds to decorate */
+  kinds: Record<SymbolKind, boolean>
+  /** Per-kind styles applied on top of the theme colors */
+  styles: SymbolStyleMap
+  /** Kinds whose theme style a kind borrows, in order, when the theme does not color it */
+  kindFallbacks: Partial<Record<SymbolKind, SymbolKind[]>>
+  moduleSpecifiers: {
+    /** Whether module specifiers are colored by origin */
+    enabled: boolean
+  }
+  /** Delay after the last edit before decorations are refreshed, in milliseconds */
+  debounceDelay: number
+  resolver: ResolverSettings
+  probe: {
+    /** How long to wait for tsserver to become ready, in milliseconds */
+    timeout: number
+  }
+}
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import * as vscode from 'vscode'
+import { DEFAULT_CONFIGURATION } from '@/config/defaults'
+import { SymbolKind } from '@/symbol'
+import { readConfiguration } from './readConfiguration'
+
+function mockSettings(settings: Record<string, unknown>) {
+  vi.mocked(vscode.workspace.getConfiguration).mockImplementation((section?: string) => {
+    return {
+      get: vi.fn((key: string) => (section === 'semanticImports' ? settings[key] : undefined)),
+    } as unknown as vscode.WorkspaceConfiguration
+  })
+}
+
+describe('readConfiguration', () => {
+  beforeEach(() => {
+    vi.mocked(vscode.workspace.getConfiguration).mockReset()
+  })
+
+  it('should fall back to the defaults when nothing is set', () => {
+    mockSettings({})
+    expect(readConfiguration()).toEqual(DEFAULT_CONFIGURATION)
+  })
+
+  it('should read every setting', () => {
+    mockSettings({
+      enabled: false,
+      languages: ['typescript'],
+      exclude: ['**/*.gen.ts'],
+      maxFileSize: 0,
+      kindFallbacks: { enum: ['type'] },
+      'moduleSpecifiers.enabled': true,
+      debounceDelay: 100,
+      'resolver.concurrency': 2,
+      'resolver.maxRetries': 1,
+      'resolver.retryDelay': 50,
+      'probe.timeout': 3000,
+    })
+    expect(readConfiguration()).toEqual({
+      ...DEFAULT_CONFIGURATION,
+      enabled: false,
+      languages: ['typescript'],
+      exclude: ['**/*.gen.ts'],
+      maxFileSize: 0,
+      kindFallbacks: { [SymbolKind.Enum]: [SymbolKind.Type] },
+      moduleSpecifiers: { enabled: true },
+      debounceDelay: 100,
+      resolver: { concurrency: 2, maxRetries: 1, retryDelay: 50 },
+      probe: { timeout: 3000 },
+    })
+  })
+
+  it('should merge partial kind settings with the defaults', () => {
+    mockSettings({ kinds: { variable: false } })
+    expect(readConfiguration().kinds).toEqual({ ...DEFAULT_CONFIGURATION.kinds, [SymbolKind.Variable]: false })
+  })
+
+  it('should clamp numbers to their minimum and ignore invalid values', () => {
+    mockSettings({ 'resolver.concurrency': 0, debounceDelay: -10, 'probe.timeout': 'soon' })
+    const config = readConfiguration()
+    expect(config.resolver.concurrency).toBe(1)
+    expect(config.debounceDelay).toBe(0)
+    expect(config.probe.timeout).toBe(DEFAULT_CONFIGURATION.probe.timeout)
+  })
+
+  it('should ignore non-string entries in lists', () => {
+    mockSettings({ languages: ['vue', 42, null], exclude: 'not-a-list' })
+    const config = readConfiguration()
+    expect(config.languages).toEqual(['vue'])
+    expect(config.exclude).toEqual([])
+  })
+})
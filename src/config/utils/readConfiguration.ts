@@ -0,0 +1,46 @@
+import * as vscode from 'vscode'
+import { CONFIGURATION_SECTION, DEFAULT_CONFIGURATION } from '@/config/defaults'
+import type { ExtensionConfiguration } from '@/config/types'
+import type { SymbolKind } from '@/symbol'
+import { readKindFallbacks } from './readKindFallbacks'
+import { readSymbolStyles } from './readSymbolStyles'
+
+export function readConfiguration(): ExtensionConfiguration {
+  const config = vscode.workspace.getConfiguration(CONFIGURATION_SECTION)
+  const defaults = DEFAULT_CONFIGURATION
+
+  const readNumber = (key: string, fallback: number, min: number) => {
+    const value = config.get<number>(key)
+    return typeof value === 'number' && Number.isFinite(value) ? Math.max(min, value) : fallback
+  }
+  const readStrings = (key: string, fallback: string[]) => {
+    const value = config.get<unknown>(key)
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : fallback
+  }
+
+  const kinds = config.get<Partial<Record<SymbolKind, boolean>>>('kinds') ?? {}
+
+  return {
+    enabled: config.get<boolean>('enabled') ?? defaults.enabled,
+    languages: readStrings('languages', defaults.languages),
+    exclude: readStrings('exclude', defaults.exclude),
+    maxFileSize: readNumber('maxFileSize', defaults.maxFileSize, 0),
+    kinds: Object.fromEntries(
+      Object.entries(defaults.kinds).map(([kind, enabled]) => [kind, kinds[kind as SymbolKind] ?? enabled]),
+    ) as Record<SymbolKind, boolean>,
+    styles: readSymbolStyles(config.get<unknown>('styles')),
+    kindFallbacks: readKindFallbacks(config.get<unknown>('kindFallbacks')) ?? defaults.kindFallbacks,
+    moduleSpecifiers: {
+      enabled: config.get<boolean>('moduleSpecifiers.enabled') ?? defaults.moduleSpecifiers.enabled,
+    },
+    debounceDelay: readNumber('debounceDelay', defaults.debounceDelay, 0),
+    resolver: {
+      concurrency: readNumber('resolver.concurrency', defaults.resolver.concurrency, 1),
+      maxRetries: readNumber('resolver.maxRetries', defaults.resolver.maxRetries, 0),
+      retryDelay: readNumber('resolver.retryDelay', defaults.resolver.retryDelay, 0),
+    },
+    probe: {
+      timeout: readNumber('probe.timeout', defaults.probe.timeout, 0),
+    },
+  }
+}
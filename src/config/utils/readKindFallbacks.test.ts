@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest'
+import { SymbolKind } from '@/symbol'
+import { readKindFallbacks } from './readKindFallbacks'
+
+describe('readKindFallbacks', () => {
+  it('should return nothing for missing or malformed values', () => {
+    expect(readKindFallbacks(undefined)).toBeUndefined()
+    expect(readKindFallbacks(['type'])).toBeUndefined()
+  })
+
+  it('should read the chains of known kinds', () => {
+    expect(readKindFallbacks({ enum: ['class', 'type'], unknown: ['type'] })).toEqual({
+      [SymbolKind.Enum]: [SymbolKind.Class, SymbolKind.Type],
+    })
+  })
+
+  it('should drop unknown kinds and self references from chains', () => {
+    expect(readKindFallbacks({ class: ['class', 'struct', 42, 'type'], variable: 'function' })).toEqual({
+      [SymbolKind.Class]: [SymbolKind.Type],
+    })
+  })
+})
@@ -0,0 +1,21 @@
+import { SymbolKind } from '@/symbol'
+
+const KINDS = new Set<unknown>(Object.values(SymbolKind))
+
+/** Picks the known kinds of each chain in the raw `semanticImports.kindFallbacks` value, or nothing if it is unset */
+export function readKindFallbacks(value: unknown): Partial<Record<SymbolKind, SymbolKind[]>> | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return undefined
+  }
+
+  const fallbacks: Partial<Record<SymbolKind, SymbolKind[]>> = {}
+  for (const [kind, chain] of Object.entries(value)) {
+    if (!KINDS.has(kind) || !Array.isArray(chain)) {
+      continue
+    }
+    fallbacks[kind as SymbolKind] = chain.filter(
+      (fallback): fallback is SymbolKind => KINDS.has(fallback) && fallback !== kind,
+    )
+  }
+  return fallbacks
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { SymbolKind } from '@/symbol'
+import { readSymbolStyles } from './readSymbolStyles'
+
+describe('readSymbolStyles', () => {
+  it('should return no styles for missing or malformed values', () => {
+    expect(readSymbolStyles(undefined)).toEqual({})
+    expect(readSymbolStyles('italic')).toEqual({})
+    expect(readSymbolStyles([])).toEqual({})
+  })
+
+  it('should read the styles of known kinds', () => {
+    const value = {
+      type: { fontStyle: 'italic' },
+      class: { fontStyle: 'bold', color: '#FF0000', backgroundColor: '#00000010', border: '1px solid' },
+      unknown: { fontStyle: 'bold' },
+    }
+    expect(readSymbolStyles(value)).toEqual({
+      [SymbolKind.Type]: { fontStyle: 'italic' },
+      [SymbolKind.Class]: { fontStyle: 'bold', color: '#FF0000', backgroundColor: '#00000010', border: '1px solid' },
+    })
+  })
+
+  it('should drop properties of the wrong type and clamp opacity', () => {
+    const value = { function: { color: 42, fontStyle: 'bold', opacity: 3 }, variable: { opacity: -1 } }
+    expect(readSymbolStyles(value)).toEqual({
+      [SymbolKind.Function]: { fontStyle: 'bold', opacity: 1 },
+      [SymbolKind.Variable]: { opacity: 0 },
+    })
+  })
+})
@@ -0,0 +1,35 @@
+import { SymbolKind } from '@/symbol'
+import type { SymbolStyle, SymbolStyleMap } from '@/theme'
+
+const STRING_PROPERTIES = ['color', 'fontStyle', 'backgroundColor', 'border'] as const
+
+/** Picks the well-formed style properties of each known kind from the raw `semanticImports.styles` value */
+export function readSymbolStyles(value: unknown): SymbolStyleMap {
+  if (!isObject(value)) {
+    return {}
+  }
+
+  const styles: SymbolStyleMap = {}
+  for (const kind of Object.values(SymbolKind)) {
+    const raw = value[kind]
+    if (!isObject(raw)) {
+      continue
+    }
+
+    const style: SymbolStyle = {}
+    for (const property of STRING_PROPERTIES) {
+      if (typeof raw[property] === 'string') {
+        style[property] = raw[property]
+      }
+    }
+    if (typeof raw.opacity === 'number' && Number.isFinite(raw.opacity)) {
+      style.opacity = Math.min(1, Math.max(0, raw.opacity))
+    }
+    styles[kind] = style
+  }
+  return styles
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
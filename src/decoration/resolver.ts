@@ -1,7 +1,8 @@
 import PQueue from 'p-queue'
 import * as vscode from 'vscode'
+import { DEFAULT_CONFIGURATION, type ResolverSettings } from '@/config'
 import { Logger } from '@/logger'
-import type { BaseSymbolResolver, SymbolKind } from '@/symbol'
+import type { BaseSymbolResolver, ResolvedSymbol } from '@/symbol'
 import {
   HoverSymbolResolver,
   PluginSymbolResolver,
@@ -12,10 +13,6 @@ import type { TypeScriptLanguageService } from '@/typescript/language'
 import { withRetry } from '@/utils/retry'
 import { stopwatch } from '@/utils/stopwatch'
 
-const CONCURRENCY_LIMIT = 5
-const RETRY_DELAY_MS = 500
-const MAX_RETRIES = 5
-
 export interface ResolveTarget {
   source: string
   range: { start: vscode.Position }
@@ -24,13 +21,14 @@ export interface ResolveTarget {
 export class SymbolResolver {
   private readonly logger = Logger.create(SymbolResolver)
   private readonly resolvers: BaseSymbolResolver[]
-  private readonly _onResult = new vscode.EventEmitter<Map<string, SymbolKind>>()
+  private readonly _onResult = new vscode.EventEmitter<Map<string, ResolvedSymbol>>()
   readonly onResult = this._onResult.event
 
   constructor(
     private readonly document: vscode.TextDocument,
     private readonly targets: Map<string, ResolveTarget>,
     languageService: TypeScriptLanguageService,
+    private readonly settings: ResolverSettings = DEFAULT_CONFIGURATION.resolver,
   ) {
     this.resolvers = [
       new SemanticTokenSymbolResolver(languageService),
@@ -53,8 +51,8 @@ export class SymbolResolver {
   }
 
   private async resolveSymbols(resolver: BaseSymbolResolver, symbols: string[]) {
-    const queue = new PQueue({ concurrency: CONCURRENCY_LIMIT })
-    const promises: Promise<readonly [string, SymbolKind] | null | void>[] = []
+    const queue = new PQueue({ concurrency: this.settings.concurrency })
+    const promises: Promise<readonly [string, ResolvedSymbol] | null | void>[] = []
     for (const symbol of symbols) {
       const target = this.targets.get(symbol)
       if (!target) {
@@ -80,7 +78,7 @@ export class SymbolResolver {
     return new Map(
       results
         .filter(
-          (r): r is PromiseFulfilledResult<readonly [string, SymbolKind]> =>
+          (r): r is PromiseFulfilledResult<readonly [string, ResolvedSymbol]> =>
             r.status === 'fulfilled' && r.value != null,
         )
         .map((r) => r.value),
@@ -90,10 +88,10 @@ export class SymbolResolver {
   private async resolveSymbol(resolver: BaseSymbolResolver, symbol: string, position: vscode.Position, label: string) {
     this.logger.debug(`resolving ${label} via '${resolver.name}' resolver`)
 
-    const [kind, elapsed] = await stopwatch(() =>
+    const [resolved, elapsed] = await stopwatch(() =>
       withRetry(() => resolver.resolve(this.document, position), {
-        maxRetries: MAX_RETRIES,
-        delay: RETRY_DELAY_MS,
+        maxRetries: this.settings.maxRetries,
+        delay: this.settings.retryDelay,
         shouldRetry: (error) => error instanceof TypeScriptServerNotLoadedError,
         onRetry: (attempt, max) => {
           this.logger.info(`retrying ${label} via '${resolver.name}' resolver (attempt ${attempt}/${max})`)
@@ -101,11 +99,14 @@ export class SymbolResolver {
       }),
     )
 
-    if (!kind) {
+    if (!resolved) {
       return null
     }
 
-    this.logger.info(`resolved ${label} → '${kind}' via '${resolver.name}' resolver (in ${elapsed}ms)`)
-    return [symbol, kind] as const
+    const modifiers = resolved.modifiers?.length ? ` (${resolved.modifiers.join(', ')})` : ''
+    this.logger.info(
+      `resolved ${label} → '${resolved.kind}'${modifiers} via '${resolver.name}' resolver (in ${elapsed}ms)`,
+    )
+    return [symbol, resolved] as const
   }
 }
@@ -1,15 +1,18 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import * as vscode from 'vscode'
-import type { ImportStatement } from '@/parser'
-import { TypeScriptParser } from '@/parser'
+import { ConfigurationService, DEFAULT_CONFIGURATION, type ExtensionConfiguration } from '@/config'
+import { ModuleCategory, ModuleSpecifierClassifier } from '@/module'
+import type { ImportStatement, ModuleSpecifier } from '@/parser'
+import { IncrementalDocumentParser, TypeScriptParser } from '@/parser'
 import {
   HoverSymbolResolver,
   PluginSymbolResolver,
+  type ResolvedSymbol,
   SemanticTokenSymbolResolver,
   SymbolKind,
   TypeScriptServerNotLoadedError,
 } from '@/symbol'
-import type { SymbolColorMap } from '@/theme'
+import type { SymbolStyleMap, ThemeStyles } from '@/theme'
 import { TypeScriptLanguageService, TypeScriptServerProbe } from '@/typescript/language'
 import { SymbolResolver } from './resolver'
 import type { SymbolResolverFactory } from './service'
@@ -19,18 +22,25 @@ import type { DocumentCache } from './types'
 type ServiceInternals = {
   languageService: TypeScriptLanguageService
   probe: TypeScriptServerProbe
-  parser: TypeScriptParser
+  documentParser: IncrementalDocumentParser
+  configuration: ConfigurationService
   decorationTypes: Map<string, vscode.TextEditorDecorationType>
+  specifierDecorationTypes: Map<ModuleCategory, vscode.TextEditorDecorationType>
   documentCaches: Map<string, DocumentCache>
   activeResolvers: Map<string, SymbolResolver>
-  colors: SymbolColorMap
-  getDecorationType: (color: string) => vscode.TextEditorDecorationType
+  themeStyles: ThemeStyles
+  getDecorationType: (options: vscode.DecorationRenderOptions) => vscode.TextEditorDecorationType
 }
 
 function internals(service: DecorationService) {
   return service as unknown as ServiceInternals
 }
 
+/** The parser behind the service's incremental document parser */
+function parserOf(service: DecorationService) {
+  return (internals(service).documentParser as unknown as { parser: TypeScriptParser }).parser
+}
+
 function stmt(overrides: Partial<ImportStatement> & Pick<ImportStatement, 'localName'>): ImportStatement {
   return {
     importedName: overrides.localName,
@@ -46,17 +56,17 @@ function stmt(overrides: Partial<ImportStatement> & Pick<ImportStatement, 'local
 }
 
 function mockParserReturn(service: DecorationService, statements: ImportStatement[]) {
-  vi.spyOn(internals(service).parser, 'parseImports').mockReturnValue(statements)
+  vi.spyOn(parserOf(service), 'parseImports').mockReturnValue(statements)
 }
 
-const TEST_COLORS: SymbolColorMap = {
-  [SymbolKind.Function]: '#DCDCAA',
-  [SymbolKind.Class]: '#4EC9B0',
-  [SymbolKind.Interface]: '#4EC9B0',
-  [SymbolKind.Type]: '#4EC9B0',
-  [SymbolKind.Enum]: '#4EC9B0',
-  [SymbolKind.Namespace]: '#4EC9B0',
-  [SymbolKind.Variable]: '#9CDCFE',
+const TEST_STYLES: SymbolStyleMap = {
+  [SymbolKind.Function]: { color: '#DCDCAA' },
+  [SymbolKind.Class]: { color: '#4EC9B0' },
+  [SymbolKind.Interface]: { color: '#4EC9B0' },
+  [SymbolKind.Type]: { color: '#4EC9B0' },
+  [SymbolKind.Enum]: { color: '#4EC9B0' },
+  [SymbolKind.Namespace]: { color: '#4EC9B0' },
+  [SymbolKind.Variable]: { color: '#9CDCFE' },
 }
 
 function createMockEditor(lines: string[]) {
@@ -70,14 +80,21 @@ function createMockEditor(lines: string[]) {
   } as unknown as vscode.TextEditor
 }
 
-function createService(colors: SymbolColorMap = TEST_COLORS) {
+function createService(styles: SymbolStyleMap = TEST_STYLES) {
   const languageService = new TypeScriptLanguageService()
   const probe = new TypeScriptServerProbe(languageService)
   const parser = new TypeScriptParser()
+  const documentParser = new IncrementalDocumentParser(parser)
+  const classifier = new ModuleSpecifierClassifier()
+  const configuration = new ConfigurationService()
   const factory: SymbolResolverFactory = (doc, targets, ls) => new SymbolResolver(doc, targets, ls)
-  const service = new DecorationService(languageService, probe, parser, factory)
-  service.setColors(colors)
-  return { service, languageService, probe, parser }
+  const service = new DecorationService(languageService, probe, documentParser, classifier, configuration, factory)
+  service.setThemeStyles(() => styles)
+  return { service, languageService, probe, parser, classifier, configuration }
+}
+
+function mockConfiguration(configuration: ConfigurationService, overrides: Partial<ExtensionConfiguration>) {
+  vi.spyOn(configuration, 'current', 'get').mockReturnValue({ ...DEFAULT_CONFIGURATION, ...overrides })
 }
 
 function mockProbe(probe: TypeScriptServerProbe) {
@@ -87,7 +104,7 @@ function mockProbe(probe: TypeScriptServerProbe) {
   return probe
 }
 
-type ResolveMethod = (document: vscode.TextDocument, position: vscode.Position) => Promise<SymbolKind | undefined>
+type ResolveMethod = (document: vscode.TextDocument, position: vscode.Position) => Promise<ResolvedSymbol | undefined>
 
 function spyResolve(prototype: { resolve: ResolveMethod }) {
   return vi.spyOn(prototype as { resolve: ResolveMethod }, 'resolve')
@@ -146,7 +163,7 @@ describe('DecorationService', () => {
         mockParserReturn(service, [
           stmt({ localName: 'useState', source: 'react', startLine: 0, startColumn: 9, endLine: 0, endColumn: 17 }),
         ])
-        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue(SymbolKind.Function)
+        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Function })
 
         const editor = createMockEditor(["import { useState } from 'react'"])
         await service.applyImportDecorations(editor)
@@ -164,7 +181,7 @@ describe('DecorationService', () => {
           stmt({ localName: 'Foo', source: 'a', startLine: 0, startColumn: 9, endLine: 0, endColumn: 12 }),
           stmt({ localName: 'Bar', source: 'b', startLine: 1, startColumn: 9, endLine: 1, endColumn: 12 }),
         ])
-        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue(SymbolKind.Class)
+        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Class })
 
         const editor = createMockEditor(["import { Foo } from 'a'", "import { Bar } from 'b'"])
         await service.applyImportDecorations(editor)
@@ -174,6 +191,114 @@ describe('DecorationService', () => {
         expect(decorationCall).toBeDefined()
         expect(decorationCall![1]).toHaveLength(2)
       })
+
+      it('should decorate usages in the file body alongside the import specifier', async () => {
+        mockParserReturn(service, [
+          stmt({ localName: 'useState', source: 'react', startLine: 0, startColumn: 9, endLine: 0, endColumn: 17 }),
+        ])
+        vi.spyOn(parserOf(service), 'findUsages').mockReturnValue([
+          { localName: 'useState', startLine: 2, startColumn: 12, endLine: 2, endColumn: 20 },
+        ])
+        const spy = spyResolve(PluginSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Function })
+
+        const editor = createMockEditor(["import { useState } from 'react'", '', 'const [a] = useState(0)'])
+        await service.applyImportDecorations(editor)
+
+        expect(spy).toHaveBeenCalledTimes(1)
+        expect(vi.mocked(editor.setDecorations)).toHaveBeenCalledWith(expect.anything(), [
+          expect.objectContaining({ start: expect.objectContaining({ line: 0, character: 9 }) }),
+          expect.objectContaining({ start: expect.objectContaining({ line: 2, character: 12 }) }),
+        ])
+      })
+
+      it('should resolve scoped import bindings apart from module-level imports of the same name', async () => {
+        const binding = "Chart (default from 'chart.js')"
+        mockParserReturn(service, [
+          stmt({ localName: 'Chart', source: 'chart', startLine: 0, startColumn: 7, endLine: 0, endColumn: 12 }),
+          stmt({
+            localName: 'Chart',
+            source: 'chart.js',
+            binding,
+            startLine: 2,
+            startColumn: 18,
+            endLine: 2,
+            endColumn: 23,
+          }),
+        ])
+        vi.spyOn(parserOf(service), 'findUsages').mockReturnValue([
+          { localName: 'Chart', binding, startLine: 3, startColumn: 6, endLine: 3, endColumn: 11 },
+        ])
+        const spy = spyResolve(PluginSymbolResolver.prototype).mockImplementation(async (_doc, position) => ({
+          kind: position.line === 0 ? SymbolKind.Class : SymbolKind.Function,
+        }))
+
+        const editor = createMockEditor([
+          "import Chart from 'chart'",
+          'async function f() {',
+          "  const { default: Chart } = await import('chart.js')",
+          '  new Chart()',
+          '}',
+        ])
+        await service.applyImportDecorations(editor)
+
+        expect(spy).toHaveBeenCalledTimes(2)
+        expect(vi.mocked(editor.setDecorations)).toHaveBeenCalledWith(expect.anything(), [
+          expect.objectContaining({ start: expect.objectContaining({ line: 2, character: 18 }) }),
+          expect.objectContaining({ start: expect.objectContaining({ line: 3, character: 6 }) }),
+        ])
+      })
+
+      it('should resolve re-exports apart from imports of the same name', async () => {
+        mockParserReturn(service, [
+          stmt({ localName: 'Foo', source: './a', startLine: 0, startColumn: 9, endLine: 0, endColumn: 12 }),
+          stmt({
+            localName: 'Foo',
+            source: './b',
+            kind: 'reexport',
+            startLine: 1,
+            startColumn: 9,
+            endLine: 1,
+            endColumn: 12,
+          }),
+        ])
+        vi.spyOn(parserOf(service), 'findUsages').mockReturnValue([
+          { localName: 'Foo', startLine: 2, startColumn: 0, endLine: 2, endColumn: 3 },
+        ])
+        const spy = spyResolve(PluginSymbolResolver.prototype).mockImplementation(async (_doc, position) => ({
+          kind: position.line === 0 ? SymbolKind.Class : SymbolKind.Function,
+        }))
+
+        const editor = createMockEditor(["import { Foo } from './a'", "export { Foo } from './b'", 'Foo()'])
+        await service.applyImportDecorations(editor)
+
+        expect(spy).toHaveBeenCalledTimes(2)
+        expect(vi.mocked(editor.setDecorations)).toHaveBeenCalledWith(expect.anything(), [
+          expect.objectContaining({ start: expect.objectContaining({ line: 0, character: 9 }) }),
+          expect.objectContaining({ start: expect.objectContaining({ line: 2, character: 0 }) }),
+        ])
+        expect(vi.mocked(editor.setDecorations)).toHaveBeenCalledWith(expect.anything(), [
+          expect.objectContaining({ start: expect.objectContaining({ line: 1, character: 9 }) }),
+        ])
+      })
+
+      it('should resolve and decorate inline import types once per module member', async () => {
+        mockParserReturn(service, [])
+        vi.spyOn(parserOf(service), 'findImportTypes').mockReturnValue([
+          { source: './models', qualifier: 'User', startLine: 0, startColumn: 26, endLine: 0, endColumn: 30 },
+          { source: './models', qualifier: 'User', startLine: 1, startColumn: 26, endLine: 1, endColumn: 30 },
+        ])
+        const spy = spyResolve(PluginSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Interface })
+
+        const editor = createMockEditor(["let a: import('./models').User", "let b: import('./models').User"])
+        await service.applyImportDecorations(editor)
+
+        expect(spy).toHaveBeenCalledTimes(1)
+        expect(spy).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ line: 0, character: 26 }))
+        expect(vi.mocked(editor.setDecorations)).toHaveBeenCalledWith(expect.anything(), [
+          expect.objectContaining({ start: expect.objectContaining({ line: 0, character: 26 }) }),
+          expect.objectContaining({ start: expect.objectContaining({ line: 1, character: 26 }) }),
+        ])
+      })
     })
 
     describe('symbol kind resolution', () => {
@@ -182,7 +307,7 @@ describe('DecorationService', () => {
           stmt({ localName: 'useState', source: 'react', startLine: 0, startColumn: 9, endLine: 0, endColumn: 17 }),
           stmt({ localName: 'useEffect', source: 'react', startLine: 0, startColumn: 19, endLine: 0, endColumn: 28 }),
         ])
-        const spy = spyResolve(PluginSymbolResolver.prototype).mockResolvedValue(SymbolKind.Function)
+        const spy = spyResolve(PluginSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Function })
 
         const editor = createMockEditor(["import { useState, useEffect } from 'react'"])
         await service.applyImportDecorations(editor)
@@ -223,7 +348,7 @@ describe('DecorationService', () => {
           maxConcurrent = Math.max(maxConcurrent, concurrent)
           await new Promise((r) => setTimeout(r, 10))
           concurrent--
-          return SymbolKind.Function
+          return { kind: SymbolKind.Function }
         })
 
         const editor = createMockEditor([importLine])
@@ -251,7 +376,7 @@ describe('DecorationService', () => {
         ])
         const spy = spyResolve(PluginSymbolResolver.prototype)
           .mockRejectedValueOnce(new TypeScriptServerNotLoadedError())
-          .mockResolvedValueOnce(SymbolKind.Function)
+          .mockResolvedValueOnce({ kind: SymbolKind.Function })
 
         const editor = createMockEditor(["import clsx from 'clsx'"])
         const promise = service.applyImportDecorations(editor)
@@ -260,7 +385,7 @@ describe('DecorationService', () => {
 
         expect(spy).toHaveBeenCalledTimes(2)
         expect(vscode.window.createTextEditorDecorationType).toHaveBeenCalledWith({
-          color: TEST_COLORS[SymbolKind.Function],
+          color: TEST_STYLES[SymbolKind.Function]?.color,
         })
       })
 
@@ -284,14 +409,14 @@ describe('DecorationService', () => {
         mockParserReturn(service, [
           stmt({ localName: 'mySymbol', startLine: 0, startColumn: 9, endLine: 0, endColumn: 17 }),
         ])
-        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue(SymbolKind.Function)
-        spyResolve(HoverSymbolResolver.prototype).mockResolvedValue(SymbolKind.Class)
+        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Function })
+        spyResolve(HoverSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Class })
 
         const editor = createMockEditor(["import { mySymbol } from 'mod'"])
         await service.applyImportDecorations(editor)
 
         expect(vscode.window.createTextEditorDecorationType).toHaveBeenCalledWith({
-          color: TEST_COLORS[SymbolKind.Function],
+          color: TEST_STYLES[SymbolKind.Function]?.color,
         })
       })
 
@@ -299,14 +424,14 @@ describe('DecorationService', () => {
         mockParserReturn(service, [
           stmt({ localName: 'mySymbol', startLine: 0, startColumn: 9, endLine: 0, endColumn: 17 }),
         ])
-        spyResolve(SemanticTokenSymbolResolver.prototype).mockResolvedValue(SymbolKind.Variable)
-        spyResolve(HoverSymbolResolver.prototype).mockResolvedValue(SymbolKind.Function)
+        spyResolve(SemanticTokenSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Variable })
+        spyResolve(HoverSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Function })
 
         const editor = createMockEditor(["import { mySymbol } from 'mod'"])
         await service.applyImportDecorations(editor)
 
         expect(vscode.window.createTextEditorDecorationType).toHaveBeenCalledWith({
-          color: TEST_COLORS[SymbolKind.Function],
+          color: TEST_STYLES[SymbolKind.Function]?.color,
         })
       })
     })
@@ -316,13 +441,122 @@ describe('DecorationService', () => {
         mockParserReturn(service, [
           stmt({ localName: 'myFn', startLine: 0, startColumn: 9, endLine: 0, endColumn: 13 }),
         ])
-        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue(SymbolKind.Function)
+        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Function })
 
         const editor = createMockEditor(["import { myFn } from 'mod'"])
         await service.applyImportDecorations(editor)
 
         expect(vscode.window.createTextEditorDecorationType).toHaveBeenCalledWith({
-          color: TEST_COLORS[SymbolKind.Function],
+          color: TEST_STYLES[SymbolKind.Function]?.color,
+        })
+      })
+
+      it('should look up the theme style of the modifiers in the document language', async () => {
+        const styles = vi.fn((modifiers: readonly string[] = []) => ({
+          [SymbolKind.Variable]: { color: modifiers.includes('readonly') ? '#READONLY' : '#VARIABLE' },
+        }))
+        service.setThemeStyles(styles)
+        mockParserReturn(service, [stmt({ localName: 'MAX', startLine: 0, startColumn: 9, endLine: 0, endColumn: 12 })])
+        spyResolve(SemanticTokenSymbolResolver.prototype).mockResolvedValue({
+          kind: SymbolKind.Variable,
+          modifiers: ['readonly'],
+        })
+
+        const editor = createMockEditor(["import { MAX } from 'mod'"])
+        Object.assign(editor.document, { languageId: 'javascriptreact' })
+        await service.applyImportDecorations(editor)
+
+        expect(styles).toHaveBeenCalledWith(['readonly'], 'javascriptreact')
+        expect(vscode.window.createTextEditorDecorationType).toHaveBeenCalledWith({ color: '#READONLY' })
+      })
+
+      it('should not decorate kinds disabled in settings', async () => {
+        mockConfiguration(internals(service).configuration, {
+          kinds: { ...DEFAULT_CONFIGURATION.kinds, [SymbolKind.Function]: false },
+        })
+        mockParserReturn(service, [
+          stmt({ localName: 'myFn', startLine: 0, startColumn: 9, endLine: 0, endColumn: 13 }),
+        ])
+        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Function })
+
+        const editor = createMockEditor(["import { myFn } from 'mod'"])
+        await service.applyImportDecorations(editor)
+
+        expect(vscode.window.createTextEditorDecorationType).not.toHaveBeenCalled()
+      })
+
+      it('should apply configured styles on top of the theme color', async () => {
+        mockConfiguration(internals(service).configuration, {
+          styles: { [SymbolKind.Type]: { fontStyle: 'italic underline' }, [SymbolKind.Class]: { color: '#FF0000' } },
+        })
+        mockParserReturn(service, [
+          stmt({ localName: 'MyType', startLine: 0, startColumn: 9, endLine: 0, endColumn: 15 }),
+          stmt({ localName: 'MyClass', startLine: 0, startColumn: 17, endLine: 0, endColumn: 24 }),
+        ])
+        spyResolve(PluginSymbolResolver.prototype).mockImplementation(async (_doc, pos) => {
+          return { kind: pos.character < 16 ? SymbolKind.Type : SymbolKind.Class }
+        })
+
+        const editor = createMockEditor(["import { MyType, MyClass } from 'mod'"])
+        await service.applyImportDecorations(editor)
+
+        expect(vscode.window.createTextEditorDecorationType).toHaveBeenCalledWith({
+          color: TEST_STYLES[SymbolKind.Type]?.color,
+          fontStyle: 'italic',
+          fontWeight: 'normal',
+          textDecoration: 'underline',
+        })
+        expect(vscode.window.createTextEditorDecorationType).toHaveBeenCalledWith({ color: '#FF0000' })
+      })
+
+      it('should apply the theme font style unless the configured style overrides it', async () => {
+        service.setThemeStyles(() => ({
+          [SymbolKind.Type]: { color: '#4EC9B0', fontStyle: 'italic' },
+          [SymbolKind.Class]: { color: '#4EC9B0', fontStyle: 'bold' },
+        }))
+        mockConfiguration(internals(service).configuration, {
+          styles: { [SymbolKind.Class]: { fontStyle: '' } },
+        })
+        mockParserReturn(service, [
+          stmt({ localName: 'MyType', startLine: 0, startColumn: 9, endLine: 0, endColumn: 15 }),
+          stmt({ localName: 'MyClass', startLine: 0, startColumn: 17, endLine: 0, endColumn: 24 }),
+        ])
+        spyResolve(PluginSymbolResolver.prototype).mockImplementation(async (_doc, pos) => {
+          return { kind: pos.character < 16 ? SymbolKind.Type : SymbolKind.Class }
+        })
+
+        await service.applyImportDecorations(createMockEditor(["import { MyType, MyClass } from 'mod'"]))
+
+        expect(vscode.window.createTextEditorDecorationType).toHaveBeenCalledWith({
+          color: '#4EC9B0',
+          fontStyle: 'italic',
+          fontWeight: 'normal',
+          textDecoration: 'none',
+        })
+        expect(vscode.window.createTextEditorDecorationType).toHaveBeenCalledWith({
+          color: '#4EC9B0',
+          fontStyle: 'normal',
+          fontWeight: 'normal',
+          textDecoration: 'none',
+        })
+      })
+
+      it('should decorate kinds without a theme color when a style is configured', async () => {
+        service.setThemeStyles(() => ({}))
+        mockConfiguration(internals(service).configuration, {
+          styles: { [SymbolKind.Function]: { fontStyle: 'bold' } },
+        })
+        mockParserReturn(service, [
+          stmt({ localName: 'myFn', startLine: 0, startColumn: 9, endLine: 0, endColumn: 13 }),
+        ])
+        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Function })
+
+        await service.applyImportDecorations(createMockEditor(["import { myFn } from 'mod'"]))
+
+        expect(vscode.window.createTextEditorDecorationType).toHaveBeenCalledWith({
+          fontStyle: 'normal',
+          fontWeight: 'bold',
+          textDecoration: 'none',
         })
       })
 
@@ -331,7 +565,7 @@ describe('DecorationService', () => {
           stmt({ localName: 'ClassA', startLine: 0, startColumn: 9, endLine: 0, endColumn: 15 }),
           stmt({ localName: 'ClassB', startLine: 0, startColumn: 17, endLine: 0, endColumn: 23 }),
         ])
-        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue(SymbolKind.Class)
+        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Class })
 
         const editor = createMockEditor(["import { ClassA, ClassB } from 'mod'"])
         await service.applyImportDecorations(editor)
@@ -347,23 +581,23 @@ describe('DecorationService', () => {
           stmt({ localName: 'MyClass', startLine: 0, startColumn: 15, endLine: 0, endColumn: 22 }),
         ])
         spyResolve(PluginSymbolResolver.prototype).mockImplementation(async (_doc, pos) => {
-          return pos.character < 14 ? SymbolKind.Function : SymbolKind.Class
+          return { kind: pos.character < 14 ? SymbolKind.Function : SymbolKind.Class }
         })
 
         const editor = createMockEditor(["import { myFn, MyClass } from 'mod'"])
         await service.applyImportDecorations(editor)
 
         expect(vscode.window.createTextEditorDecorationType).toHaveBeenCalledWith({
-          color: TEST_COLORS[SymbolKind.Function],
+          color: TEST_STYLES[SymbolKind.Function]?.color,
         })
         expect(vscode.window.createTextEditorDecorationType).toHaveBeenCalledWith({
-          color: TEST_COLORS[SymbolKind.Class],
+          color: TEST_STYLES[SymbolKind.Class]?.color,
         })
       })
 
       it('should skip symbols whose kind has no color in the map', async () => {
-        const partialColors: SymbolColorMap = { [SymbolKind.Function]: '#DCDCAA' }
-        const created = createService(partialColors)
+        const partialStyles: SymbolStyleMap = { [SymbolKind.Function]: { color: '#DCDCAA' } }
+        const created = createService(partialStyles)
         service = created.service
         mockProbe(created.probe)
 
@@ -372,7 +606,7 @@ describe('DecorationService', () => {
           stmt({ localName: 'MyClass', startLine: 0, startColumn: 15, endLine: 0, endColumn: 22 }),
         ])
         spyResolve(PluginSymbolResolver.prototype).mockImplementation(async (_doc, pos) => {
-          return pos.character < 14 ? SymbolKind.Function : SymbolKind.Class
+          return { kind: pos.character < 14 ? SymbolKind.Function : SymbolKind.Class }
         })
 
         const editor = createMockEditor(["import { myFn, MyClass } from 'mod'"])
@@ -384,7 +618,7 @@ describe('DecorationService', () => {
         })
       })
 
-      it('should not apply any decorations when colors map is empty', async () => {
+      it('should not apply any decorations when styles map is empty', async () => {
         const created = createService({})
         service = created.service
         mockProbe(created.probe)
@@ -392,7 +626,7 @@ describe('DecorationService', () => {
         mockParserReturn(service, [
           stmt({ localName: 'myFn', startLine: 0, startColumn: 9, endLine: 0, endColumn: 13 }),
         ])
-        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue(SymbolKind.Function)
+        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Function })
 
         const editor = createMockEditor(["import { myFn } from 'mod'"])
         await service.applyImportDecorations(editor)
@@ -406,14 +640,14 @@ describe('DecorationService', () => {
         mockParserReturn(service, [
           stmt({ localName: 'useState', source: 'react', startLine: 0, startColumn: 9, endLine: 0, endColumn: 17 }),
         ])
-        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue(SymbolKind.Function)
+        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Function })
 
         const editor = createMockEditor(["import { useState } from 'react'"])
         await service.applyImportDecorations(editor)
 
         const cached = internals(service).documentCaches.get(editor.document.uri.toString())
         expect(cached).toBeDefined()
-        expect(cached!.symbolKinds.get('useState')).toBe(SymbolKind.Function)
+        expect(cached!.resolvedSymbols.get('useState')?.kind).toBe(SymbolKind.Function)
       })
 
       it('should reuse cache when importSectionText is unchanged', async () => {
@@ -422,7 +656,7 @@ describe('DecorationService', () => {
 
         internals(service).documentCaches.set(docUri, {
           importSectionText: importLine,
-          symbolKinds: new Map([['useState', SymbolKind.Function]]),
+          resolvedSymbols: new Map([['useState', { kind: SymbolKind.Function }]]),
         })
 
         mockParserReturn(service, [
@@ -441,13 +675,13 @@ describe('DecorationService', () => {
 
         internals(service).documentCaches.set(docUri, {
           importSectionText: "import { useState } from 'react'",
-          symbolKinds: new Map([['useState', SymbolKind.Function]]),
+          resolvedSymbols: new Map([['useState', { kind: SymbolKind.Function }]]),
         })
 
         mockParserReturn(service, [
           stmt({ localName: 'useEffect', source: 'react', startLine: 0, startColumn: 9, endLine: 0, endColumn: 18 }),
         ])
-        const spy = spyResolve(PluginSymbolResolver.prototype).mockResolvedValue(SymbolKind.Function)
+        const spy = spyResolve(PluginSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Function })
 
         const editor = createMockEditor(["import { useEffect } from 'react'"])
         await service.applyImportDecorations(editor)
@@ -461,14 +695,14 @@ describe('DecorationService', () => {
 
         internals(service).documentCaches.set(docUri, {
           importSectionText: importText,
-          symbolKinds: new Map([['useState', SymbolKind.Function]]),
+          resolvedSymbols: new Map([['useState', { kind: SymbolKind.Function }]]),
         })
 
         mockParserReturn(service, [
           stmt({ localName: 'useState', source: 'react', startLine: 0, startColumn: 9, endLine: 0, endColumn: 17 }),
           stmt({ localName: 'useEffect', source: 'react', startLine: 0, startColumn: 19, endLine: 0, endColumn: 28 }),
         ])
-        const spy = spyResolve(PluginSymbolResolver.prototype).mockResolvedValue(SymbolKind.Function)
+        const spy = spyResolve(PluginSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Function })
 
         const editor = createMockEditor([importText])
         await service.applyImportDecorations(editor)
@@ -483,7 +717,7 @@ describe('DecorationService', () => {
 
         internals(service).documentCaches.set(docUri, {
           importSectionText: importText,
-          symbolKinds: new Map([['useState', SymbolKind.Function]]),
+          resolvedSymbols: new Map([['useState', { kind: SymbolKind.Function }]]),
         })
 
         mockParserReturn(service, [
@@ -506,21 +740,21 @@ describe('DecorationService', () => {
 
         internals(service).documentCaches.set(docUri, {
           importSectionText: importText,
-          symbolKinds: new Map([['useState', SymbolKind.Function]]),
+          resolvedSymbols: new Map([['useState', { kind: SymbolKind.Function }]]),
         })
 
         mockParserReturn(service, [
           stmt({ localName: 'useState', source: 'react', startLine: 0, startColumn: 9, endLine: 0, endColumn: 17 }),
           stmt({ localName: 'useEffect', source: 'react', startLine: 0, startColumn: 19, endLine: 0, endColumn: 28 }),
         ])
-        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue(SymbolKind.Function)
+        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Function })
 
         const editor = createMockEditor([importText])
         await service.applyImportDecorations(editor)
 
         const cached = internals(service).documentCaches.get(docUri)
-        expect(cached!.symbolKinds.get('useState')).toBe(SymbolKind.Function)
-        expect(cached!.symbolKinds.get('useEffect')).toBe(SymbolKind.Function)
+        expect(cached!.resolvedSymbols.get('useState')?.kind).toBe(SymbolKind.Function)
+        expect(cached!.resolvedSymbols.get('useEffect')?.kind).toBe(SymbolKind.Function)
       })
     })
 
@@ -529,7 +763,7 @@ describe('DecorationService', () => {
         mockParserReturn(service, [
           stmt({ localName: 'useState', source: 'react', startLine: 0, startColumn: 9, endLine: 0, endColumn: 17 }),
         ])
-        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue(SymbolKind.Function)
+        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Function })
 
         const editor = createMockEditor(["import { useState } from 'react'"])
         await service.applyImportDecorations(editor)
@@ -539,16 +773,30 @@ describe('DecorationService', () => {
           editor.document.uri.toString(),
           editor.document,
           expect.objectContaining({ line: 0, character: 9 }),
+          { timeout: DEFAULT_CONFIGURATION.probe.timeout },
         )
       })
 
+      it('should pass the configured probe timeout', async () => {
+        mockConfiguration(internals(service).configuration, { probe: { timeout: 2000 } })
+        mockParserReturn(service, [
+          stmt({ localName: 'useState', source: 'react', startLine: 0, startColumn: 9, endLine: 0, endColumn: 17 }),
+        ])
+
+        await service.applyImportDecorations(createMockEditor(["import { useState } from 'react'"]))
+
+        expect(probe.waitForReady).toHaveBeenCalledWith(expect.anything(), expect.anything(), expect.anything(), {
+          timeout: 2000,
+        })
+      })
+
       it('should not call probe when all symbols are cached', async () => {
         const importLine = "import { useState } from 'react'"
         const docUri = 'file:///test.ts'
 
         internals(service).documentCaches.set(docUri, {
           importSectionText: importLine,
-          symbolKinds: new Map([['useState', SymbolKind.Function]]),
+          resolvedSymbols: new Map([['useState', { kind: SymbolKind.Function }]]),
         })
 
         mockParserReturn(service, [
@@ -565,7 +813,7 @@ describe('DecorationService', () => {
         mockParserReturn(service, [
           stmt({ localName: 'useState', source: 'react', startLine: 0, startColumn: 9, endLine: 0, endColumn: 17 }),
         ])
-        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue(SymbolKind.Function)
+        spyResolve(PluginSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Function })
 
         const editor = createMockEditor(["import { useState } from 'react'"])
 
@@ -581,7 +829,7 @@ describe('DecorationService', () => {
         mockParserReturn(service, [
           stmt({ localName: 'useState', source: 'react', startLine: 0, startColumn: 9, endLine: 0, endColumn: 17 }),
         ])
-        const spy = spyResolve(PluginSymbolResolver.prototype).mockResolvedValue(SymbolKind.Function)
+        const spy = spyResolve(PluginSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Function })
 
         const editor = createMockEditor(["import { useState } from 'react'"])
         await service.applyImportDecorations(editor)
@@ -604,8 +852,8 @@ describe('DecorationService', () => {
           stmt({ localName: 'useState', source: 'react', startLine: 0, startColumn: 9, endLine: 0, endColumn: 17 }),
         ])
 
-        let resolveFirst!: (value: SymbolKind | undefined) => void
-        const firstPromise = new Promise<SymbolKind | undefined>((resolve) => {
+        let resolveFirst!: (value: ResolvedSymbol | undefined) => void
+        const firstPromise = new Promise<ResolvedSymbol | undefined>((resolve) => {
           resolveFirst = resolve
         })
         let callCount = 0
@@ -614,7 +862,7 @@ describe('DecorationService', () => {
           if (callCount === 1) {
             return firstPromise
           }
-          return SymbolKind.Class
+          return { kind: SymbolKind.Class }
         })
 
         const editor = createMockEditor(["import { useState } from 'react'"])
@@ -648,8 +896,8 @@ describe('DecorationService', () => {
           stmt({ localName: 'useState', source: 'react', startLine: 0, startColumn: 9, endLine: 0, endColumn: 17 }),
         ])
 
-        let resolveFirst!: (value: SymbolKind | undefined) => void
-        const firstPromise = new Promise<SymbolKind | undefined>((resolve) => {
+        let resolveFirst!: (value: ResolvedSymbol | undefined) => void
+        const firstPromise = new Promise<ResolvedSymbol | undefined>((resolve) => {
           resolveFirst = resolve
         })
         let callCount = 0
@@ -658,7 +906,7 @@ describe('DecorationService', () => {
           if (callCount === 1) {
             return firstPromise
           }
-          return SymbolKind.Class
+          return { kind: SymbolKind.Class }
         })
 
         const editor = createMockEditor(["import { useState } from 'react'"])
@@ -671,14 +919,14 @@ describe('DecorationService', () => {
         await second
 
         const cacheAfterSecond = internals(service).documentCaches.get(docUri)
-        expect(cacheAfterSecond!.symbolKinds.get('useState')).toBe(SymbolKind.Class)
+        expect(cacheAfterSecond!.resolvedSymbols.get('useState')?.kind).toBe(SymbolKind.Class)
 
         // Stale resolve should not overwrite the cache
         resolveFirst(SymbolKind.Function)
         await first
 
         const cacheAfterFirst = internals(service).documentCaches.get(docUri)
-        expect(cacheAfterFirst!.symbolKinds.get('useState')).toBe(SymbolKind.Class)
+        expect(cacheAfterFirst!.resolvedSymbols.get('useState')?.kind).toBe(SymbolKind.Class)
       })
 
       it('should ignore stale onResult events', async () => {
@@ -688,8 +936,8 @@ describe('DecorationService', () => {
           stmt({ localName: 'myFn', startLine: 0, startColumn: 9, endLine: 0, endColumn: 13 }),
         ])
 
-        let resolvePlugin!: (value: SymbolKind | undefined) => void
-        const pluginPromise = new Promise<SymbolKind | undefined>((resolve) => {
+        let resolvePlugin!: (value: ResolvedSymbol | undefined) => void
+        const pluginPromise = new Promise<ResolvedSymbol | undefined>((resolve) => {
           resolvePlugin = resolve
         })
         let callCount = 0
@@ -712,7 +960,7 @@ describe('DecorationService', () => {
 
         // First resolver's onResult fires — should be ignored
         vi.mocked(editor.setDecorations).mockClear()
-        resolvePlugin(SymbolKind.Function)
+        resolvePlugin({ kind: SymbolKind.Function })
         await first
 
         const applyCalls = vi
@@ -728,7 +976,7 @@ describe('DecorationService', () => {
           stmt({ localName: 'useState', source: 'react', startLine: 0, startColumn: 9, endLine: 0, endColumn: 17 }),
         ])
 
-        let resolvePlugin!: (value: SymbolKind | undefined) => void
+        let resolvePlugin!: (value: ResolvedSymbol | undefined) => void
         spyResolve(PluginSymbolResolver.prototype).mockImplementation(
           () =>
             new Promise((resolve) => {
@@ -746,7 +994,7 @@ describe('DecorationService', () => {
         expect(internals(service).activeResolvers.has(docUri)).toBe(false)
 
         vi.mocked(editor.setDecorations).mockClear()
-        resolvePlugin(SymbolKind.Function)
+        resolvePlugin({ kind: SymbolKind.Function })
         await promise
 
         const applyCalls = vi
@@ -762,7 +1010,7 @@ describe('DecorationService', () => {
           stmt({ localName: 'useState', source: 'react', startLine: 0, startColumn: 9, endLine: 0, endColumn: 17 }),
         ])
 
-        let resolvePlugin!: (value: SymbolKind | undefined) => void
+        let resolvePlugin!: (value: ResolvedSymbol | undefined) => void
         spyResolve(PluginSymbolResolver.prototype).mockImplementation(
           () =>
             new Promise((resolve) => {
@@ -779,7 +1027,7 @@ describe('DecorationService', () => {
         await new Promise((r) => setTimeout(r, 10))
         expect(internals(service).activeResolvers.has(docUri)).toBe(true)
 
-        resolvePlugin(SymbolKind.Function)
+        resolvePlugin({ kind: SymbolKind.Function })
         await applyPromise
 
         expect(internals(service).activeResolvers.has(docUri)).toBe(false)
@@ -794,11 +1042,11 @@ describe('DecorationService', () => {
         ])
 
         spyResolve(SemanticTokenSymbolResolver.prototype).mockImplementation(async (_doc, pos) => {
-          return pos.character === 9 ? SymbolKind.Variable : undefined
+          return pos.character === 9 ? { kind: SymbolKind.Variable } : undefined
         })
 
-        let resolveHover!: (value: SymbolKind | undefined) => void
-        const hoverPromise = new Promise<SymbolKind | undefined>((resolve) => {
+        let resolveHover!: (value: ResolvedSymbol | undefined) => void
+        const hoverPromise = new Promise<ResolvedSymbol | undefined>((resolve) => {
           resolveHover = resolve
         })
         spyResolve(HoverSymbolResolver.prototype).mockImplementation(async () => hoverPromise)
@@ -812,7 +1060,7 @@ describe('DecorationService', () => {
         const decoratedBefore = callsBefore.filter((call) => Array.isArray(call[1]) && call[1].length > 0)
         expect(decoratedBefore.length).toBeGreaterThanOrEqual(1)
 
-        resolveHover(SymbolKind.Class)
+        resolveHover({ kind: SymbolKind.Class })
         await applyPromise
 
         const callsAfter = vi.mocked(editor.setDecorations).mock.calls
@@ -824,8 +1072,10 @@ describe('DecorationService', () => {
         mockParserReturn(service, [
           stmt({ localName: 'myFn', startLine: 0, startColumn: 9, endLine: 0, endColumn: 13 }),
         ])
-        const semanticSpy = spyResolve(SemanticTokenSymbolResolver.prototype).mockResolvedValue(SymbolKind.Variable)
-        spyResolve(HoverSymbolResolver.prototype).mockResolvedValue(SymbolKind.Function)
+        const semanticSpy = spyResolve(SemanticTokenSymbolResolver.prototype).mockResolvedValue({
+          kind: SymbolKind.Variable,
+        })
+        spyResolve(HoverSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Function })
 
         const editor = createMockEditor(["import { myFn } from 'mod'"])
         await service.applyImportDecorations(editor)
@@ -837,24 +1087,133 @@ describe('DecorationService', () => {
         mockParserReturn(service, [
           stmt({ localName: 'myFn', startLine: 0, startColumn: 9, endLine: 0, endColumn: 13 }),
         ])
-        spyResolve(SemanticTokenSymbolResolver.prototype).mockResolvedValue(SymbolKind.Function)
-        spyResolve(HoverSymbolResolver.prototype).mockResolvedValue(SymbolKind.Variable)
+        spyResolve(SemanticTokenSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Function })
+        spyResolve(HoverSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Variable })
 
         const editor = createMockEditor(["import { myFn } from 'mod'"])
         await service.applyImportDecorations(editor)
 
         expect(vscode.window.createTextEditorDecorationType).toHaveBeenCalledWith({
-          color: TEST_COLORS[SymbolKind.Function],
+          color: TEST_STYLES[SymbolKind.Function]?.color,
         })
       })
+
+      it('should keep the modifiers when a later resolver confirms the kind without them', async () => {
+        mockParserReturn(service, [stmt({ localName: 'MAX', startLine: 0, startColumn: 9, endLine: 0, endColumn: 12 })])
+        spyResolve(SemanticTokenSymbolResolver.prototype).mockResolvedValue({
+          kind: SymbolKind.Variable,
+          modifiers: ['readonly'],
+        })
+        spyResolve(HoverSymbolResolver.prototype).mockResolvedValue({ kind: SymbolKind.Variable })
+
+        const editor = createMockEditor(["import { MAX } from 'mod'"])
+        await service.applyImportDecorations(editor)
+
+        expect(
+          internals(service).documentCaches.get(editor.document.uri.toString())?.resolvedSymbols.get('MAX'),
+        ).toEqual({ kind: SymbolKind.Variable, modifiers: ['readonly'] })
+      })
     })
   })
 
-  describe('setColors', () => {
-    it('should update the colors map', () => {
-      const newColors: SymbolColorMap = { [SymbolKind.Function]: '#FF0000' }
-      service.setColors(newColors)
-      expect(internals(service).colors).toBe(newColors)
+  describe('module specifier decorations', () => {
+    let classifier: ModuleSpecifierClassifier
+    let configuration: ConfigurationService
+
+    function mockSpecifiersEnabled(enabled: boolean) {
+      mockConfiguration(configuration, { moduleSpecifiers: { enabled } })
+    }
+
+    function mockSpecifiers(specifiers: ModuleSpecifier[]) {
+      vi.spyOn(parserOf(service), 'findModuleSpecifiers').mockReturnValue(specifiers)
+    }
+
+    function spec(source: string, line: number, startColumn: number, isSideEffect = false): ModuleSpecifier {
+      return {
+        source,
+        isSideEffect,
+        startLine: line,
+        startColumn,
+        endLine: line,
+        endColumn: startColumn + source.length + 2,
+      }
+    }
+
+    beforeEach(() => {
+      const created = createService()
+      service = created.service
+      classifier = created.classifier
+      configuration = created.configuration
+      mockProbe(created.probe)
+      vi.spyOn(classifier, 'classify').mockImplementation(async (specifier, _file, isSideEffect) =>
+        isSideEffect
+          ? ModuleCategory.SideEffect
+          : specifier.startsWith('.')
+            ? ModuleCategory.Relative
+            : ModuleCategory.External,
+      )
+    })
+
+    it('should not decorate specifiers when disabled', async () => {
+      mockSpecifiersEnabled(false)
+      const editor = createMockEditor(["import { a } from './a'"])
+      await service.applyImportDecorations(editor)
+
+      expect(classifier.classify).not.toHaveBeenCalled()
+    })
+
+    it('should decorate specifiers with a theme color per category', async () => {
+      mockSpecifiersEnabled(true)
+      mockSpecifiers([spec('./a', 0, 18), spec('polyfill', 1, 7, true), spec('lib', 2, 14)])
+      const editor = createMockEditor(["import { a } from './a'", "import 'polyfill'", "import b from 'lib'"])
+      await service.applyImportDecorations(editor)
+
+      expect(vscode.window.createTextEditorDecorationType).toHaveBeenCalledWith({
+        color: new vscode.ThemeColor('semanticImports.moduleSpecifier.relative'),
+      })
+      const calls = vi.mocked(editor.setDecorations).mock.calls
+      const rangesFor = (category: ModuleCategory) =>
+        calls.find(([type]) => type === internals(service).specifierDecorationTypes.get(category))?.[1]
+
+      expect(rangesFor(ModuleCategory.Relative)).toEqual([new vscode.Range(0, 18, 0, 23)])
+      expect(rangesFor(ModuleCategory.SideEffect)).toEqual([new vscode.Range(1, 7, 1, 17)])
+      expect(rangesFor(ModuleCategory.External)).toEqual([new vscode.Range(2, 14, 2, 19)])
+    })
+
+    it('should drop specifier decorations when the document changes while classifying', async () => {
+      mockSpecifiersEnabled(true)
+      mockSpecifiers([spec('lib', 0, 14)])
+      const editor = createMockEditor(["import b from 'lib'"])
+      const document = editor.document as { version: number }
+      document.version = 1
+      vi.mocked(classifier.classify).mockImplementation(async () => {
+        document.version = 2
+        return ModuleCategory.External
+      })
+
+      await service.applyImportDecorations(editor)
+
+      expect(internals(service).specifierDecorationTypes.size).toBe(0)
+    })
+
+    it('should dispose specifier decoration types', async () => {
+      mockSpecifiersEnabled(true)
+      mockSpecifiers([spec('./a', 0, 7)])
+      await service.applyImportDecorations(createMockEditor(["import { a } from './a'"]))
+      const [type] = internals(service).specifierDecorationTypes.values()
+
+      service.dispose()
+
+      expect(type.dispose).toHaveBeenCalledOnce()
+      expect(internals(service).specifierDecorationTypes.size).toBe(0)
+    })
+  })
+
+  describe('setThemeStyles', () => {
+    it('should update the theme styles', () => {
+      const newStyles: ThemeStyles = () => ({ [SymbolKind.Function]: { color: '#FF0000' } })
+      service.setThemeStyles(newStyles)
+      expect(internals(service).themeStyles).toBe(newStyles)
     })
 
     it('should dispose existing decoration types', () => {
@@ -867,7 +1226,7 @@ describe('DecorationService', () => {
         dispose: dispose2,
       } as unknown as vscode.TextEditorDecorationType)
 
-      service.setColors({})
+      service.setThemeStyles(() => ({}))
 
       expect(dispose1).toHaveBeenCalledOnce()
       expect(dispose2).toHaveBeenCalledOnce()
@@ -878,25 +1237,58 @@ describe('DecorationService', () => {
         dispose: vi.fn(),
       } as unknown as vscode.TextEditorDecorationType)
 
-      service.setColors({})
+      service.setThemeStyles(() => ({}))
 
       expect(internals(service).decorationTypes.size).toBe(0)
     })
   })
 
+  describe('removeDecorations', () => {
+    it('should cancel pending work and clear the editor decorations', () => {
+      const type = { dispose: vi.fn() } as unknown as vscode.TextEditorDecorationType
+      internals(service).decorationTypes.set('#aaa', type)
+      internals(service).activeResolvers.set('file:///test.ts', {} as SymbolResolver)
+      const editor = createMockEditor([''])
+
+      service.removeDecorations(editor)
+
+      expect(probe.cancel).toHaveBeenCalledWith('file:///test.ts')
+      expect(internals(service).activeResolvers.has('file:///test.ts')).toBe(false)
+      expect(editor.setDecorations).toHaveBeenCalledWith(type, [])
+    })
+  })
+
+  describe('recordDocumentChanges', () => {
+    it('should forward the changes to the incremental parser', () => {
+      const recordChanges = vi.spyOn(internals(service).documentParser, 'recordChanges')
+      const document = { uri: vscode.Uri.parse('file:///test.ts'), version: 2 } as vscode.TextDocument
+      const changes = [{ rangeOffset: 0, rangeLength: 0, text: 'x' }]
+
+      service.recordDocumentChanges(document, changes)
+
+      expect(recordChanges).toHaveBeenCalledWith('file:///test.ts', 2, changes)
+    })
+  })
+
   describe('clearDocumentCache', () => {
+    it('should forget the parsed document', () => {
+      const forget = vi.spyOn(internals(service).documentParser, 'forget')
+      service.clearDocumentCache('file:///test.ts')
+      expect(forget).toHaveBeenCalledWith('file:///test.ts')
+    })
+
     it('should delete the cache entry for the given uri', () => {
       internals(service).documentCaches.set('file:///test.ts', {
         importSectionText: 'import {}',
-        symbolKinds: new Map(),
+        resolvedSymbols: new Map(),
       })
       service.clearDocumentCache('file:///test.ts')
       expect(internals(service).documentCaches.has('file:///test.ts')).toBe(false)
     })
 
     it('should not affect other cache entries', () => {
-      internals(service).documentCaches.set('file:///a.ts', { importSectionText: '', symbolKinds: new Map() })
-      internals(service).documentCaches.set('file:///b.ts', { importSectionText: '', symbolKinds: new Map() })
+      internals(service).documentCaches.set('file:///a.ts', { importSectionText: '', resolvedSymbols: new Map() })
+      internals(service).documentCaches.set('file:///b.ts', { importSectionText: '', resolvedSymbols: new Map() })
       service.clearDocumentCache('file:///a.ts')
       expect(internals(service).documentCaches.has('file:///a.ts')).toBe(false)
       expect(internals(service).documentCaches.has('file:///b.ts')).toBe(true)
@@ -937,7 +1329,7 @@ describe('DecorationService', () => {
     })
 
     it('should clear the documentCaches map', () => {
-      internals(service).documentCaches.set('file:///test.ts', { importSectionText: '', symbolKinds: new Map() })
+      internals(service).documentCaches.set('file:///test.ts', { importSectionText: '', resolvedSymbols: new Map() })
 
       service.dispose()
 
@@ -952,34 +1344,43 @@ describe('DecorationService', () => {
   })
 
   describe('getDecorationType', () => {
-    it('should create a new decoration type for an unseen color', () => {
-      const result = internals(service).getDecorationType('#ff0000')
+    const RED = { color: '#ff0000' }
+
+    it('should create a new decoration type for unseen render options', () => {
+      const result = internals(service).getDecorationType(RED)
 
       expect(vscode.window.createTextEditorDecorationType).toHaveBeenCalledWith({ color: '#ff0000' })
       expect(result).toBeDefined()
       expect(result.dispose).toBeDefined()
     })
 
-    it('should return cached decoration type for previously seen color', () => {
-      const first = internals(service).getDecorationType('#ff0000')
-      const second = internals(service).getDecorationType('#ff0000')
+    it('should return cached decoration type for previously seen render options', () => {
+      const first = internals(service).getDecorationType(RED)
+      const second = internals(service).getDecorationType(RED)
 
       expect(vscode.window.createTextEditorDecorationType).toHaveBeenCalledTimes(1)
       expect(first).toBe(second)
     })
 
-    it('should create separate decoration types for different colors', () => {
-      const red = internals(service).getDecorationType('#ff0000')
-      const green = internals(service).getDecorationType('#00ff00')
+    it('should create separate decoration types for different render options', () => {
+      const red = internals(service).getDecorationType(RED)
+      const green = internals(service).getDecorationType({ color: '#00ff00' })
 
       expect(vscode.window.createTextEditorDecorationType).toHaveBeenCalledTimes(2)
       expect(red).not.toBe(green)
     })
 
+    it('should create decoration types with the full render options', () => {
+      const options = { color: '#ff0000', fontStyle: 'italic', fontWeight: 'bold' }
+      internals(service).getDecorationType(options)
+
+      expect(vscode.window.createTextEditorDecorationType).toHaveBeenCalledWith(options)
+    })
+
     it('should store the decoration type in the decorationTypes map', () => {
-      const result = internals(service).getDecorationType('#ff0000')
+      const result = internals(service).getDecorationType(RED)
 
-      expect(internals(service).decorationTypes.get('#ff0000')).toBe(result)
+      expect(internals(service).decorationTypes.get(JSON.stringify(RED))).toBe(result)
     })
   })
 })
@@ -1,20 +1,27 @@
 import { inject, injectable } from 'inversify'
 import * as vscode from 'vscode'
+import { ConfigurationService } from '@/config'
 import { TOKENS } from '@/di/tokens'
 import { Logger } from '@/logger'
-import { TypeScriptParser } from '@/parser'
-import { SymbolConfidence, type SymbolKind } from '@/symbol'
-import type { SymbolColorMap } from '@/theme'
+import { ModuleCategory, ModuleSpecifierClassifier } from '@/module'
+import { IncrementalDocumentParser, type ModuleSpecifier, type TextChange } from '@/parser'
+import { getImportSectionEnd } from '@/parser/utils/getImportSectionEnd'
+import { type ResolvedSymbol, SymbolConfidence } from '@/symbol'
+import type { ThemeStyles } from '@/theme'
 import { TypeScriptLanguageService, TypeScriptServerProbe } from '@/typescript/language'
 import type { ResolveTarget } from './resolver'
 import { SymbolResolver } from './resolver'
 import type { DocumentCache, SymbolOccurrence } from './types'
+import { toDecorationRenderOptions } from './utils/toDecorationRenderOptions'
 
 interface DecorationContext {
   occurrences: Map<string, SymbolOccurrence>
+  usages: Map<string, vscode.Range[]>
   importSectionText: string
 }
 
+type ParsedDocument = ReturnType<IncrementalDocumentParser['parse']>
+
 export type SymbolResolverFactory = (
   document: vscode.TextDocument,
   targets: Map<string, ResolveTarget>,
@@ -25,19 +32,22 @@ export type SymbolResolverFactory = (
 export class DecorationService implements vscode.Disposable {
   private readonly logger = Logger.create(DecorationService)
   private readonly decorationTypes = new Map<string, vscode.TextEditorDecorationType>()
+  private readonly specifierDecorationTypes = new Map<ModuleCategory, vscode.TextEditorDecorationType>()
   private readonly documentCaches = new Map<string, DocumentCache>()
   private readonly activeResolvers = new Map<string, SymbolResolver>()
-  private colors: SymbolColorMap = {}
+  private themeStyles: ThemeStyles = () => ({})
 
   constructor(
     private readonly languageService: TypeScriptLanguageService,
     private readonly probe: TypeScriptServerProbe,
-    private readonly parser: TypeScriptParser,
+    private readonly documentParser: IncrementalDocumentParser,
+    private readonly moduleClassifier: ModuleSpecifierClassifier,
+    private readonly configuration: ConfigurationService,
     @inject(TOKENS.SymbolResolverFactory) private readonly createSymbolResolver: SymbolResolverFactory,
   ) {}
 
-  setColors(colors: SymbolColorMap) {
-    this.colors = colors
+  setThemeStyles(styles: ThemeStyles) {
+    this.themeStyles = styles
     for (const type of this.decorationTypes.values()) {
       type.dispose()
     }
@@ -51,23 +61,30 @@ export class DecorationService implements vscode.Disposable {
     this.probe.cancel(docUri)
     this.clearDecorations(editor)
 
-    const context = this.buildContext(document)
+    const text = document.getText()
+    const parsed = this.documentParser.parse(docUri, document.version, text, document.languageId, document.fileName)
+    // Specifiers are classified off the decoration pass, as resolving them may touch the file system
+    void this.applyModuleSpecifierDecorations(editor, parsed.specifiers)
+
+    const context = this.buildContext(text, parsed)
     if (!context) {
       return
     }
 
-    const { symbolKinds, targetsToResolve } = this.loadCachedKinds(docUri, context)
+    const { resolvedSymbols, targetsToResolve } = this.loadCachedSymbols(docUri, context)
 
     if (targetsToResolve.size === 0) {
-      this.logger.debug(`all ${symbolKinds.size} symbols resolved from cache`)
-      this.applyDecorationsToEditor(editor, context.occurrences, symbolKinds)
+      this.logger.debug(`all ${resolvedSymbols.size} symbols resolved from cache`)
+      this.applyDecorationsToEditor(editor, context.usages, resolvedSymbols)
       return
     }
 
-    this.logger.info(`resolving ${targetsToResolve.size} symbols, ${symbolKinds.size} from cache`)
+    this.logger.info(`resolving ${targetsToResolve.size} symbols, ${resolvedSymbols.size} from cache`)
 
     const [, firstTarget] = targetsToResolve.entries().next().value!
-    const proceed = await this.probe.waitForReady(docUri, document, firstTarget.range.start)
+    const proceed = await this.probe.waitForReady(docUri, document, firstTarget.range.start, {
+      timeout: this.configuration.current.probe.timeout,
+    })
     if (!proceed) {
       return
     }
@@ -77,17 +94,19 @@ export class DecorationService implements vscode.Disposable {
 
     const isStale = () => this.activeResolvers.get(docUri) !== resolver
 
-    resolver.onResult((phaseKinds) => {
+    resolver.onResult((phaseSymbols) => {
       if (isStale()) {
         return
       }
-      for (const [symbol, kind] of phaseKinds) {
-        const existing = symbolKinds.get(symbol)
-        if (!existing || SymbolConfidence[kind] >= SymbolConfidence[existing]) {
-          symbolKinds.set(symbol, kind)
+      for (const [symbol, resolved] of phaseSymbols) {
+        const existing = resolvedSymbols.get(symbol)
+        if (!existing || SymbolConfidence[resolved.kind] >= SymbolConfidence[existing.kind]) {
+          // Resolvers that confirm the kind without reading modifiers keep those read before
+          const modifiers = resolved.modifiers ?? (existing?.kind === resolved.kind ? existing.modifiers : undefined)
+          resolvedSymbols.set(symbol, { kind: resolved.kind, modifiers })
         }
       }
-      this.applyDecorationsToEditor(editor, context.occurrences, symbolKinds)
+      this.applyDecorationsToEditor(editor, context.usages, resolvedSymbols)
     })
 
     await resolver.resolve()
@@ -96,20 +115,37 @@ export class DecorationService implements vscode.Disposable {
       return
     }
 
-    const unresolved = [...targetsToResolve.keys()].filter((s) => !symbolKinds.has(s))
+    const unresolved = [...targetsToResolve.keys()].filter((s) => !resolvedSymbols.has(s))
     if (unresolved.length > 0) {
       this.logger.info(`could not resolve: ${unresolved.map((s) => `'${s}'`).join(', ')}`)
     }
 
-    this.applyDecorationsToEditor(editor, context.occurrences, symbolKinds)
-    this.documentCaches.set(docUri, { importSectionText: context.importSectionText, symbolKinds: new Map(symbolKinds) })
+    this.applyDecorationsToEditor(editor, context.usages, resolvedSymbols)
+    this.documentCaches.set(docUri, {
+      importSectionText: context.importSectionText,
+      resolvedSymbols: new Map(resolvedSymbols),
+    })
 
     if (!isStale()) {
       this.activeResolvers.delete(docUri)
     }
   }
 
+  /** Feeds document edits to the incremental parser ahead of the next decoration pass */
+  recordDocumentChanges(document: vscode.TextDocument, changes: readonly TextChange[]) {
+    this.documentParser.recordChanges(document.uri.toString(), document.version, changes)
+  }
+
+  /** Stops any pending resolution for the editor's document and removes its decorations */
+  removeDecorations(editor: vscode.TextEditor) {
+    const docUri = editor.document.uri.toString()
+    this.probe.cancel(docUri)
+    this.activeResolvers.delete(docUri)
+    this.clearDecorations(editor)
+  }
+
   clearDocumentCache(uri: string) {
+    this.documentParser.forget(uri)
     this.probe.cancel(uri)
     this.activeResolvers.delete(uri)
     this.documentCaches.delete(uri)
@@ -122,94 +158,187 @@ export class DecorationService implements vscode.Disposable {
       type.dispose()
     }
     this.decorationTypes.clear()
+    for (const type of this.specifierDecorationTypes.values()) {
+      type.dispose()
+    }
+    this.specifierDecorationTypes.clear()
     this.documentCaches.clear()
   }
 
-  private buildContext(document: vscode.TextDocument): DecorationContext | null {
-    const text = document.getText()
-    const statements = this.parser.parseImports(text)
+  private buildContext(text: string, parsed: ParsedDocument): DecorationContext | null {
+    const { statements, usages: symbolUsages, importTypes } = parsed
 
-    if (statements.length === 0) {
+    if (statements.length === 0 && importTypes.length === 0) {
       return null
     }
 
     const occurrences = new Map<string, SymbolOccurrence>()
+    const usages = new Map<string, vscode.Range[]>()
+    // Scoped `require()` / `import()` bindings and imports inside module blocks are keyed apart from module-level
+    // imports of the same name, and re-exports, which bind no local name, by their module and exported name
     for (const s of statements) {
-      if (!occurrences.has(s.localName)) {
-        occurrences.set(s.localName, {
-          source: s.source,
-          range: new vscode.Range(s.startLine, s.startColumn, s.endLine, s.endColumn),
-        })
+      const symbol = s.kind === 'reexport' ? `export { ${s.localName} } from '${s.source}'` : (s.binding ?? s.localName)
+      const range = new vscode.Range(s.startLine, s.startColumn, s.endLine, s.endColumn)
+      if (!occurrences.has(symbol)) {
+        occurrences.set(symbol, { source: s.source, range })
+      }
+      this.addUsage(usages, symbol, range)
+    }
+
+    for (const u of symbolUsages) {
+      const range = new vscode.Range(u.startLine, u.startColumn, u.endLine, u.endColumn)
+      this.addUsage(usages, u.binding ?? u.localName, range)
+    }
+
+    // Inline import types bind no local name, so each distinct module member is its own symbol
+    for (const t of importTypes) {
+      const symbol = `import('${t.source}').${t.qualifier}`
+      const range = new vscode.Range(t.startLine, t.startColumn, t.endLine, t.endColumn)
+      if (!occurrences.has(symbol)) {
+        occurrences.set(symbol, { source: t.source, range })
       }
+      this.addUsage(usages, symbol, range)
     }
 
-    const importEndLine = Math.max(...statements.map((s) => s.endLine)) + 1
-    const importSectionText = text.split('\n').slice(0, importEndLine).join('\n')
+    const importSectionText = text.slice(0, getImportSectionEnd(text, statements))
+
+    return { occurrences, usages, importSectionText }
+  }
 
-    return { occurrences, importSectionText }
+  private addUsage(usages: Map<string, vscode.Range[]>, symbol: string, range: vscode.Range) {
+    const ranges = usages.get(symbol) ?? []
+    ranges.push(range)
+    usages.set(symbol, ranges)
   }
 
-  private loadCachedKinds(docUri: string, context: DecorationContext) {
+  private loadCachedSymbols(docUri: string, context: DecorationContext) {
     const cached = this.documentCaches.get(docUri)
-    const reusableCache = cached && cached.importSectionText === context.importSectionText ? cached.symbolKinds : null
+    const reusableCache =
+      cached && cached.importSectionText === context.importSectionText ? cached.resolvedSymbols : null
 
-    const symbolKinds = new Map<string, SymbolKind>()
+    const resolvedSymbols = new Map<string, ResolvedSymbol>()
     const targetsToResolve = new Map<string, SymbolOccurrence>()
 
     for (const [symbol, occurrence] of context.occurrences) {
-      const kind = reusableCache?.get(symbol)
-      if (kind) {
-        symbolKinds.set(symbol, kind)
+      const resolved = reusableCache?.get(symbol)
+      if (resolved) {
+        resolvedSymbols.set(symbol, resolved)
       } else {
         targetsToResolve.set(symbol, occurrence)
       }
     }
 
-    return { symbolKinds, targetsToResolve }
+    return { resolvedSymbols, targetsToResolve }
   }
 
   private clearDecorations(editor: vscode.TextEditor) {
     for (const type of this.decorationTypes.values()) {
       editor.setDecorations(type, [])
     }
+    for (const type of this.specifierDecorationTypes.values()) {
+      editor.setDecorations(type, [])
+    }
+  }
+
+  private async applyModuleSpecifierDecorations(editor: vscode.TextEditor, specifiers: ModuleSpecifier[]) {
+    const document = editor.document
+    if (!this.configuration.current.moduleSpecifiers.enabled || document.uri.scheme !== 'file') {
+      return
+    }
+
+    const version = document.version
+    let categories: ModuleCategory[]
+    try {
+      categories = await Promise.all(
+        specifiers.map((s) => this.moduleClassifier.classify(s.source, document.uri.fsPath, s.isSideEffect)),
+      )
+    } catch (e) {
+      this.logger.warn('failed to classify module specifiers:', e)
+      return
+    }
+    if (document.version !== version) {
+      return
+    }
+
+    const rangesByCategory = new Map<ModuleCategory, vscode.Range[]>()
+    for (const [i, s] of specifiers.entries()) {
+      const ranges = rangesByCategory.get(categories[i]) ?? []
+      ranges.push(new vscode.Range(s.startLine, s.startColumn, s.endLine, s.endColumn))
+      rangesByCategory.set(categories[i], ranges)
+    }
+
+    for (const category of Object.values(ModuleCategory)) {
+      const ranges = rangesByCategory.get(category)
+      if (ranges) {
+        editor.setDecorations(this.getSpecifierDecorationType(category), ranges)
+      }
+    }
   }
 
   private applyDecorationsToEditor(
     editor: vscode.TextEditor,
-    occurrences: Map<string, SymbolOccurrence>,
-    symbolKinds: Map<string, SymbolKind>,
+    usages: Map<string, vscode.Range[]>,
+    resolvedSymbols: Map<string, ResolvedSymbol>,
   ) {
-    const rangesByColor = new Map<string, vscode.Range[]>()
-
-    for (const [symbol, { range }] of occurrences) {
-      const kind = symbolKinds.get(symbol)
-      const color = kind ? this.colors[kind] : undefined
-      if (!color) {
+    const rangesByStyle = new Map<string, { options: vscode.DecorationRenderOptions; ranges: vscode.Range[] }>()
+    const { kinds } = this.configuration.current
+    const language = editor.document.languageId
+
+    for (const [symbol, symbolRanges] of usages) {
+      const resolved = resolvedSymbols.get(symbol)
+      const options = resolved && kinds[resolved.kind] ? this.getRenderOptions(resolved, language) : undefined
+      if (!options) {
         continue
       }
 
-      const ranges = rangesByColor.get(color) ?? []
-      ranges.push(range)
-      rangesByColor.set(color, ranges)
+      // Decoration types are shared by every kind that renders the same way
+      const key = JSON.stringify(options)
+      const entry = rangesByStyle.get(key) ?? { options, ranges: [] }
+      entry.ranges.push(...symbolRanges)
+      rangesByStyle.set(key, entry)
     }
 
-    // Clear decorations for colors no longer in use, then apply current
-    for (const [color, type] of this.decorationTypes) {
-      if (!rangesByColor.has(color)) {
+    // Clear decorations for styles no longer in use, then apply current
+    for (const [key, type] of this.decorationTypes) {
+      if (!rangesByStyle.has(key)) {
         editor.setDecorations(type, [])
       }
     }
 
-    for (const [color, ranges] of rangesByColor) {
-      editor.setDecorations(this.getDecorationType(color), ranges)
+    for (const { options, ranges } of rangesByStyle.values()) {
+      editor.setDecorations(this.getDecorationType(options), ranges)
     }
   }
 
-  private getDecorationType(color: string) {
-    let type = this.decorationTypes.get(color)
+  /**
+   * Theme style of the symbol as a token with its modifiers in the document's language, with the user's style for its
+   * kind on top, or nothing when neither sets anything
+   */
+  private getRenderOptions({ kind, modifiers }: ResolvedSymbol, language: string) {
+    const options = toDecorationRenderOptions({
+      ...this.themeStyles(modifiers, language)[kind],
+      ...this.configuration.current.styles[kind],
+    })
+    return Object.keys(options).length > 0 ? options : undefined
+  }
+
+  private getSpecifierDecorationType(category: ModuleCategory) {
+    let type = this.specifierDecorationTypes.get(category)
+    if (!type) {
+      type = vscode.window.createTextEditorDecorationType({
+        color: new vscode.ThemeColor(`semanticImports.moduleSpecifier.${category}`),
+      })
+      this.specifierDecorationTypes.set(category, type)
+    }
+    return type
+  }
+
+  private getDecorationType(options: vscode.DecorationRenderOptions) {
+    const key = JSON.stringify(options)
+    let type = this.decorationTypes.get(key)
     if (!type) {
-      type = vscode.window.createTextEditorDecorationType({ color })
-      this.decorationTypes.set(color, type)
+      type = vscode.window.createTextEditorDecorationType(options)
+      this.decorationTypes.set(key, type)
     }
     return type
   }
@@ -1,9 +1,9 @@
 import type * as vscode from 'vscode'
-import type { SymbolKind } from '@/symbol'
+import type { ResolvedSymbol } from '@/symbol'
 
 export interface DocumentCache {
   importSectionText: string
-  symbolKinds: Map<string, SymbolKind>
+  resolvedSymbols: Map<string, ResolvedSymbol>
 }
 
 export interface SymbolOccurrence {
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { toDecorationRenderOptions } from './toDecorationRenderOptions'
+
+describe('toDecorationRenderOptions', () => {
+  it('should only set the color for a color-only style', () => {
+    expect(toDecorationRenderOptions({ color: '#FF0000' })).toEqual({ color: '#FF0000' })
+  })
+
+  it('should return empty options for an empty style', () => {
+    expect(toDecorationRenderOptions({ color: undefined })).toEqual({})
+  })
+
+  it('should clear every font style for an empty font style', () => {
+    expect(toDecorationRenderOptions({ fontStyle: '' })).toEqual({
+      fontStyle: 'normal',
+      fontWeight: 'normal',
+      textDecoration: 'none',
+    })
+  })
+
+  it('should turn off the font styles a font style does not set', () => {
+    expect(toDecorationRenderOptions({ fontStyle: 'bold' })).toEqual({
+      fontStyle: 'normal',
+      fontWeight: 'bold',
+      textDecoration: 'none',
+    })
+  })
+
+  it('should translate TextMate font styles', () => {
+    expect(toDecorationRenderOptions({ fontStyle: 'italic bold underline strikethrough' })).toEqual({
+      fontStyle: 'italic',
+      fontWeight: 'bold',
+      textDecoration: 'underline line-through',
+    })
+  })
+
+  it('should pass through opacity, background and border', () => {
+    expect(toDecorationRenderOptions({ opacity: 0.5, backgroundColor: '#00000020', border: '1px solid red' })).toEqual({
+      opacity: '0.5',
+      backgroundColor: '#00000020',
+      border: '1px solid red',
+    })
+  })
+})
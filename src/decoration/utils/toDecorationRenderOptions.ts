@@ -0,0 +1,33 @@
+import type * as vscode from 'vscode'
+import type { SymbolStyle } from '@/theme'
+
+/** Translates a symbol style into decoration options, leaving out everything the style does not set */
+export function toDecorationRenderOptions(style: SymbolStyle): vscode.DecorationRenderOptions {
+  const options: vscode.DecorationRenderOptions = {}
+  if (style.color) {
+    options.color = style.color
+  }
+
+  // A font style replaces the grammar's entirely, so whatever it does not turn on is turned off
+  if (style.fontStyle !== undefined) {
+    const fontStyles = new Set(style.fontStyle.split(/\s+/))
+    options.fontStyle = fontStyles.has('italic') ? 'italic' : 'normal'
+    options.fontWeight = fontStyles.has('bold') ? 'bold' : 'normal'
+    const textDecorations = [
+      fontStyles.has('underline') && 'underline',
+      fontStyles.has('strikethrough') && 'line-through',
+    ].filter(Boolean)
+    options.textDecoration = textDecorations.length > 0 ? textDecorations.join(' ') : 'none'
+  }
+
+  if (style.opacity !== undefined) {
+    options.opacity = String(style.opacity)
+  }
+  if (style.backgroundColor) {
+    options.backgroundColor = style.backgroundColor
+  }
+  if (style.border) {
+    options.border = style.border
+  }
+  return options
+}
@@ -1,25 +1,36 @@
 import 'reflect-metadata'
 import { Container } from 'inversify'
+import type * as vscode from 'vscode'
+import { ConfigurationService } from '@/config'
 import { DecorationService } from '@/decoration'
 import { SymbolResolver } from '@/decoration/resolver'
 import type { SymbolResolverFactory } from '@/decoration/service'
-import { TypeScriptParser } from '@/parser'
+import { ModuleSpecifierClassifier } from '@/module'
+import { IncrementalDocumentParser, TypeScriptParser } from '@/parser'
 import { ThemeColorResolver } from '@/theme'
 import { TypeScriptLanguageService, TypeScriptServerProbe } from '@/typescript/language'
 import { TOKENS } from './tokens'
 
-export function createContainer(): Container {
+export function createContainer(context: vscode.ExtensionContext): Container {
   const container = new Container()
 
+  container.bind<vscode.Memento>(TOKENS.GlobalState).toConstantValue(context.globalState)
+  container.bind(ConfigurationService).toSelf().inSingletonScope()
   container.bind(TypeScriptLanguageService).toSelf().inSingletonScope()
   container.bind(TypeScriptParser).toSelf().inSingletonScope()
+  container.bind(IncrementalDocumentParser).toSelf().inSingletonScope()
+  container.bind(ModuleSpecifierClassifier).toSelf().inSingletonScope()
   container.bind(ThemeColorResolver).toSelf().inSingletonScope()
   container.bind(TypeScriptServerProbe).toSelf().inSingletonScope()
   container.bind(DecorationService).toSelf().inSingletonScope()
 
   container
     .bind<SymbolResolverFactory>(TOKENS.SymbolResolverFactory)
-    .toFactory(() => (document, targets, languageService) => new SymbolResolver(document, targets, languageService))
+    .toFactory((context) => (document, targets, languageService) => {
+      // Read per run so that resolver settings apply without a reload
+      const { resolver } = context.get(ConfigurationService).current
+      return new SymbolResolver(document, targets, languageService, resolver)
+    })
 
   return container
 }
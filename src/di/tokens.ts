@@ -1,3 +1,4 @@
 export const TOKENS = {
   SymbolResolverFactory: Symbol.for('SymbolResolverFactory'),
+  GlobalState: Symbol.for('GlobalState'),
 } as const
@@ -1,41 +1,45 @@
 import 'reflect-metadata'
 import * as vscode from 'vscode'
+import { ConfigurationService } from './config'
 import { DecorationService } from './decoration'
 import { createContainer } from './di'
 import { Logger } from './logger'
-import { ThemeColorResolver } from './theme'
-import { debounce } from './utils/debounce'
-
-const SUPPORTED_LANGUAGES = new Set(['typescript', 'typescriptreact'])
-const DEBOUNCE_DELAY_MS = 300
-
-function isSupported(document: vscode.TextDocument) {
-  return document.uri.scheme === 'file' && SUPPORTED_LANGUAGES.has(document.languageId)
-}
+import { ModuleSpecifierClassifier } from './module'
+import { formatStyleMapping, ThemeColorResolver } from './theme'
+import { type DebouncedFunction, debounce } from './utils/debounce'
 
 class Extension implements vscode.Disposable {
+  private readonly logger = Logger.create(Extension)
   private readonly service: DecorationService
   private readonly themeResolver: ThemeColorResolver
-  private readonly debouncedTriggerDecoration = debounce((editor: vscode.TextEditor) => {
-    if (!editor.document.isClosed) {
-      this.triggerDecoration(editor)
-    }
-  }, DEBOUNCE_DELAY_MS)
+  private readonly moduleClassifier: ModuleSpecifierClassifier
+  private readonly configuration: ConfigurationService
+  private debouncedTriggerDecoration: DebouncedFunction<(editor: vscode.TextEditor) => void>
 
-  constructor() {
-    const container = createContainer()
+  constructor(context: vscode.ExtensionContext) {
+    const container = createContainer(context)
     this.service = container.get(DecorationService)
     this.themeResolver = container.get(ThemeColorResolver)
+    this.moduleClassifier = container.get(ModuleSpecifierClassifier)
+    this.configuration = container.get(ConfigurationService)
+    this.debouncedTriggerDecoration = this.createDebouncedTrigger()
   }
 
   activate(context: vscode.ExtensionContext) {
-    this.refreshColors()
+    this.refreshStyles()
 
     context.subscriptions.push(
       this,
       this.service,
-      vscode.window.onDidChangeActiveColorTheme(() => this.refreshColors()),
-      vscode.extensions.onDidChange(() => this.refreshColors()),
+      this.configuration,
+      this.configuration.onDidChange(this.onDidChangeSettings),
+      this.themeResolver,
+      this.themeResolver.onDidChange(() => this.refreshStyles()),
+      this.moduleClassifier,
+      this.moduleClassifier.onDidChange(() => this.triggerAllVisible()),
+      vscode.commands.registerCommand('semanticImports.showColorMapping', this.showColorMapping),
+      vscode.window.onDidChangeActiveColorTheme(() => this.refreshStyles()),
+      vscode.extensions.onDidChange(() => this.refreshStyles()),
       vscode.workspace.onDidChangeConfiguration(this.onDidChangeConfiguration),
       vscode.window.onDidChangeActiveTextEditor(this.onDidChangeActiveTextEditor),
       vscode.workspace.onDidChangeTextDocument(this.onDidChangeTextDocument),
@@ -52,27 +56,75 @@ class Extension implements vscode.Disposable {
       e.affectsConfiguration('editor.semanticTokenColorCustomizations') ||
       e.affectsConfiguration('editor.tokenColorCustomizations')
     ) {
-      this.refreshColors()
+      this.refreshStyles()
     }
   }
 
+  private onDidChangeSettings = () => {
+    this.debouncedTriggerDecoration.cancel()
+    this.debouncedTriggerDecoration = this.createDebouncedTrigger()
+    // Kind fallbacks are applied when styles load, which also redecorates every visible editor
+    this.refreshStyles()
+  }
+
+  private showColorMapping = async () => {
+    const mapping = this.themeResolver.styleMapping
+    if (!mapping) {
+      vscode.window.showInformationMessage('Semantic Imports: theme styles are still loading')
+      return
+    }
+    const content = formatStyleMapping(mapping, this.configuration.current.styles)
+    const document = await vscode.workspace.openTextDocument({ language: 'markdown', content })
+    await vscode.window.showTextDocument(document)
+  }
+
   private onDidChangeActiveTextEditor = (editor: vscode.TextEditor | undefined) => {
-    if (editor && isSupported(editor.document)) {
+    if (editor && this.isSupported(editor.document)) {
       this.triggerDecoration(editor)
     }
   }
 
   private onDidChangeTextDocument = (e: vscode.TextDocumentChangeEvent) => {
+    if (!this.isSupported(e.document)) {
+      // The edit may have grown the document past the size limit
+      for (const editor of vscode.window.visibleTextEditors) {
+        if (editor.document === e.document) {
+          this.service.removeDecorations(editor)
+        }
+      }
+      return
+    }
+
+    this.service.recordDocumentChanges(e.document, e.contentChanges)
     const editor = vscode.window.activeTextEditor
-    if (editor && editor.document === e.document && isSupported(e.document)) {
+    if (editor && editor.document === e.document) {
       this.debouncedTriggerDecoration(editor)
     }
   }
 
   private onDidCloseTextDocument = (document: vscode.TextDocument) => {
-    if (isSupported(document)) {
-      this.service.clearDocumentCache(document.uri.toString())
+    this.service.clearDocumentCache(document.uri.toString())
+  }
+
+  private isSupported(document: vscode.TextDocument) {
+    const { enabled, languages, exclude, maxFileSize } = this.configuration.current
+    if (!enabled || document.uri.scheme !== 'file' || !languages.includes(document.languageId)) {
+      return false
     }
+    if (exclude.some((pattern) => vscode.languages.match({ pattern }, document) > 0)) {
+      return false
+    }
+
+    // Offsets past the end are clamped, which yields the document length without copying its text
+    return maxFileSize === 0 || document.offsetAt(new vscode.Position(document.lineCount, 0)) <= maxFileSize
+  }
+
+  private createDebouncedTrigger() {
+    return debounce((editor: vscode.TextEditor) => {
+      if (!editor.document.isClosed && this.isSupported(editor.document)) {
+        this.triggerDecoration(editor)
+      }
+    }, this.configuration.current.debounceDelay)
   }
 
   private triggerDecoration(editor: vscode.TextEditor) {
@@ -83,21 +135,30 @@ class Extension implements vscode.Disposable {
 
   private triggerAllVisible() {
     for (const editor of vscode.window.visibleTextEditors) {
-      if (isSupported(editor.document)) {
+      if (this.isSupported(editor.document)) {
         this.triggerDecoration(editor)
+      } else {
+        // The document may have just been excluded or disabled through settings
+        this.service.removeDecorations(editor)
       }
     }
   }
 
-  private async refreshColors() {
-    const colors = await this.themeResolver.loadColors()
-    this.service.setColors(colors)
+  private refreshStyles() {
+    this.loadStyles().catch((e) => {
+      this.logger.error('failed to load theme styles:', e)
+    })
+  }
+
+  private async loadStyles() {
+    const styles = await this.themeResolver.loadStyles()
+    this.service.setThemeStyles(styles)
     this.triggerAllVisible()
   }
 }
 
 export function activate(context: vscode.ExtensionContext) {
-  const extension = new Extension()
+  const extension = new Extension(context)
   extension.activate(context)
 }
 
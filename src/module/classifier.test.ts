@@ -0,0 +1,147 @@
+import * as fs from 'fs/promises'
+import ts from 'typescript'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import * as vscode from 'vscode'
+import { loadTypeScript } from '@/symbol/utils/loadTypeScript'
+import { ModuleSpecifierClassifier } from './classifier'
+import { ModuleCategory } from './types'
+import { findConfigFile } from './utils/findConfigFile'
+
+vi.mock('@/symbol/utils/loadTypeScript', () => ({
+  loadTypeScript: vi.fn(() => require('typescript')),
+}))
+
+vi.mock('fs/promises', () => ({ readFile: vi.fn(async () => '{}') }))
+
+vi.mock('./utils/findConfigFile', () => ({ findConfigFile: vi.fn() }))
+
+type ResolvedModule = import('typescript').ResolvedModuleFull
+
+function mockTypeScript(
+  resolved: Partial<ResolvedModule> | undefined,
+  options: import('typescript').CompilerOptions = {},
+) {
+  const resolveModuleName = vi.fn(() => ({ resolvedModule: resolved as ResolvedModule | undefined }))
+  vi.mocked(findConfigFile).mockResolvedValue(Object.keys(options).length > 0 ? '/project/tsconfig.json' : undefined)
+  vi.mocked(loadTypeScript).mockReturnValue({
+    ...ts,
+    resolveModuleName,
+    parseJsonConfigFileContent: vi.fn(() => ({ options, fileNames: [], errors: [] })),
+  } as unknown as typeof ts)
+  return resolveModuleName
+}
+
+describe('ModuleSpecifierClassifier', () => {
+  let classifier: ModuleSpecifierClassifier
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    classifier = new ModuleSpecifierClassifier()
+  })
+
+  it('should classify side-effect imports before anything else', async () => {
+    const resolve = mockTypeScript(undefined)
+    expect(await classifier.classify('fs', '/project/src/a.ts', true)).toBe(ModuleCategory.SideEffect)
+    expect(resolve).not.toHaveBeenCalled()
+  })
+
+  it('should classify builtin and relative specifiers without resolving', async () => {
+    const resolve = mockTypeScript(undefined)
+    expect(await classifier.classify('node:fs', '/project/src/a.ts', false)).toBe(ModuleCategory.Builtin)
+    expect(await classifier.classify('./b', '/project/src/a.ts', false)).toBe(ModuleCategory.Relative)
+    expect(await classifier.classify('../b', '/project/src/a.ts', false)).toBe(ModuleCategory.Relative)
+    expect(resolve).not.toHaveBeenCalled()
+  })
+
+  it('should classify modules resolved from node_modules as external', async () => {
+    mockTypeScript({ resolvedFileName: '/project/node_modules/react/index.d.ts', isExternalLibraryImport: true })
+    expect(await classifier.classify('react', '/project/src/a.ts', false)).toBe(ModuleCategory.External)
+  })
+
+  it('should classify packages symlinked from outside node_modules as workspace', async () => {
+    mockTypeScript({
+      resolvedFileName: '/project/packages/ui/src/index.ts',
+      originalPath: '/project/node_modules/@acme/ui/src/index.ts',
+      isExternalLibraryImport: true,
+      packageId: { name: '@acme/ui', subModuleName: 'src/index.ts', version: '1.0.0' },
+    })
+    expect(await classifier.classify('@acme/ui', '/project/src/a.ts', false)).toBe(ModuleCategory.Workspace)
+  })
+
+  it('should classify symlinked packages without a version as workspace', async () => {
+    mockTypeScript({
+      resolvedFileName: '/project/packages/ui/index.ts',
+      originalPath: '/project/node_modules/@acme/ui/index.ts',
+      isExternalLibraryImport: true,
+    })
+    expect(await classifier.classify('@acme/ui', '/project/src/a.ts', false)).toBe(ModuleCategory.Workspace)
+  })
+
+  it('should classify modules resolved through paths as alias', async () => {
+    mockTypeScript({ resolvedFileName: '/project/src/utils/index.ts', isExternalLibraryImport: false })
+    expect(await classifier.classify('~/utils', '/project/src/a.ts', false)).toBe(ModuleCategory.Alias)
+  })
+
+  it('should fall back to the paths config for unresolved specifiers', async () => {
+    mockTypeScript(undefined, { paths: { '~/*': ['./src/*'] } })
+    expect(await classifier.classify('~/missing', '/project/src/a.ts', false)).toBe(ModuleCategory.Alias)
+    expect(await classifier.classify('missing-package', '/project/src/a.ts', false)).toBe(ModuleCategory.External)
+  })
+
+  it('should resolve a specifier once per directory', async () => {
+    const resolve = mockTypeScript({ resolvedFileName: '/project/node_modules/lib/index.d.ts' })
+    await classifier.classify('lib', '/project/src/a.ts', false)
+    await classifier.classify('lib', '/project/src/b.ts', false)
+    await classifier.classify('lib', '/project/test/a.ts', false)
+    expect(resolve).toHaveBeenCalledTimes(2)
+  })
+
+  it('should clear the cache when a file affecting resolution changes', async () => {
+    vi.useFakeTimers()
+    try {
+      const resolve = mockTypeScript({ resolvedFileName: '/project/node_modules/lib/index.d.ts' })
+      const watcher = vi.mocked(vscode.workspace.createFileSystemWatcher).mock.results[0]
+        .value as vscode.FileSystemWatcher
+      const listener = vi.fn()
+      classifier.onDidChange(listener)
+      await classifier.classify('lib', '/project/src/a.ts', false)
+
+      vi.mocked(watcher.onDidChange).mock.calls[0][0](vscode.Uri.file('/project/pnpm-lock.yaml'))
+      vi.mocked(watcher.onDidCreate).mock.calls[0][0](vscode.Uri.file('/project/node_modules/lib/package.json'))
+      await vi.runAllTimersAsync()
+      expect(listener).toHaveBeenCalledTimes(1)
+
+      await classifier.classify('lib', '/project/src/a.ts', false)
+      expect(resolve).toHaveBeenCalledTimes(2)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should cache results until the cache is cleared', async () => {
+    const resolve = mockTypeScript({ resolvedFileName: '/project/node_modules/lib/index.d.ts' })
+    await classifier.classify('lib', '/project/src/a.ts', false)
+    await classifier.classify('lib', '/project/src/a.ts', false)
+    expect(resolve).toHaveBeenCalledTimes(1)
+
+    classifier.clearCache()
+    await classifier.classify('lib', '/project/src/a.ts', false)
+    expect(resolve).toHaveBeenCalledTimes(2)
+  })
+
+  it('should look up and read the config once per directory', async () => {
+    mockTypeScript({ resolvedFileName: '/project/node_modules/lib/index.d.ts' }, { baseUrl: '/project' })
+    await Promise.all([
+      classifier.classify('lib', '/project/src/a.ts', false),
+      classifier.classify('other', '/project/src/a.ts', false),
+      classifier.classify('lib', '/project/src/b.ts', false),
+    ])
+    expect(findConfigFile).toHaveBeenCalledTimes(1)
+    expect(fs.readFile).toHaveBeenCalledTimes(1)
+  })
+
+  it('should treat bare specifiers as external when TypeScript is unavailable', async () => {
+    vi.mocked(loadTypeScript).mockReturnValue(undefined as never)
+    expect(await classifier.classify('lib', '/project/src/a.ts', false)).toBe(ModuleCategory.External)
+  })
+})
@@ -0,0 +1,154 @@
+import { injectable } from 'inversify'
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { Logger } from '@/logger'
+import { loadTypeScript } from '@/symbol/utils/loadTypeScript'
+import { debounce } from '@/utils/debounce'
+import { ModuleCategory } from './types'
+import { findConfigFile } from './utils/findConfigFile'
+import { isBuiltinModule } from './utils/isBuiltinModule'
+import { matchesPathAlias } from './utils/matchesPathAlias'
+import { createFileSystemCache, runOnCachedFileSystem } from './utils/runOnCachedFileSystem'
+
+type TypeScript = typeof import('typescript')
+type CompilerOptions = import('typescript').CompilerOptions
+
+const CONFIG_FILE_NAMES = ['tsconfig.json', 'jsconfig.json']
+
+/** Files whose changes may make specifiers resolve elsewhere: configs, manifests, and lockfiles rewritten by installs */
+const RESOLUTION_FILES_GLOB =
+  '**/{tsconfig*.json,jsconfig*.json,package.json,package-lock.json,pnpm-lock.yaml,yarn.lock,bun.lock,bun.lockb}'
+
+/** Installs write many files at once */
+const RESOLUTION_FILE_CHANGE_DELAY = 500
+
+/**
+ * Classifies module specifiers by where they resolve to. Bare specifiers are resolved once per directory, and the
+ * compiler options are read once per directory, without blocking on the file system, so classification never blocks
+ * the decoration pass. Everything is forgotten when a config, manifest or lockfile changes.
+ */
+@injectable()
+export class ModuleSpecifierClassifier implements vscode.Disposable {
+  private readonly logger = Logger.create(ModuleSpecifierClassifier)
+  private readonly categories = new Map<string, Promise<ModuleCategory>>()
+  private readonly configPaths = new Map<string, Promise<string | undefined>>()
+  private readonly compilerOptions = new Map<string, Promise<CompilerOptions>>()
+  private fileSystem = createFileSystemCache()
+  private readonly _onDidChange = new vscode.EventEmitter<void>()
+  private readonly fireDidChange = debounce(() => {
+    this.clearCache()
+    this._onDidChange.fire()
+  }, RESOLUTION_FILE_CHANGE_DELAY)
+  private readonly watcher = vscode.workspace.createFileSystemWatcher(RESOLUTION_FILES_GLOB)
+  /** Fires once the caches were cleared because a file affecting resolution changed */
+  readonly onDidChange = this._onDidChange.event
+
+  constructor() {
+    this.watcher.onDidChange(() => this.fireDidChange())
+    this.watcher.onDidCreate(() => this.fireDidChange())
+    this.watcher.onDidDelete(() => this.fireDidChange())
+  }
+
+  dispose() {
+    this.fireDidChange.cancel()
+    this.watcher.dispose()
+    this._onDidChange.dispose()
+  }
+
+  async classify(specifier: string, containingFile: string, isSideEffect: boolean) {
+    if (isSideEffect) {
+      return ModuleCategory.SideEffect
+    }
+    if (isBuiltinModule(specifier)) {
+      return ModuleCategory.Builtin
+    }
+    if (specifier.startsWith('.') || specifier.startsWith('/')) {
+      return ModuleCategory.Relative
+    }
+
+    // Bare specifiers resolve the same from every file of a directory
+    const key = `${path.dirname(containingFile)}\0${specifier}`
+    let category = this.categories.get(key)
+    if (!category) {
+      category = this.resolve(specifier, containingFile)
+      this.categories.set(key, category)
+    }
+    return category
+  }
+
+  clearCache() {
+    this.categories.clear()
+    this.configPaths.clear()
+    this.compilerOptions.clear()
+    this.fileSystem = createFileSystemCache()
+  }
+
+  private async resolve(specifier: string, containingFile: string) {
+    const ts = loadTypeScript()
+    if (!ts) {
+      return ModuleCategory.External
+    }
+
+    const options = await this.getCompilerOptions(ts, path.dirname(containingFile))
+    const resolved = await runOnCachedFileSystem(
+      this.fileSystem,
+      (host) => ts.resolveModuleName(specifier, containingFile, options, host).resolvedModule,
+    )
+    if (!resolved) {
+      // Unresolved aliases still match their `paths` pattern; anything else is assumed to be a missing package
+      return options.paths && matchesPathAlias(specifier, options.paths)
+        ? ModuleCategory.Alias
+        : ModuleCategory.External
+    }
+
+    if (/[\\/]node_modules[\\/]/.test(resolved.resolvedFileName)) {
+      return ModuleCategory.External
+    }
+
+    // Workspace packages are found through node_modules like any other, but are symlinks whose real path lies outside
+    // it. TypeScript reports them as external libraries, with a package id when their manifest has a version
+    return resolved.packageId || resolved.isExternalLibraryImport ? ModuleCategory.Workspace : ModuleCategory.Alias
+  }
+
+  private async getCompilerOptions(ts: TypeScript, directory: string) {
+    let configPath = this.configPaths.get(directory)
+    if (!configPath) {
+      configPath = findConfigFile(directory, CONFIG_FILE_NAMES)
+      this.configPaths.set(directory, configPath)
+    }
+
+    const cacheKey = (await configPath) ?? ''
+    let options = this.compilerOptions.get(cacheKey)
+    if (!options) {
+      options = this.readCompilerOptions(ts, cacheKey || undefined)
+      this.compilerOptions.set(cacheKey, options)
+    }
+    return options
+  }
+
+  private async readCompilerOptions(ts: TypeScript, configPath: string | undefined): Promise<CompilerOptions> {
+    const defaults: CompilerOptions = { allowJs: true, moduleResolution: ts.ModuleResolutionKind.Bundler }
+    if (!configPath) {
+      return defaults
+    }
+
+    try {
+      const { error, options } = await runOnCachedFileSystem(this.fileSystem, (host) => {
+        const { config, error } = ts.readConfigFile(configPath, host.readFile)
+        if (error) {
+          return { error }
+        }
+        const parseHost = { ...host, useCaseSensitiveFileNames: ts.sys.useCaseSensitiveFileNames }
+        return { options: ts.parseJsonConfigFileContent(config, parseHost, path.dirname(configPath)).options }
+      })
+      if (error) {
+        this.logger.warn(`failed to read '${configPath}':`, ts.flattenDiagnosticMessageText(error.messageText, '\n'))
+        return defaults
+      }
+      return { allowJs: true, ...options }
+    } catch (e) {
+      this.logger.warn(`failed to read '${configPath}':`, e)
+      return defaults
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export { ModuleSpecifierClassifier } from './classifier'
+export { ModuleCategory } from './types'
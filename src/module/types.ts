@@ -0,0 +1,8 @@
+export enum ModuleCategory {
+  Builtin = 'builtin',
+  External = 'external',
+  Workspace = 'workspace',
+  Alias = 'alias',
+  Relative = 'relative',
+  SideEffect = 'sideEffect',
+}
@@ -0,0 +1,37 @@
+import * as fs from 'fs/promises'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { findConfigFile } from './findConfigFile'
+
+vi.mock('fs/promises', () => ({ stat: vi.fn() }))
+
+function mockFiles(files: string[]) {
+  vi.mocked(fs.stat).mockImplementation(async (filePath) => {
+    if (!files.includes(String(filePath))) {
+      throw new Error('ENOENT')
+    }
+    return { isFile: () => true } as Awaited<ReturnType<typeof fs.stat>>
+  })
+}
+
+describe('findConfigFile', () => {
+  beforeEach(() => {
+    vi.mocked(fs.stat).mockReset()
+  })
+
+  it('should find the nearest config file in an ancestor directory', async () => {
+    mockFiles(['/project/tsconfig.json', '/project/packages/app/tsconfig.json'])
+    expect(await findConfigFile('/project/packages/app/src', ['tsconfig.json'])).toBe(
+      '/project/packages/app/tsconfig.json',
+    )
+  })
+
+  it('should try each name across all ancestors before the next', async () => {
+    mockFiles(['/project/tsconfig.json', '/project/src/jsconfig.json'])
+    expect(await findConfigFile('/project/src', ['tsconfig.json', 'jsconfig.json'])).toBe('/project/tsconfig.json')
+  })
+
+  it('should return undefined when no config file exists', async () => {
+    mockFiles([])
+    expect(await findConfigFile('/project/src', ['tsconfig.json'])).toBeUndefined()
+  })
+})
@@ -0,0 +1,29 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+
+/**
+ * Finds the nearest config file with one of the given names in the directory or its ancestors, trying each name
+ * across the whole ancestry before the next, like `ts.findConfigFile` does for a single name.
+ */
+export async function findConfigFile(directory: string, fileNames: readonly string[]) {
+  for (const fileName of fileNames) {
+    for (let current = directory; ; current = path.dirname(current)) {
+      const candidate = path.join(current, fileName)
+      if (await isFile(candidate)) {
+        return candidate
+      }
+      if (path.dirname(current) === current) {
+        break
+      }
+    }
+  }
+  return undefined
+}
+
+async function isFile(filePath: string) {
+  try {
+    return (await fs.stat(filePath)).isFile()
+  } catch {
+    return false
+  }
+}
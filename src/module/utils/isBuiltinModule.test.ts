@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest'
+import { isBuiltinModule } from './isBuiltinModule'
+
+describe('isBuiltinModule', () => {
+  it.each(['fs', 'path', 'fs/promises', 'node:path', 'node:test'])('should return true for %s', (specifier) => {
+    expect(isBuiltinModule(specifier)).toBe(true)
+  })
+
+  it.each(['react', 'fs-extra', './fs', '@types/node', 'path/to/file'])('should return false for %s', (specifier) => {
+    expect(isBuiltinModule(specifier)).toBe(false)
+  })
+})
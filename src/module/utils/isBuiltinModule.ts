@@ -0,0 +1,12 @@
+import { builtinModules } from 'module'
+
+const BUILTIN_MODULES = new Set(builtinModules)
+
+export function isBuiltinModule(specifier: string) {
+  if (specifier.startsWith('node:')) {
+    return true
+  }
+
+  // Subpaths such as `fs/promises` are listed individually
+  return BUILTIN_MODULES.has(specifier)
+}
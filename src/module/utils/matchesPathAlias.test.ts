@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest'
+import { matchesPathAlias } from './matchesPathAlias'
+
+describe('matchesPathAlias', () => {
+  const paths = { '~/*': ['./src/*'], '@app/config': ['./config.ts'], 'lib-*-utils': ['./libs/*'] }
+
+  it.each(['~/foo', '~/foo/bar', '@app/config', 'lib-date-utils'])('should match %s', (specifier) => {
+    expect(matchesPathAlias(specifier, paths)).toBe(true)
+  })
+
+  it.each(['react', '@app/config/extra', '~', 'lib-utils'])('should not match %s', (specifier) => {
+    expect(matchesPathAlias(specifier, paths)).toBe(false)
+  })
+
+  it('should not match anything when no paths are configured', () => {
+    expect(matchesPathAlias('~/foo', {})).toBe(false)
+  })
+})
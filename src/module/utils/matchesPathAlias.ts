@@ -0,0 +1,24 @@
+/** Whether a specifier matches one of the tsconfig `paths` patterns (e.g. `~/*`, `@app/config`) */
+export function matchesPathAlias(specifier: string, paths: Record<string, unknown>) {
+  for (const pattern of Object.keys(paths)) {
+    const wildcard = pattern.indexOf('*')
+    if (wildcard === -1) {
+      if (pattern === specifier) {
+        return true
+      }
+      continue
+    }
+
+    const prefix = pattern.slice(0, wildcard)
+    const suffix = pattern.slice(wildcard + 1)
+    if (
+      specifier.length >= prefix.length + suffix.length &&
+      specifier.startsWith(prefix) &&
+      specifier.endsWith(suffix)
+    ) {
+      return true
+    }
+  }
+
+  return false
+}
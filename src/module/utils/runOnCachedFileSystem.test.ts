@@ -0,0 +1,91 @@
+import * as fs from 'fs/promises'
+import ts from 'typescript'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createFileSystemCache, runOnCachedFileSystem } from './runOnCachedFileSystem'
+
+vi.mock('fs/promises', () => ({ stat: vi.fn(), readFile: vi.fn(), realpath: vi.fn() }))
+
+/** A pnpm workspace where `@acme/lib` is linked into the app's node_modules */
+const FILES: Record<string, string> = {
+  '/repo/packages/app/src/index.ts': '',
+  '/repo/packages/lib/package.json': JSON.stringify({ name: '@acme/lib', version: '1.0.0', types: './index.d.ts' }),
+  '/repo/packages/lib/index.d.ts': '',
+}
+const SYMLINKS: Record<string, string> = {
+  '/repo/packages/app/node_modules/@acme/lib': '/repo/packages/lib',
+}
+
+function toRealPath(filePath: string) {
+  for (const [link, target] of Object.entries(SYMLINKS)) {
+    if (filePath === link || filePath.startsWith(`${link}/`)) {
+      return target + filePath.slice(link.length)
+    }
+  }
+  return filePath
+}
+
+function mockFileSystem() {
+  vi.mocked(fs.stat).mockImplementation(async (filePath) => {
+    const real = toRealPath(String(filePath))
+    if (real in FILES) {
+      return { isFile: () => true, isDirectory: () => false } as Awaited<ReturnType<typeof fs.stat>>
+    }
+    if ([...Object.keys(FILES), ...Object.keys(SYMLINKS)].some((file) => file.startsWith(`${real}/`))) {
+      return { isFile: () => false, isDirectory: () => true } as Awaited<ReturnType<typeof fs.stat>>
+    }
+    throw new Error('ENOENT')
+  })
+  vi.mocked(fs.readFile).mockImplementation((async (filePath: string) => {
+    const contents = FILES[toRealPath(filePath)]
+    if (contents === undefined) {
+      throw new Error('ENOENT')
+    }
+    return contents
+  }) as typeof fs.readFile)
+  vi.mocked(fs.realpath).mockImplementation((async (filePath: string) => toRealPath(filePath)) as typeof fs.realpath)
+}
+
+describe('runOnCachedFileSystem', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockFileSystem()
+  })
+
+  it('should resolve modules the way TypeScript does on the real file system', async () => {
+    const options = { moduleResolution: ts.ModuleResolutionKind.Bundler }
+    const resolved = await runOnCachedFileSystem(
+      createFileSystemCache(),
+      (host) => ts.resolveModuleName('@acme/lib', '/repo/packages/app/src/index.ts', options, host).resolvedModule,
+    )
+
+    expect(resolved).toMatchObject({
+      resolvedFileName: '/repo/packages/lib/index.d.ts',
+      originalPath: '/repo/packages/app/node_modules/@acme/lib/index.d.ts',
+      isExternalLibraryImport: true,
+      packageId: { name: '@acme/lib', version: '1.0.0' },
+    })
+  })
+
+  it('should not read the file system again for paths already seen', async () => {
+    const cache = createFileSystemCache()
+    const options = { moduleResolution: ts.ModuleResolutionKind.Node10 }
+    const resolve = (host: Parameters<Parameters<typeof runOnCachedFileSystem>[1]>[0]) =>
+      ts.resolveModuleName('@acme/lib', '/repo/packages/app/src/index.ts', options, host).resolvedModule
+    const first = await runOnCachedFileSystem(cache, resolve)
+    expect(first?.resolvedFileName).toBe('/repo/packages/lib/index.d.ts')
+    vi.clearAllMocks()
+
+    expect(await runOnCachedFileSystem(cache, resolve)).toEqual(first)
+    expect(fs.stat).not.toHaveBeenCalled()
+    expect(fs.readFile).not.toHaveBeenCalled()
+    expect(fs.realpath).not.toHaveBeenCalled()
+  })
+
+  it('should treat paths that cannot be read as missing', async () => {
+    const result = await runOnCachedFileSystem(createFileSystemCache(), (host) => ({
+      exists: host.fileExists('/repo/missing.ts'),
+      contents: host.readFile('/repo/missing.ts'),
+    }))
+    expect(result).toEqual({ exists: false, contents: undefined })
+  })
+})
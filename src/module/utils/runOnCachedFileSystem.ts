@@ -0,0 +1,81 @@
+import * as fs from 'fs/promises'
+
+/** What has been read from the file system, shared between runs until the files may have changed */
+export interface FileSystemCache {
+  /** Whether each path is a file or a directory, `undefined` when it does not exist */
+  kinds: Map<string, 'file' | 'directory' | undefined>
+  /** Text of each file, `undefined` when it cannot be read */
+  contents: Map<string, string | undefined>
+  realpaths: Map<string, string>
+}
+
+/** The synchronous file system TypeScript's module resolution and config parsing read through */
+export interface CachedFileSystemHost {
+  fileExists(path: string): boolean
+  directoryExists(path: string): boolean
+  readFile(path: string): string | undefined
+  realpath(path: string): string
+  /** Directories are never listed; only the compiler options of configs are read */
+  readDirectory(): string[]
+}
+
+export function createFileSystemCache(): FileSystemCache {
+  return { kinds: new Map(), contents: new Map(), realpaths: new Map() }
+}
+
+/**
+ * Runs a synchronous TypeScript API without blocking on the file system. Each run reads only from the cache, treating
+ * paths it has not seen as missing while noting them; those are then read asynchronously and the run repeats, until it
+ * no longer asks about unseen paths
+ */
+export async function runOnCachedFileSystem<T>(cache: FileSystemCache, run: (host: CachedFileSystemHost) => T) {
+  for (;;) {
+    const unseen = { kinds: new Set<string>(), contents: new Set<string>(), realpaths: new Set<string>() }
+    const kindOf = (filePath: string) => {
+      if (!cache.kinds.has(filePath)) {
+        unseen.kinds.add(filePath)
+      }
+      return cache.kinds.get(filePath)
+    }
+    const result = run({
+      fileExists: (filePath) => kindOf(filePath) === 'file',
+      directoryExists: (filePath) => kindOf(filePath) === 'directory',
+      readFile: (filePath) => {
+        if (!cache.contents.has(filePath)) {
+          unseen.contents.add(filePath)
+        }
+        return cache.contents.get(filePath)
+      },
+      realpath: (filePath) => {
+        const realpath = cache.realpaths.get(filePath)
+        if (realpath === undefined) {
+          unseen.realpaths.add(filePath)
+        }
+        return realpath ?? filePath
+      },
+      readDirectory: () => [],
+    })
+    if (unseen.kinds.size === 0 && unseen.contents.size === 0 && unseen.realpaths.size === 0) {
+      return result
+    }
+
+    await Promise.all([
+      ...[...unseen.kinds].map(async (filePath) => cache.kinds.set(filePath, await readKind(filePath))),
+      ...[...unseen.contents].map(async (filePath) =>
+        cache.contents.set(filePath, await fs.readFile(filePath, 'utf8').catch(() => undefined)),
+      ),
+      ...[...unseen.realpaths].map(async (filePath) =>
+        cache.realpaths.set(filePath, await fs.realpath(filePath).catch(() => filePath)),
+      ),
+    ])
+  }
+}
+
+async function readKind(filePath: string) {
+  try {
+    const stat = await fs.stat(filePath)
+    return stat.isFile() ? 'file' : stat.isDirectory() ? 'directory' : undefined
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,224 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { loadTypeScript } from '@/symbol/utils/loadTypeScript'
+import { IncrementalDocumentParser } from './incremental'
+import type { TextChange } from './types'
+import { TypeScriptParser } from './typescript'
+
+vi.mock('@/symbol/utils/loadTypeScript', () => ({
+  loadTypeScript: vi.fn(() => require('typescript')),
+}))
+
+const URI = 'file:///test.ts'
+
+/** Applies an insertion at the given offset, mirroring how VS Code reports the edit */
+function insert(text: string, offset: number, inserted: string): [string, TextChange] {
+  return [
+    text.slice(0, offset) + inserted + text.slice(offset),
+    { rangeOffset: offset, rangeLength: 0, text: inserted },
+  ]
+}
+
+function usageNames(result: ReturnType<IncrementalDocumentParser['parse']>) {
+  return result.usages.map((u) => [u.localName, u.startLine, u.startColumn])
+}
+
+describe('IncrementalDocumentParser', () => {
+  let parser: TypeScriptParser
+  let documentParser: IncrementalDocumentParser
+  const initial = ["import { foo } from 'foo'", "import bar from 'bar'", '', 'foo()'].join('\n')
+
+  beforeEach(() => {
+    parser = new TypeScriptParser()
+    documentParser = new IncrementalDocumentParser(parser)
+  })
+
+  it('should produce the same result as a full parse', () => {
+    expect(documentParser.parse(URI, 1, initial)).toEqual(parser.parseDocument(initial))
+  })
+
+  it('should update usages without re-parsing imports for edits below the import section', () => {
+    documentParser.parse(URI, 1, initial)
+    const parseImports = vi.spyOn(parser, 'parseImports')
+
+    const [text, change] = insert(initial, initial.length, '\nbar(foo)')
+    documentParser.recordChanges(URI, 2, [change])
+    const result = documentParser.parse(URI, 2, text)
+
+    expect(parseImports).not.toHaveBeenCalled()
+    expect(result).toEqual(parser.parseDocument(text))
+    expect(usageNames(result)).toEqual([
+      ['foo', 3, 0],
+      ['bar', 4, 0],
+      ['foo', 4, 4],
+    ])
+  })
+
+  it('should re-parse imports for edits inside the import section', () => {
+    documentParser.parse(URI, 1, initial)
+    const parseImports = vi.spyOn(parser, 'parseImports')
+
+    const [text, change] = insert(initial, 13, ', baz')
+    documentParser.recordChanges(URI, 2, [change])
+    const result = documentParser.parse(URI, 2, text)
+
+    expect(parseImports).toHaveBeenCalledOnce()
+    expect(result.statements.map((s) => s.localName)).toEqual(['foo', 'baz', 'bar'])
+    expect(result).toEqual(parser.parseDocument(text))
+  })
+
+  it('should re-parse imports when a require call is typed below the import section', () => {
+    documentParser.parse(URI, 1, initial)
+
+    const [text, change] = insert(initial, initial.length, "\nconst qux = require('qux')")
+    documentParser.recordChanges(URI, 2, [change])
+    const result = documentParser.parse(URI, 2, text)
+
+    expect(result.statements.map((s) => s.localName)).toEqual(['foo', 'bar', 'qux'])
+  })
+
+  it('should only search the top-level statements touched by an edit', () => {
+    const text = [initial, 'function a() { foo() }', 'function b() { bar() }'].join('\n')
+    documentParser.parse(URI, 1, text)
+    const findUsages = vi.spyOn(parser, 'findUsages')
+
+    const [next, change] = insert(text, text.indexOf('foo() }'), 'bar, ')
+    documentParser.recordChanges(URI, 2, [change])
+    const result = documentParser.parse(URI, 2, next)
+
+    // The edited function and the end-of-file token, which follows every edit
+    expect(findUsages).toHaveBeenCalledTimes(2)
+    expect(findUsages.mock.calls[0][0]).toMatchObject({ name: { text: 'a' } })
+    expect(result).toEqual(parser.parseDocument(next))
+  })
+
+  it('should keep the imports for edits beside nested import bindings', () => {
+    const text = [
+      initial,
+      'async function load() {',
+      '  const {',
+      '    Chart,',
+      "  } = await import('chart.js')",
+      '}',
+    ].join('\n')
+    documentParser.parse(URI, 1, text)
+    const parseImports = vi.spyOn(parser, 'parseImports')
+
+    const [next, change] = insert(text, text.indexOf('load() {') + 8, '\n  foo()')
+    documentParser.recordChanges(URI, 2, [change])
+    const result = documentParser.parse(URI, 2, next)
+
+    expect(parseImports).not.toHaveBeenCalled()
+    expect(result).toEqual(parser.parseDocument(next))
+  })
+
+  it('should re-parse imports for edits inside a nested import binding', () => {
+    const text = [
+      initial,
+      'async function load() {',
+      '  const {',
+      '    Chart,',
+      "  } = await import('chart.js')",
+      '}',
+    ].join('\n')
+    documentParser.parse(URI, 1, text)
+
+    const [next, change] = insert(text, text.indexOf('Chart,') + 6, '\n    registerables,')
+    documentParser.recordChanges(URI, 2, [change])
+    const result = documentParser.parse(URI, 2, next)
+
+    expect(result.statements.map((s) => s.localName)).toEqual(['foo', 'bar', 'Chart', 'registerables'])
+    expect(result).toEqual(parser.parseDocument(next))
+  })
+
+  it('should re-parse imports for edits inside an import in a module block', () => {
+    const text = [
+      initial,
+      "declare module 'express-serve-static-core' {",
+      '  import {',
+      '    User,',
+      "  } from './user'",
+      '}',
+    ].join('\n')
+    documentParser.parse(URI, 1, text)
+
+    const [next, change] = insert(text, text.indexOf('User,') + 5, '\n    Session,')
+    documentParser.recordChanges(URI, 2, [change])
+    const result = documentParser.parse(URI, 2, next)
+
+    expect(result.statements.map((s) => s.localName)).toEqual(['foo', 'bar', 'User', 'Session'])
+    expect(result).toEqual(parser.parseDocument(next))
+  })
+
+  it('should apply several recorded versions at once', () => {
+    documentParser.parse(URI, 1, initial)
+
+    let text = initial
+    let version = 1
+    for (const [offset, inserted] of [
+      [initial.length, '\nfoo'],
+      [0, '// header\n'],
+    ] as const) {
+      const [next, change] = insert(text, offset, inserted)
+      documentParser.recordChanges(URI, ++version, [change])
+      text = next
+    }
+
+    expect(documentParser.parse(URI, version, text)).toEqual(parser.parseDocument(text))
+  })
+
+  it('should apply multiple changes of one event in order', () => {
+    documentParser.parse(URI, 1, initial)
+
+    // VS Code reports multi-cursor edits from the bottom of the document up
+    const [afterFirst, first] = insert(initial, initial.length, '\nbar')
+    const [text, second] = insert(afterFirst, 0, '\n')
+    documentParser.recordChanges(URI, 2, [first, second])
+
+    expect(documentParser.parse(URI, 2, text)).toEqual(parser.parseDocument(text))
+  })
+
+  it('should fall back to a full parse when a version was not recorded', () => {
+    documentParser.parse(URI, 1, initial)
+    const [text, change] = insert(initial, 0, "import baz from 'baz'\n")
+    documentParser.recordChanges(URI, 3, [change])
+
+    const result = documentParser.parse(URI, 3, text)
+
+    expect(result.statements.map((s) => s.localName)).toEqual(['baz', 'foo', 'bar'])
+  })
+
+  it('should fall back to a full parse when the text does not match the recorded edits', () => {
+    documentParser.parse(URI, 1, initial)
+    const text = "import baz from 'baz'"
+
+    expect(documentParser.parse(URI, 1, text)).toEqual(parser.parseDocument(text))
+  })
+
+  it('should start over after a document is forgotten', () => {
+    documentParser.parse(URI, 1, initial)
+    documentParser.forget(URI)
+    const parseImports = vi.spyOn(parser, 'parseImports')
+
+    documentParser.parse(URI, 1, initial)
+
+    expect(parseImports).toHaveBeenCalledOnce()
+  })
+
+  it('should delegate embedded script languages to a full parse', () => {
+    const parseDocument = vi.spyOn(parser, 'parseDocument')
+    const text = "<script>import foo from 'foo'</script>"
+
+    documentParser.parse(URI, 1, text, 'vue', 'App.vue')
+
+    expect(parseDocument).toHaveBeenCalledWith(text, 'vue', 'App.vue')
+  })
+
+  it('should delegate to a full parse when TypeScript is unavailable', () => {
+    vi.mocked(loadTypeScript).mockReturnValueOnce(undefined as never)
+    const parseDocument = vi.spyOn(parser, 'parseDocument')
+
+    documentParser.parse(URI, 1, initial)
+
+    expect(parseDocument).toHaveBeenCalledOnce()
+  })
+})
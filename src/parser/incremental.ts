@@ -0,0 +1,299 @@
+import { injectable } from 'inversify'
+import { loadTypeScript } from '@/symbol/utils/loadTypeScript'
+import type {
+  ImportStatement,
+  ImportTypeReference,
+  ModuleSpecifier,
+  SourceRange,
+  SymbolUsage,
+  TextChange,
+} from './types'
+import { TypeScriptParser } from './typescript'
+import { EMBEDDED_SCRIPT_LANGUAGES } from './utils/extractScriptRegions'
+import { getImportSectionEnd } from './utils/getImportSectionEnd'
+import { getTopLevelNodes } from './utils/getTopLevelNodes'
+
+type TypeScript = typeof import('typescript')
+type Node = import('typescript').Node
+type SourceFile = import('typescript').SourceFile
+type TextChangeRange = import('typescript').TextChangeRange
+
+/** `require()`, `import()` and JSDoc `@import` may introduce imports below the import section */
+const IMPORT_KEYWORD_PATTERN = /\b(?:import|require)\b/
+
+/**
+ * An item with its range kept as offsets from the start of its top-level node, which stay valid when an edit above
+ * moves the node
+ */
+interface NodeRelative<T extends SourceRange> {
+  item: T
+  start: number
+  end: number
+}
+
+/** What one top-level node contributes to the parse result */
+interface NodeResults {
+  usages: NodeRelative<SymbolUsage>[]
+  importTypes: NodeRelative<ImportTypeReference>[]
+  specifiers: NodeRelative<ModuleSpecifier>[]
+}
+
+interface TextSpan {
+  start: number
+  end: number
+}
+
+interface DocumentState {
+  version: number
+  text: string
+  sourceFile: SourceFile
+  statements: ImportStatement[]
+  /** Offsets of the statements, kept in step with the edits so nested bindings below an edit can be moved */
+  statementSpans: TextSpan[]
+  /** Module-level import names the usages in `nodeResults` were searched for */
+  importNames: string
+  nodeResults: Map<Node, NodeResults>
+  usages: SymbolUsage[]
+  importTypes: ImportTypeReference[]
+  specifiers: ModuleSpecifier[]
+  importSectionEnd: number
+  /** Declarations of scoped imports, nested in functions, blocks and module blocks, below the import section */
+  importRegions: TextSpan[]
+  pendingChanges: TextChangeRange[]
+  importsDirty: boolean
+}
+
+/**
+ * Keeps a syntax tree per document and updates it from edit ranges, so that only the statements
+ * touched by an edit are re-parsed and searched again: the tree update reuses the top-level nodes outside the
+ * changed range, and their usages, import types and module specifiers are kept per node. Edits outside the import
+ * section and the nested import bindings leave the parsed imports untouched.
+ * Embedded script languages are always parsed in full.
+ */
+@injectable()
+export class IncrementalDocumentParser {
+  private readonly documents = new Map<string, DocumentState>()
+
+  constructor(private readonly parser: TypeScriptParser) {}
+
+  parse(uri: string, version: number, text: string, languageId?: string, fileName = '__document.ts') {
+    const ts = loadTypeScript()
+    if (!ts || (languageId && EMBEDDED_SCRIPT_LANGUAGES.has(languageId))) {
+      this.documents.delete(uri)
+      return this.parser.parseDocument(text, languageId, fileName)
+    }
+
+    let state = this.documents.get(uri)
+    if (state && (state.version !== version || state.text !== text)) {
+      // Some edits were never recorded, so the tree no longer matches the document
+      state = undefined
+    }
+
+    if (!state) {
+      state = this.createState(ts, version, text, fileName)
+      this.documents.set(uri, state)
+    } else if (state.pendingChanges.length > 0) {
+      this.applyPendingChanges(ts, state, fileName)
+    }
+
+    return {
+      statements: state.statements,
+      usages: state.usages,
+      importTypes: state.importTypes,
+      specifiers: state.specifiers,
+    }
+  }
+
+  /** Records the edits of a document version; they are applied to the tree on the next `parse` */
+  recordChanges(uri: string, version: number, changes: readonly TextChange[]) {
+    const state = this.documents.get(uri)
+    if (!state || changes.length === 0) {
+      return
+    }
+    if (version !== state.version + 1) {
+      this.documents.delete(uri)
+      return
+    }
+
+    // Changes within one event are applied one after another, each relative to the previous result
+    for (const change of changes) {
+      const start = change.rangeOffset
+      const end = start + change.rangeLength
+      const text = state.text.slice(0, start) + change.text + state.text.slice(end)
+
+      if (
+        start <= state.importSectionEnd ||
+        state.importRegions.some((region) => start <= region.end && end >= region.start) ||
+        IMPORT_KEYWORD_PATTERN.test(getTouchedLines(state.text, start, end)) ||
+        IMPORT_KEYWORD_PATTERN.test(getTouchedLines(text, start, start + change.text.length))
+      ) {
+        state.importsDirty = true
+      }
+
+      const delta = change.text.length - change.rangeLength
+      for (const span of [...state.importRegions, ...state.statementSpans]) {
+        if (span.start >= end) {
+          span.start += delta
+          span.end += delta
+        }
+      }
+
+      state.text = text
+      state.pendingChanges.push({ span: { start, length: change.rangeLength }, newLength: change.text.length })
+    }
+    state.version = version
+  }
+
+  forget(uri: string) {
+    this.documents.delete(uri)
+  }
+
+  private createState(ts: TypeScript, version: number, text: string, fileName: string): DocumentState {
+    const state: DocumentState = {
+      version,
+      text,
+      sourceFile: ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true),
+      statements: [],
+      statementSpans: [],
+      importNames: '',
+      nodeResults: new Map(),
+      usages: [],
+      importTypes: [],
+      specifiers: [],
+      importSectionEnd: 0,
+      importRegions: [],
+      pendingChanges: [],
+      importsDirty: true,
+    }
+    this.update(ts, state)
+    return state
+  }
+
+  private applyPendingChanges(ts: TypeScript, state: DocumentState, fileName: string) {
+    try {
+      const change = ts.collapseTextChangeRangesAcrossMultipleVersions(state.pendingChanges)
+      state.sourceFile = ts.updateSourceFile(state.sourceFile, state.text, change)
+    } catch {
+      Object.assign(state, this.createState(ts, state.version, state.text, fileName))
+      return
+    }
+
+    state.pendingChanges = []
+    this.update(ts, state)
+  }
+
+  /** Re-parses the imports if an edit touched them, and searches the top-level nodes the tree update replaced */
+  private update(ts: TypeScript, state: DocumentState) {
+    const sf = state.sourceFile
+    if (state.importsDirty) {
+      state.statements = this.parser.parseImports(sf)
+      state.statementSpans = state.statements.map((s) => ({
+        start: sf.getPositionOfLineAndCharacter(s.startLine, s.startColumn),
+        end: sf.getPositionOfLineAndCharacter(s.endLine, s.endColumn),
+      }))
+      state.importSectionEnd = getImportSectionEnd(state.text, state.statements)
+      state.importRegions = getImportRegions(ts, sf, state.statements)
+      state.importsDirty = false
+
+      const importNames = getImportNames(state.statements)
+      if (importNames !== state.importNames) {
+        // Every node may refer to the added or removed names
+        state.importNames = importNames
+        state.nodeResults.clear()
+      }
+    } else {
+      state.statements = state.statements.map((s, i) => ({ ...s, ...getSpanRange(sf, state.statementSpans[i]) }))
+    }
+
+    const nodeResults = new Map<Node, NodeResults>()
+    state.usages = []
+    state.importTypes = []
+    state.specifiers = []
+    for (const node of getTopLevelNodes(sf)) {
+      const results = state.nodeResults.get(node) ?? this.searchNode(sf, node, state.statements)
+      nodeResults.set(node, results)
+      state.usages.push(...results.usages.map((u) => toSourceRange(sf, node, u)))
+      state.importTypes.push(...results.importTypes.map((t) => toSourceRange(sf, node, t)))
+      state.specifiers.push(...results.specifiers.map((s) => toSourceRange(sf, node, s)))
+    }
+    state.nodeResults = nodeResults
+  }
+
+  private searchNode(sf: SourceFile, node: Node, statements: ImportStatement[]): NodeResults {
+    const toRelative = <T extends SourceRange>(item: T): NodeRelative<T> => ({
+      item,
+      start: sf.getPositionOfLineAndCharacter(item.startLine, item.startColumn) - node.pos,
+      end: sf.getPositionOfLineAndCharacter(item.endLine, item.endColumn) - node.pos,
+    })
+
+    return {
+      usages: this.parser.findUsages(node, statements).map(toRelative),
+      importTypes: this.parser.findImportTypes(node).map(toRelative),
+      specifiers: this.parser.findModuleSpecifiers(node).map(toRelative),
+    }
+  }
+}
+
+function toSourceRange<T extends SourceRange>(sf: SourceFile, node: Node, { item, start, end }: NodeRelative<T>): T {
+  return { ...item, ...getSpanRange(sf, { start: node.pos + start, end: node.pos + end }) }
+}
+
+function getSpanRange(sf: SourceFile, { start, end }: TextSpan): SourceRange {
+  const startPosition = sf.getLineAndCharacterOfPosition(start)
+  const endPosition = sf.getLineAndCharacterOfPosition(end)
+  return {
+    startLine: startPosition.line,
+    startColumn: startPosition.character,
+    endLine: endPosition.line,
+    endColumn: endPosition.character,
+  }
+}
+
+/** Module-level names that usages are searched for; nested bindings only matter within their own node */
+function getImportNames(statements: readonly ImportStatement[]) {
+  return statements
+    .filter((s) => s.kind !== 'reexport' && !s.binding)
+    .map((s) => s.localName)
+    .sort()
+    .join('\0')
+}
+
+/**
+ * Spans of the variable statements declaring `require()` / `import()` bindings nested in functions and blocks, and of
+ * the imports inside module blocks
+ */
+function getImportRegions(ts: TypeScript, sf: SourceFile, statements: readonly ImportStatement[]) {
+  const regions: TextSpan[] = []
+  for (const s of statements) {
+    if (!s.binding) {
+      continue
+    }
+
+    let node = findInnermostNode(ts, sf, sf.getPositionOfLineAndCharacter(s.startLine, s.startColumn))
+    while (node.parent && !ts.isVariableDeclarationList(node) && !ts.isModuleBlock(node.parent)) {
+      node = node.parent
+    }
+    if (ts.isVariableStatement(node.parent)) {
+      node = node.parent
+    }
+    regions.push({ start: node.getStart(sf), end: node.getEnd() })
+  }
+  return regions
+}
+
+function findInnermostNode(ts: TypeScript, sf: SourceFile, position: number) {
+  let node: Node = sf
+  for (;;) {
+    const child = ts.forEachChild(node, (c) => (c.pos <= position && position < c.end ? c : undefined))
+    if (!child) {
+      return node
+    }
+    node = child
+  }
+}
+
+function getTouchedLines(text: string, start: number, end: number) {
+  const lineStart = start > 0 ? text.lastIndexOf('\n', start - 1) + 1 : 0
+  const lineEnd = text.indexOf('\n', end)
+  return text.slice(lineStart, lineEnd === -1 ? text.length : lineEnd)
+}
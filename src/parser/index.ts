@@ -1,2 +1,11 @@
-export type { ImportStatement } from './types'
+export { IncrementalDocumentParser } from './incremental'
+export type {
+  ImportStatement,
+  ImportTypeReference,
+  ModuleSpecifier,
+  ScriptRegion,
+  SourceRange,
+  SymbolUsage,
+  TextChange,
+} from './types'
 export { TypeScriptParser } from './typescript'
@@ -1,14 +1,4 @@
-export interface ImportStatement {
-  /** Local name after alias resolution */
-  localName: string
-  /** Original imported name (same as localName if no alias, '*' for namespace) */
-  importedName: string
-  /** Module specifier (e.g. 'react', '~/foo/bar') */
-  source: string
-  /** Import kind */
-  kind: 'named' | 'default' | 'namespace'
-  /** Whether this is a type-only import */
-  isTypeOnly: boolean
+export interface SourceRange {
   /** Start line (0-based) */
   startLine: number
   /** Start column (0-based) */
@@ -18,3 +8,71 @@ export interface ImportStatement {
   /** End column (0-based) */
   endColumn: number
 }
+
+export interface ImportStatement extends SourceRange {
+  /** Local name after alias resolution (the exported name for re-exports) */
+  localName: string
+  /**
+   * Original imported name (same as localName if no alias, '*' for namespace and `require()`,
+   * the entity name for `import Alias = Namespace.Member`)
+   */
+  importedName: string
+  /** Module specifier (e.g. 'react', '~/foo/bar'), empty for `import Alias = Namespace.Member` */
+  source: string
+  /**
+   * Import kind (`equals` for `import x = require()` and `import Alias = Namespace.Member`,
+   * `reexport` for `export { X } from` and `export * as ns from`, which bind no local name)
+   */
+  kind: 'named' | 'default' | 'namespace' | 'equals' | 'reexport'
+  /** Whether this is a type-only import */
+  isTypeOnly: boolean
+  /**
+   * Key of a `require()` / `import()` binding declared inside a function or block, or of an import inside
+   * `declare module 'x' { }`, `declare global { }` or a namespace, which only identifiers in that scope refer to.
+   * Module-level imports have none and are identified by their local name.
+   */
+  binding?: string
+}
+
+export interface SymbolUsage extends SourceRange {
+  /** Local name the identifier refers to */
+  localName: string
+  /** Key of the scoped binding the identifier refers to, if any */
+  binding?: string
+}
+
+/** Inline `import('x').Foo` type or `typeof import('x').foo` query. The range covers the last name of the qualifier. */
+export interface ImportTypeReference extends SourceRange {
+  /** Module specifier (e.g. './models') */
+  source: string
+  /** Qualified member name (e.g. 'User', 'Models.User') */
+  qualifier: string
+}
+
+export interface ModuleSpecifier extends SourceRange {
+  /** Module specifier text without quotes */
+  source: string
+  /** Whether the module is imported only for its side effects (e.g. `import './styles.css'`) */
+  isSideEffect: boolean
+}
+
+export interface ScriptRegion {
+  /** Script source inside the region */
+  text: string
+  /** File name used to parse the region; its extension selects the script kind */
+  fileName: string
+  /** Document line where the region starts (0-based) */
+  startLine: number
+  /** Document column where the region starts (0-based) */
+  startColumn: number
+}
+
+/** A single edit to a document, shaped like `vscode.TextDocumentContentChangeEvent` */
+export interface TextChange {
+  /** Offset of the replaced range */
+  rangeOffset: number
+  /** Length of the replaced range */
+  rangeLength: number
+  /** Text that replaces the range */
+  text: string
+}
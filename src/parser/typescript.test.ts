@@ -1,6 +1,11 @@
-import { describe, expect, it } from 'vitest'
+import { describe, expect, it, vi } from 'vitest'
+import { loadTypeScript } from '@/symbol/utils/loadTypeScript'
 import { TypeScriptParser } from './typescript'
 
+vi.mock('@/symbol/utils/loadTypeScript', () => ({
+  loadTypeScript: vi.fn(() => require('typescript')),
+}))
+
 describe('TypeScriptParser', () => {
   const parser = new TypeScriptParser()
 
@@ -146,14 +151,30 @@ import * as path from 'path'`
     })
 
     describe('re-exports', () => {
-      it('should skip re-exports', () => {
+      it('should parse re-exports as their own kind', () => {
         const text = `import { useState } from 'react'
-export { Foo } from 'bar'
+export { Foo, Bar as Baz } from 'bar'
+export * as ns from 'ns'
+export * from 'all'
 
 const x = 1`
         const result = parser.parseImports(text)
-        expect(result).toHaveLength(1)
-        expect(result[0]).toMatchObject({ localName: 'useState' })
+        expect(result).toHaveLength(4)
+        expect(result[0]).toMatchObject({ localName: 'useState', kind: 'named' })
+        expect(result[1]).toMatchObject({ localName: 'Foo', importedName: 'Foo', source: 'bar', kind: 'reexport' })
+        expect(result[2]).toMatchObject({ localName: 'Baz', importedName: 'Bar', kind: 'reexport', startColumn: 21 })
+        expect(result[3]).toMatchObject({ localName: 'ns', importedName: '*', source: 'ns', kind: 'reexport' })
+      })
+
+      it('should mark type-only re-exports', () => {
+        const result = parser.parseImports("export type { Foo } from 'bar'\nexport { type Bar } from 'bar'")
+        expect(result[0]).toMatchObject({ localName: 'Foo', kind: 'reexport', isTypeOnly: true })
+        expect(result[1]).toMatchObject({ localName: 'Bar', kind: 'reexport', isTypeOnly: true })
+      })
+
+      it('should ignore local exports', () => {
+        const result = parser.parseImports('export const x = 1\nexport { x as y }')
+        expect(result).toEqual([])
       })
     })
 
@@ -235,4 +256,129 @@ import { useState } from 'preact/hooks'`
       })
     })
   })
+
+  describe('regex fallback', () => {
+    it('should parse imports without TypeScript', () => {
+      vi.mocked(loadTypeScript).mockReturnValueOnce(undefined as never)
+      const result = parser.parseImports("import React, { useState as useS } from 'react'")
+      expect(result).toHaveLength(2)
+      expect(result[0]).toMatchObject({ localName: 'React', kind: 'default', startColumn: 7, endColumn: 12 })
+      expect(result[1]).toMatchObject({ localName: 'useS', importedName: 'useState', startColumn: 28 })
+    })
+
+    it('should parse import-equals declarations', () => {
+      vi.mocked(loadTypeScript).mockReturnValueOnce(undefined as never)
+      const result = parser.parseImports("import fs = require('fs')\nimport Foo = Bar.Baz")
+      expect(result).toHaveLength(2)
+      expect(result[0]).toMatchObject({ localName: 'fs', importedName: '*', source: 'fs', kind: 'equals' })
+      expect(result[0]).toMatchObject({ startLine: 0, startColumn: 7, endColumn: 9 })
+      expect(result[1]).toMatchObject({ localName: 'Foo', importedName: 'Bar.Baz', source: '', kind: 'equals' })
+    })
+
+    it('should parse re-exports', () => {
+      vi.mocked(loadTypeScript).mockReturnValueOnce(undefined as never)
+      const result = parser.parseImports("export { Foo as Bar } from 'foo'\nexport * as ns from 'ns'")
+      expect(result).toHaveLength(2)
+      expect(result[0]).toMatchObject({ localName: 'Bar', importedName: 'Foo', kind: 'reexport', startColumn: 16 })
+      expect(result[1]).toMatchObject({ localName: 'ns', importedName: '*', kind: 'reexport' })
+    })
+
+    it('should parse imports leading ambient module and global blocks', () => {
+      vi.mocked(loadTypeScript).mockReturnValueOnce(undefined as never)
+      const text = [
+        "import 'express'",
+        '',
+        "declare module 'express-serve-static-core' {",
+        "  import { User } from './user'",
+        '}',
+        'declare global {',
+        "  import type { Config } from './config'",
+        '  interface Window { config: Config }',
+        '}',
+      ].join('\n')
+      const result = parser.parseImports(text)
+      expect(result.map((s) => [s.localName, s.isTypeOnly, s.startLine, s.binding])).toEqual([
+        ['User', false, 3, "User (User from './user')"],
+        ['Config', true, 6, "Config (Config from './config')"],
+      ])
+    })
+
+    it('should stop at the first non-import line', () => {
+      vi.mocked(loadTypeScript).mockReturnValueOnce(undefined as never)
+      const result = parser.parseImports("import { a } from 'a'\nconst x = 1\nimport { b } from 'b'")
+      expect(result.map((s) => s.localName)).toEqual(['a'])
+    })
+  })
+
+  describe('parseDocument', () => {
+    it('should parse the whole document for TypeScript files', () => {
+      const text = "import { foo } from 'mod'\nfoo()"
+      const result = parser.parseDocument(text, 'typescript')
+      expect(result.statements).toHaveLength(1)
+      expect(result.usages).toEqual([{ localName: 'foo', startLine: 1, startColumn: 0, endLine: 1, endColumn: 3 }])
+    })
+
+    it('should map script block ranges back to document positions', () => {
+      const text = `<template><Foo /></template>
+<script setup lang="ts">import { ref } from 'vue'
+const count = ref(0)
+</script>`
+      const result = parser.parseDocument(text, 'vue', 'App.vue')
+      expect(result.statements).toEqual([
+        expect.objectContaining({ localName: 'ref', startLine: 1, startColumn: 33, endLine: 1, endColumn: 36 }),
+      ])
+      expect(result.usages).toEqual([{ localName: 'ref', startLine: 2, startColumn: 14, endLine: 2, endColumn: 17 }])
+    })
+
+    it('should find usages of imports from the other script blocks of a Vue component', () => {
+      const text = `<script lang="ts">import { defineComponent } from 'vue'</script>
+<script setup lang="ts">const Comp = defineComponent({})</script>`
+      const result = parser.parseDocument(text, 'vue', 'App.vue')
+      expect(result.usages).toEqual([
+        { localName: 'defineComponent', startLine: 1, startColumn: 37, endLine: 1, endColumn: 52 },
+      ])
+    })
+
+    it('should find usages of Svelte module script imports in the instance script', () => {
+      const text = `<script context="module">import { format } from './format'</script>
+<script>const label = format(1)</script>`
+      const result = parser.parseDocument(text, 'svelte', 'App.svelte')
+      expect(result.usages).toEqual([{ localName: 'format', startLine: 1, startColumn: 22, endLine: 1, endColumn: 28 }])
+    })
+
+    it('should keep the imports of Astro frontmatter out of its client scripts', () => {
+      const text = `---
+import { format } from './format'
+---
+<script>format(1)</script>`
+      const result = parser.parseDocument(text, 'astro', 'Page.astro')
+      expect(result.usages).toEqual([])
+    })
+  })
+
+  describe('findUsages', () => {
+    it('should find usages of every imported local name', () => {
+      const text = `import React, { useState as useS } from 'react'
+
+const [a] = useS(0)
+React.createElement('div')`
+      const result = parser.findUsages(text, parser.parseImports(text))
+      expect(result).toEqual([
+        { localName: 'useS', startLine: 2, startColumn: 12, endLine: 2, endColumn: 16 },
+        { localName: 'React', startLine: 3, startColumn: 0, endLine: 3, endColumn: 5 },
+      ])
+    })
+
+    it('should not look for usages of re-exported names', () => {
+      const text = "export { Foo } from 'foo'\nFoo()"
+      expect(parser.findUsages(text, parser.parseImports(text))).toEqual([])
+    })
+
+    it('should return empty array when TypeScript is unavailable', () => {
+      const text = "import { foo } from 'mod'\nfoo()"
+      const statements = parser.parseImports(text)
+      vi.mocked(loadTypeScript).mockReturnValueOnce(undefined as never)
+      expect(parser.findUsages(text, statements)).toEqual([])
+    })
+  })
 })
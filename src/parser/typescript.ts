@@ -1,11 +1,119 @@
 import { injectable } from 'inversify'
-import type { ImportStatement } from './types'
+import { loadTypeScript } from '@/symbol/utils/loadTypeScript'
+import type { ImportStatement, ImportTypeReference, ModuleSpecifier, SymbolUsage } from './types'
+import { extractScriptRegions, SHARED_SCOPE_SCRIPT_LANGUAGES } from './utils/extractScriptRegions'
+import { findImportTypes } from './utils/findImportTypes'
+import { findModuleSpecifiers } from './utils/findModuleSpecifiers'
+import { findSymbolUsages } from './utils/findSymbolUsages'
+import { getScopedBindingKey } from './utils/getScopedBindingKey'
+import { mapRegionRange } from './utils/mapRegionRange'
+import { parseImportDeclarations } from './utils/parseImportDeclarations'
+
+type Node = import('typescript').Node
+type SourceFile = import('typescript').SourceFile
+
+/** `declare module 'x' {`, `declare global {` and `declare namespace X {` opening lines */
+const AMBIENT_BLOCK_PATTERN =
+  /^(?:export\s+)?declare\s+(?:module\s+(?:['"][^'"]+['"]|[\w.]+)|global|namespace\s+[\w.]+)\s*\{$/
 
 @injectable()
 export class TypeScriptParser {
-  parseImports(text: string) {
+  /**
+   * Parses imports, their usages, inline import types and module specifiers in every script region of a document. Single-file components
+   * (Vue, Svelte, Astro, HTML) are split into their script blocks, and the resulting ranges are
+   * mapped back to document positions. Blocks sharing one scope see each other's module-level imports.
+   */
+  parseDocument(text: string, languageId?: string, fileName?: string) {
+    const statements: ImportStatement[] = []
+    const usages: SymbolUsage[] = []
+    const importTypes: ImportTypeReference[] = []
+    const specifiers: ModuleSpecifier[] = []
+
+    const regions = extractScriptRegions(text, languageId, fileName).map((region) => ({
+      region,
+      statements: this.parseImports(region.text, region.fileName),
+    }))
+    const sharesScope = !!languageId && SHARED_SCOPE_SCRIPT_LANGUAGES.has(languageId)
+
+    for (const { region, statements: regionStatements } of regions) {
+      // Scoped bindings stay within their own block
+      const visibleStatements = sharesScope
+        ? regions.flatMap((other) =>
+            other.region === region ? other.statements : other.statements.filter((s) => !s.binding),
+          )
+        : regionStatements
+      const regionUsages = this.findUsages(region.text, visibleStatements, region.fileName)
+      const regionImportTypes = this.findImportTypes(region.text, region.fileName)
+      const regionSpecifiers = this.findModuleSpecifiers(region.text, region.fileName)
+      statements.push(...regionStatements.map((s) => mapRegionRange(s, region)))
+      usages.push(...regionUsages.map((u) => mapRegionRange(u, region)))
+      importTypes.push(...regionImportTypes.map((t) => mapRegionRange(t, region)))
+      specifiers.push(...regionSpecifiers.map((s) => mapRegionRange(s, region)))
+    }
+
+    return { statements, usages, importTypes, specifiers }
+  }
+
+  /** Parses the imports of a script, either from its text or from an already parsed source file */
+  parseImports(source: string | SourceFile, fileName?: string) {
+    const ts = loadTypeScript()
+    if (ts) {
+      try {
+        return parseImportDeclarations(ts, source, fileName)
+      } catch {
+        // Fall back to the line-based parser below
+      }
+    }
+
+    return this.parseImportsWithRegex(typeof source === 'string' ? source : source.text)
+  }
+
+  /** Finds usages of the imports in a script, or in one node of an already parsed source file */
+  findUsages(source: string | Node, statements: ImportStatement[], fileName?: string): SymbolUsage[] {
+    const ts = loadTypeScript()
+    if (!ts) {
+      return []
+    }
+
+    // Re-exports bind no local name, so their names never appear in the file body
+    const imports = statements.filter((s) => s.kind !== 'reexport')
+    const names = new Set(imports.filter((s) => !s.binding).map((s) => s.localName))
+    const scopedNames = new Set(imports.filter((s) => s.binding).map((s) => s.localName))
+    return findSymbolUsages(ts, source, names, fileName, scopedNames)
+  }
+
+  /** Finds inline `import('x').Foo` types and `typeof import('x').foo` queries */
+  findImportTypes(source: string | Node, fileName?: string): ImportTypeReference[] {
+    const ts = loadTypeScript()
+    if (!ts) {
+      return []
+    }
+
+    try {
+      return findImportTypes(ts, source, fileName)
+    } catch {
+      return []
+    }
+  }
+
+  /** Finds the module specifier strings of all imports, re-exports, import types and `require()` / `import()` calls */
+  findModuleSpecifiers(source: string | Node, fileName?: string): ModuleSpecifier[] {
+    const ts = loadTypeScript()
+    if (!ts) {
+      return []
+    }
+
+    try {
+      return findModuleSpecifiers(ts, source, fileName)
+    } catch {
+      return []
+    }
+  }
+
+  private parseImportsWithRegex(text: string) {
     const lines = text.split('\n')
     const statements: ImportStatement[] = []
+    let inAmbientBlock = false
     let i = 0
 
     while (i < lines.length) {
@@ -17,14 +125,31 @@ export class TypeScriptParser {
         continue
       }
 
-      // Skip re-exports: export { ... } from '...'
+      // Step into ambient blocks, whose leading imports are parsed like top-level ones but only visible in the block
+      if (AMBIENT_BLOCK_PATTERN.test(trimmed) || trimmed === '}') {
+        inAmbientBlock = trimmed !== '}'
+        i++
+        continue
+      }
+
+      // Re-exports: export { ... } from '...' / export * as ns from '...'
       if (trimmed.startsWith('export ')) {
+        const startLine = i
         let statement = lines[i]
         let endLine = i
         while (endLine < lines.length - 1 && !this.isImportComplete(statement)) {
           endLine++
           statement += '\n' + lines[endLine]
         }
+
+        const source = this.extractModuleSpecifier(statement)
+        if (source && /^export\s+(?:type\s+)?[{*]/.test(trimmed)) {
+          const asImport = statement.trim().replace(/^export/, 'import')
+          const isStatementTypeOnly = /^import\s+type\s/.test(asImport)
+          const parsed = this.parseImportStatement(asImport, startLine, lines, source, isStatementTypeOnly)
+          statements.push(...parsed.map((s) => ({ ...s, kind: 'reexport' as const })))
+        }
+
         i = endLine + 1
         continue
       }
@@ -34,6 +159,14 @@ export class TypeScriptParser {
         break
       }
 
+      // Import-equals declarations: import x = require('x') / import Alias = Namespace.Member
+      const importEquals = this.parseImportEquals(lines, i)
+      if (importEquals) {
+        statements.push(inAmbientBlock ? withScopedBinding(importEquals) : importEquals)
+        i++
+        continue
+      }
+
       // Collect the full import statement (may span multiple lines)
       const startLine = i
       let statement = lines[i]
@@ -47,7 +180,7 @@ export class TypeScriptParser {
       if (source) {
         const isStatementTypeOnly = /^import\s+type\s/.test(statement.trim())
         const parsed = this.parseImportStatement(statement, startLine, lines, source, isStatementTypeOnly)
-        statements.push(...parsed)
+        statements.push(...(inAmbientBlock ? parsed.map(withScopedBinding) : parsed))
       }
 
       i = endLine + 1
@@ -56,6 +189,25 @@ export class TypeScriptParser {
     return statements
   }
 
+  private parseImportEquals(lines: string[], line: number): ImportStatement | undefined {
+    const match = lines[line]
+      .trim()
+      .match(/^import\s+(type\s+)?(\w+)\s*=\s*(?:require\(\s*['"]([^'"]+)['"]\s*\)|([\w.]+))/)
+    if (!match) {
+      return undefined
+    }
+
+    const [, typeKeyword, localName, source, entityName] = match
+    return {
+      localName,
+      importedName: entityName ?? '*',
+      source: source ?? '',
+      kind: 'equals',
+      isTypeOnly: !!typeKeyword,
+      ...this.findSymbolPosition(localName, line, lines),
+    }
+  }
+
   private extractModuleSpecifier(statement: string) {
     const match = statement.match(/from\s+['"]([^'"]+)['"]/) ?? statement.match(/^import\s+['"]([^'"]+)['"]/)
     return match?.[1]
@@ -202,3 +354,7 @@ export class TypeScriptParser {
     }
   }
 }
+
+function withScopedBinding(statement: ImportStatement): ImportStatement {
+  return { ...statement, binding: getScopedBindingKey(statement.localName, statement.importedName, statement.source) }
+}
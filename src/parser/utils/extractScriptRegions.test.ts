@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { extractScriptRegions } from './extractScriptRegions'
+
+describe('extractScriptRegions', () => {
+  it('should return the whole document for non-embedded languages', () => {
+    const text = "import { a } from 'a'"
+    expect(extractScriptRegions(text, 'typescript', '/src/a.ts')).toEqual([
+      { text, fileName: '/src/a.ts', startLine: 0, startColumn: 0 },
+    ])
+  })
+
+  it('should return the whole document when the language is unknown', () => {
+    expect(extractScriptRegions('x', undefined)).toHaveLength(1)
+  })
+
+  it('should extract script blocks from Vue files with their lang', () => {
+    const text = `<template>
+  <div />
+</template>
+
+<script setup lang="ts">
+import { ref } from 'vue'
+</script>`
+    expect(extractScriptRegions(text, 'vue', '/src/App.vue')).toEqual([
+      { text: "\nimport { ref } from 'vue'\n", fileName: '/src/App.vue.ts', startLine: 4, startColumn: 24 },
+    ])
+  })
+
+  it('should default to JavaScript for script blocks without lang', () => {
+    const regions = extractScriptRegions("<script>import a from 'a'</script>", 'svelte', 'App.svelte')
+    expect(regions).toEqual([{ text: "import a from 'a'", fileName: 'App.svelte.js', startLine: 0, startColumn: 8 }])
+  })
+
+  it('should extract every script block', () => {
+    const text = `<script context="module" lang='ts'>export const prerender = true</script>
+<script lang=ts>import a from 'a'</script>`
+    const regions = extractScriptRegions(text, 'svelte', 'App.svelte')
+    expect(regions.map((r) => [r.startLine, r.startColumn, r.fileName])).toEqual([
+      [0, 35, 'App.svelte.ts'],
+      [1, 16, 'App.svelte.ts'],
+    ])
+  })
+
+  it('should skip non-script types, unknown langs and empty blocks', () => {
+    const text = `<script type="importmap">{ "imports": {} }</script>
+<script type="text/template"><div></div></script>
+<script lang="coffee">x = 1</script>
+<script src="./main.js"></script>
+<script type="module">import a from 'a'</script>`
+    const regions = extractScriptRegions(text, 'html', 'index.html')
+    expect(regions).toHaveLength(1)
+    expect(regions[0]).toMatchObject({ startLine: 4, startColumn: 22 })
+  })
+
+  it('should read attributes whose quoted values contain a closing angle bracket', () => {
+    const text = `<script setup lang="ts" data-cond="a > b">import a from 'a'</script>`
+    const regions = extractScriptRegions(text, 'vue', 'App.vue')
+    expect(regions).toEqual([{ text: "import a from 'a'", fileName: 'App.vue.ts', startLine: 0, startColumn: 42 }])
+  })
+
+  it('should skip script blocks inside HTML comments', () => {
+    const text = `<!-- <script lang="ts">import old from 'old'</script> -->
+<script lang="ts">import a from 'a'</script>`
+    const regions = extractScriptRegions(text, 'vue', 'App.vue')
+    expect(regions).toEqual([{ text: "import a from 'a'", fileName: 'App.vue.ts', startLine: 1, startColumn: 18 }])
+  })
+
+  it('should extract Astro frontmatter as TypeScript', () => {
+    const text = `---
+import Layout from '../layouts/Layout.astro'
+---
+<Layout />
+<script>import { a } from 'a'</script>`
+    const regions = extractScriptRegions(text, 'astro', 'page.astro')
+    expect(regions).toEqual([
+      { text: "import Layout from '../layouts/Layout.astro'", fileName: 'page.astro.ts', startLine: 1, startColumn: 0 },
+      { text: "import { a } from 'a'", fileName: 'page.astro.ts', startLine: 4, startColumn: 8 },
+    ])
+  })
+})
@@ -0,0 +1,63 @@
+import type { ScriptRegion } from '@/parser/types'
+
+/** Script blocks, whose quoted attribute values may contain `>`, or HTML comments, which are matched to be skipped */
+const SCRIPT_TAG_PATTERN = /<!--[\s\S]*?-->|<script\b((?:"[^"]*"|'[^']*'|[^>"'])*)>([\s\S]*?)<\/script\s*>/gi
+const ASTRO_FRONTMATTER_PATTERN = /^(\s*---[^\S\r\n]*\r?\n)([\s\S]*?)\r?\n---/
+const SCRIPT_LANGS = new Set(['ts', 'tsx', 'js', 'jsx'])
+const SCRIPT_TYPES = new Set(['', 'module', 'text/javascript', 'application/javascript', 'text/typescript'])
+
+/** Languages whose scripts live in embedded blocks rather than spanning the whole document */
+export const EMBEDDED_SCRIPT_LANGUAGES = new Set(['vue', 'svelte', 'astro', 'html'])
+
+/**
+ * Languages whose script blocks share one scope, like Vue's `<script>` and `<script setup>` or Svelte's module and
+ * instance scripts. Astro's frontmatter runs apart from its client scripts, and HTML module scripts are modules each
+ */
+export const SHARED_SCOPE_SCRIPT_LANGUAGES = new Set(['vue', 'svelte'])
+
+export function extractScriptRegions(text: string, languageId: string | undefined, fileName = '__document.ts') {
+  if (!languageId || !EMBEDDED_SCRIPT_LANGUAGES.has(languageId)) {
+    return [{ text, fileName, startLine: 0, startColumn: 0 }]
+  }
+
+  // Astro components default to TypeScript, everything else to JavaScript
+  const defaultLang = languageId === 'astro' ? 'ts' : 'js'
+  const regions: ScriptRegion[] = []
+
+  if (languageId === 'astro') {
+    const frontmatter = text.match(ASTRO_FRONTMATTER_PATTERN)
+    if (frontmatter) {
+      regions.push(createRegion(text, frontmatter[1].length, frontmatter[2], `${fileName}.ts`))
+    }
+  }
+
+  for (const match of text.matchAll(SCRIPT_TAG_PATTERN)) {
+    const [, attributes, content] = match
+    if (attributes === undefined) {
+      continue
+    }
+
+    const lang = readAttribute(attributes, 'lang') ?? defaultLang
+    const type = readAttribute(attributes, 'type') ?? ''
+    if (!SCRIPT_LANGS.has(lang) || !SCRIPT_TYPES.has(type.toLowerCase()) || content.trim() === '') {
+      continue
+    }
+
+    const contentOffset = match.index! + `<script${attributes}>`.length
+    regions.push(createRegion(text, contentOffset, content, `${fileName}.${lang}`))
+  }
+
+  return regions
+}
+
+function readAttribute(attributes: string, name: string) {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'))
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined
+}
+
+function createRegion(text: string, offset: number, content: string, fileName: string): ScriptRegion {
+  const before = text.slice(0, offset)
+  const startLine = before.split('\n').length - 1
+  const startColumn = offset - (before.lastIndexOf('\n') + 1)
+  return { text: content, fileName, startLine, startColumn }
+}
@@ -0,0 +1,35 @@
+import ts from 'typescript'
+import { describe, expect, it } from 'vitest'
+import { findImportTypes } from './findImportTypes'
+
+function importTypesOf(text: string, fileName?: string) {
+  return findImportTypes(ts, text, fileName).map((t) => [t.source, t.qualifier, t.startLine, t.startColumn])
+}
+
+describe('findImportTypes', () => {
+  it('should find import types and point at the last qualifier name', () => {
+    const text = ["let x: import('./models').User", "let y: import('./models').Models.Admin<Foo>"].join('\n')
+    expect(importTypesOf(text)).toEqual([
+      ['./models', 'User', 0, 26],
+      ['./models', 'Models.Admin', 1, 33],
+    ])
+  })
+
+  it('should find typeof import queries', () => {
+    const text = "type F = typeof import('./mod').create"
+    expect(importTypesOf(text)).toEqual([['./mod', 'create', 0, 32]])
+  })
+
+  it('should skip bare typeof import queries, which name no member', () => {
+    expect(importTypesOf("type M = typeof import('./mod')")).toEqual([])
+  })
+
+  it('should find import types in JSDoc type expressions', () => {
+    const text = ["/** @type {import('./models').User} */", 'let user'].join('\n')
+    expect(importTypesOf(text, 'index.js')).toEqual([['./models', 'User', 0, 30]])
+  })
+
+  it('should ignore dynamic import expressions', () => {
+    expect(importTypesOf("const m = import('./mod')")).toEqual([])
+  })
+})
@@ -0,0 +1,42 @@
+import type { ImportTypeReference } from '@/parser/types'
+import { getJSDocNodes } from './getJSDocNodes'
+import { getNodeRange } from './getNodeRange'
+import { getSearchNodes } from './getSearchNodes'
+
+type TypeScript = typeof import('typescript')
+type Node = import('typescript').Node
+
+/**
+ * Finds `import('x').Foo` type nodes and `typeof import('x').foo` queries, including those in JSDoc types. A bare
+ * `import('x')` names no member, so there is nothing to decorate.
+ */
+export function findImportTypes(ts: TypeScript, source: string | Node, fileName = '__types.ts') {
+  const { sf, nodes } = getSearchNodes(ts, source, fileName)
+  const references: ImportTypeReference[] = []
+
+  const visit = (node: Node) => {
+    if (
+      ts.isImportTypeNode(node) &&
+      node.qualifier &&
+      ts.isLiteralTypeNode(node.argument) &&
+      ts.isStringLiteral(node.argument.literal)
+    ) {
+      const qualifier = node.qualifier
+      references.push({
+        source: node.argument.literal.text,
+        qualifier: qualifier.getText(sf),
+        ...getNodeRange(sf, ts.isQualifiedName(qualifier) ? qualifier.right : qualifier),
+      })
+    }
+
+    for (const doc of getJSDocNodes(node)) {
+      visit(doc)
+    }
+    ts.forEachChild(node, visit)
+  }
+
+  for (const node of nodes) {
+    visit(node)
+  }
+  return references
+}
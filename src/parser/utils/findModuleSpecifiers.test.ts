@@ -0,0 +1,55 @@
+import ts from 'typescript'
+import { describe, expect, it } from 'vitest'
+import { findModuleSpecifiers } from './findModuleSpecifiers'
+
+function specifiersOf(text: string, fileName?: string) {
+  return findModuleSpecifiers(ts, text, fileName).map((s) => [s.source, s.isSideEffect, s.startLine, s.startColumn])
+}
+
+describe('findModuleSpecifiers', () => {
+  it('should find import and re-export specifiers', () => {
+    const text = ["import { a } from './a'", "export * from 'b'", "import c = require('c')"].join('\n')
+    expect(specifiersOf(text)).toEqual([
+      ['./a', false, 0, 18],
+      ['b', false, 1, 14],
+      ['c', false, 2, 19],
+    ])
+  })
+
+  it('should report exact ranges including the quotes', () => {
+    const [specifier] = findModuleSpecifiers(ts, "import x from 'mod'")
+    expect(specifier).toEqual({
+      source: 'mod',
+      isSideEffect: false,
+      startLine: 0,
+      startColumn: 14,
+      endLine: 0,
+      endColumn: 19,
+    })
+  })
+
+  it('should mark bare imports and require statements as side effects', () => {
+    const text = ["import 'polyfill'", "require('setup')", "const lib = require('lib')"].join('\n')
+    expect(specifiersOf(text)).toEqual([
+      ['polyfill', true, 0, 7],
+      ['setup', true, 1, 8],
+      ['lib', false, 2, 20],
+    ])
+  })
+
+  it('should find dynamic imports and JSDoc import tags', () => {
+    const text = ["/** @import { T } from './types' */", 'const m = import(`./lazy`)'].join('\n')
+    expect(specifiersOf(text, 'index.js')).toEqual([
+      ['./types', false, 0, 23],
+      ['./lazy', false, 1, 17],
+    ])
+  })
+
+  it('should find import type specifiers', () => {
+    expect(specifiersOf("type M = typeof import('./mod')")).toEqual([['./mod', false, 0, 23]])
+  })
+
+  it('should skip calls with non-literal arguments', () => {
+    expect(specifiersOf('require(name); import(`./` + name)')).toEqual([])
+  })
+})
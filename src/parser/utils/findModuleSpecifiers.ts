@@ -0,0 +1,50 @@
+import type { ModuleSpecifier } from '@/parser/types'
+import { getJSDocNodes } from './getJSDocNodes'
+import { getNodeRange } from './getNodeRange'
+import { getSearchNodes } from './getSearchNodes'
+
+type TypeScript = typeof import('typescript')
+type Node = import('typescript').Node
+
+export function findModuleSpecifiers(ts: TypeScript, source: string | Node, fileName = '__specifiers.ts') {
+  const { sf, nodes } = getSearchNodes(ts, source, fileName)
+  const specifiers: ModuleSpecifier[] = []
+
+  const add = (literal: Node | undefined, isSideEffect: boolean) => {
+    if (literal && (ts.isStringLiteral(literal) || ts.isNoSubstitutionTemplateLiteral(literal))) {
+      specifiers.push({ source: literal.text, isSideEffect, ...getNodeRange(sf, literal) })
+    }
+  }
+
+  const visit = (node: Node) => {
+    if (ts.isImportDeclaration(node)) {
+      add(node.moduleSpecifier, !node.importClause)
+    } else if (ts.isExportDeclaration(node)) {
+      add(node.moduleSpecifier, false)
+    } else if (ts.isJSDocImportTag?.(node)) {
+      add(node.moduleSpecifier, false)
+    } else if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument)) {
+      add(node.argument.literal, false)
+    } else if (ts.isExternalModuleReference(node)) {
+      add(node.expression, false)
+    } else if (ts.isCallExpression(node) && isImportCall(ts, node) && node.arguments.length === 1) {
+      // A bare `require('x')` statement only runs the module for its side effects
+      add(node.arguments[0], ts.isExpressionStatement(node.parent))
+    }
+
+    for (const doc of getJSDocNodes(node)) {
+      visit(doc)
+    }
+    ts.forEachChild(node, visit)
+  }
+
+  for (const node of nodes) {
+    visit(node)
+  }
+  return specifiers
+}
+
+function isImportCall(ts: TypeScript, node: import('typescript').CallExpression) {
+  const callee = node.expression
+  return callee.kind === ts.SyntaxKind.ImportKeyword || (ts.isIdentifier(callee) && callee.text === 'require')
+}
@@ -0,0 +1,214 @@
+import ts from 'typescript'
+import { describe, expect, it } from 'vitest'
+import { findSymbolUsages } from './findSymbolUsages'
+
+function usagesOf(text: string, names: string[], fileName?: string) {
+  return findSymbolUsages(ts, text, new Set(names), fileName).map((u) => [u.localName, u.startLine, u.startColumn])
+}
+
+describe('findSymbolUsages', () => {
+  it('should return empty array when no names are given', () => {
+    expect(findSymbolUsages(ts, 'foo()', new Set())).toEqual([])
+  })
+
+  it('should find usages in the file body', () => {
+    const text = ["import { foo } from 'mod'", 'foo()', 'const x = foo'].join('\n')
+    expect(usagesOf(text, ['foo'])).toEqual([
+      ['foo', 1, 0],
+      ['foo', 2, 10],
+    ])
+  })
+
+  it('should not report identifiers inside import declarations', () => {
+    expect(usagesOf("import { foo } from 'mod'", ['foo'])).toEqual([])
+  })
+
+  it('should report exact ranges', () => {
+    const [usage] = findSymbolUsages(ts, 'let a = Foo', new Set(['Foo']))
+    expect(usage).toEqual({ localName: 'Foo', startLine: 0, startColumn: 8, endLine: 0, endColumn: 11 })
+  })
+
+  it('should find usages in type positions', () => {
+    const text = 'let x: Foo<Bar> = y as Foo'
+    expect(usagesOf(text, ['Foo', 'Bar'])).toEqual([
+      ['Foo', 0, 7],
+      ['Bar', 0, 11],
+      ['Foo', 0, 23],
+    ])
+  })
+
+  it('should only report the left side of property accesses and qualified names', () => {
+    const text = ['ns.foo()', 'obj.ns', 'let x: ns.Foo', 'let y: A.ns'].join('\n')
+    expect(usagesOf(text, ['ns'])).toEqual([
+      ['ns', 0, 0],
+      ['ns', 2, 7],
+    ])
+  })
+
+  it('should skip object property keys but keep shorthand properties', () => {
+    const text = 'const o = { foo: 1, bar: foo, foo }'
+    expect(usagesOf(text, ['foo'])).toEqual([
+      ['foo', 0, 25],
+      ['foo', 0, 30],
+    ])
+  })
+
+  it('should skip class and interface member names', () => {
+    const text = ['class A { foo = 1; foo2() {} }', 'interface B { foo: string; foo2(): void }'].join('\n')
+    expect(usagesOf(text, ['foo', 'foo2'])).toEqual([])
+  })
+
+  it('should skip names shadowed by parameters', () => {
+    const text = ['function f(foo) { return foo }', 'const g = (foo) => foo', 'foo()'].join('\n')
+    expect(usagesOf(text, ['foo'])).toEqual([['foo', 2, 0]])
+  })
+
+  it('should skip names shadowed by block-scoped declarations', () => {
+    const text = ['{', '  const foo = 1', '  foo', '}', 'foo'].join('\n')
+    expect(usagesOf(text, ['foo'])).toEqual([['foo', 4, 0]])
+  })
+
+  it('should skip names shadowed by destructuring bindings', () => {
+    const text = ['function f({ a: foo }, [bar]) {', '  foo; bar', '}'].join('\n')
+    expect(usagesOf(text, ['foo', 'bar'])).toEqual([])
+  })
+
+  it('should report the default value of a destructured property key', () => {
+    expect(usagesOf('function f({ foo: x = foo }) {}', ['foo'])).toEqual([['foo', 0, 22]])
+  })
+
+  it('should skip names shadowed by hoisted var declarations', () => {
+    const text = ['function f() {', '  foo', '  if (x) { var foo = 1 }', '}'].join('\n')
+    expect(usagesOf(text, ['foo'])).toEqual([])
+  })
+
+  it('should skip names shadowed by catch clause and loop variables', () => {
+    const text = ['try {} catch (err) { err }', 'for (const item of items) { item }'].join('\n')
+    expect(usagesOf(text, ['err', 'item'])).toEqual([])
+  })
+
+  it('should skip names shadowed by type parameters', () => {
+    const text = ['function f<T>(x: T): T { return x }', 'type M = { [T in K]: T }', 'let v: T'].join('\n')
+    expect(usagesOf(text, ['T'])).toEqual([['T', 2, 7]])
+  })
+
+  it('should report namespaces referenced by import-equals declarations', () => {
+    const text = ["import * as Bar from 'bar'", 'import Foo = Bar.Baz', "import fs = require('fs')"].join('\n')
+    expect(usagesOf(text, ['Bar', 'Foo', 'fs'])).toEqual([['Bar', 1, 13]])
+  })
+
+  it('should not report the bindings of require and dynamic import declarations', () => {
+    const text = ["const { readFile } = require('fs')", 'readFile()'].join('\n')
+    expect(usagesOf(text, ['readFile'])).toEqual([['readFile', 1, 0]])
+  })
+
+  it('should limit usages of nested dynamic import bindings to their scope', () => {
+    const text = [
+      "import Chart from 'chart'",
+      'async function f() {',
+      "  const { default: Chart } = await import('chart.js')",
+      '  new Chart()',
+      '}',
+      'function g(Chart) {',
+      '  new Chart()',
+      '}',
+      'new Chart()',
+    ].join('\n')
+    const result = findSymbolUsages(ts, text, new Set(['Chart']), undefined, new Set(['Chart']))
+    expect(result.map((u) => [u.binding, u.startLine])).toEqual([
+      ["Chart (default from 'chart.js')", 3],
+      [undefined, 8],
+    ])
+  })
+
+  it('should not report nested binding names outside their scope', () => {
+    const text = ['function f() {', "  var fs = require('fs')", '  if (x) fs.read()', '}', 'fs.read()'].join('\n')
+    const result = findSymbolUsages(ts, text, new Set(), undefined, new Set(['fs']))
+    expect(result).toEqual([expect.objectContaining({ localName: 'fs', binding: "fs (* from 'fs')", startLine: 2 })])
+  })
+
+  it('should find usages in JSDoc type expressions and links', () => {
+    const text = [
+      "/** @import { Foo } from './types' */",
+      '',
+      '/**',
+      ' * @see {@link Foo.bar}',
+      ' * @param {Foo} Foo',
+      ' * @returns {Promise<Foo>}',
+      ' */',
+      'function f(x) {}',
+    ].join('\n')
+    expect(usagesOf(text, ['Foo'], 'index.js')).toEqual([
+      ['Foo', 3, 15],
+      ['Foo', 4, 11],
+      ['Foo', 5, 21],
+    ])
+  })
+
+  it('should skip JSDoc typedef names and type parameter declarations', () => {
+    const text = ['/** @typedef {Object} Foo */', 'function f<Foo>() {}'].join('\n')
+    expect(usagesOf(text, ['Foo'])).toEqual([])
+  })
+
+  it('should report local export specifiers but not re-exports', () => {
+    const text = ["export { foo, foo as bar, baz as foo } from 'x'", 'export { foo, foo as bar }'].join('\n')
+    expect(usagesOf(text, ['foo', 'bar'])).toEqual([
+      ['foo', 1, 9],
+      ['foo', 1, 14],
+    ])
+  })
+
+  it('should find JSX tag names but skip attribute names', () => {
+    const text = 'const el = <Button Button={Icon} />'
+    expect(usagesOf(text, ['Button', 'Icon'], 'test.tsx')).toEqual([
+      ['Button', 0, 12],
+      ['Icon', 0, 27],
+    ])
+  })
+
+  it('should find usages of imports nested in ambient module declarations', () => {
+    const text = [
+      "declare module 'express-serve-static-core' {",
+      "  import { User } from './user'",
+      '  interface Request { user?: User }',
+      '}',
+    ].join('\n')
+    const result = findSymbolUsages(ts, text, new Set(), 'augment.d.ts', new Set(['User']))
+    expect(result).toEqual([expect.objectContaining({ binding: "User (User from './user')", startLine: 2 })])
+  })
+
+  it('should limit usages of imports nested in module blocks to their block', () => {
+    const text = [
+      "import { User } from './models'",
+      "declare module 'express' {",
+      "  import { User } from './user'",
+      '  interface Request { user?: User }',
+      '}',
+      'declare global {',
+      '  interface Window { user: User }',
+      '}',
+    ].join('\n')
+    const result = findSymbolUsages(ts, text, new Set(['User']), 'augment.d.ts', new Set(['User']))
+    expect(result.map((u) => [u.binding, u.startLine])).toEqual([
+      ["User (User from './user')", 3],
+      [undefined, 6],
+    ])
+  })
+
+  it('should not report imports nested in module blocks outside their block', () => {
+    const text = [
+      "declare module 'express' {",
+      "  import { User } from './user'",
+      '}',
+      'declare global {',
+      '  interface Window { user: User }',
+      '}',
+    ].join('\n')
+    expect(findSymbolUsages(ts, text, new Set(), 'augment.d.ts', new Set(['User']))).toEqual([])
+  })
+
+  it('should not report import type qualifiers but keep their type arguments', () => {
+    const text = "let x: import('./models').User<User>"
+    expect(usagesOf(text, ['User'])).toEqual([['User', 0, 31]])
+  })
+})
@@ -0,0 +1,301 @@
+import type { SymbolUsage } from '@/parser/types'
+import { getImportCallBindings } from './getImportCallBindings'
+import { getImportCallSource } from './getImportCallSource'
+import { getJSDocNodes } from './getJSDocNodes'
+import { getNodeRange } from './getNodeRange'
+import { getScopedBindingKey } from './getScopedBindingKey'
+import { getSearchNodes } from './getSearchNodes'
+
+type TypeScript = typeof import('typescript')
+type Node = import('typescript').Node
+
+/**
+ * Finds references to imported names. `names` are module-level imports; `scopedNames` are `require()` / `import()`
+ * bindings declared inside functions and blocks and imports inside module blocks, whose references are only searched
+ * within their scope.
+ */
+export function findSymbolUsages(
+  ts: TypeScript,
+  source: string | Node,
+  names: ReadonlySet<string>,
+  fileName = '__usages.ts',
+  scopedNames: ReadonlySet<string> = new Set(),
+): SymbolUsage[] {
+  if (names.size === 0 && scopedNames.size === 0) {
+    return []
+  }
+
+  let searched: ReturnType<typeof getSearchNodes>
+  try {
+    searched = getSearchNodes(ts, source, fileName)
+  } catch {
+    return []
+  }
+  const { sf, nodes } = searched
+
+  const scopes = new Map<Node, ScopeDeclarations>()
+  const usages: SymbolUsage[] = []
+
+  const visit = (node: Node) => {
+    if (ts.isImportDeclaration(node) || ts.isJSDocImportTag?.(node)) {
+      return
+    }
+    if (ts.isImportEqualsDeclaration(node)) {
+      // `import Alias = Namespace.Member` may itself reference an imported namespace
+      if (!ts.isExternalModuleReference(node.moduleReference)) {
+        visit(node.moduleReference)
+      }
+      return
+    }
+    if (ts.isExportDeclaration(node) && node.moduleSpecifier) {
+      return
+    }
+    if (ts.isVariableDeclaration(node) && isImportCallBinding(ts, node)) {
+      return
+    }
+    if (ts.isImportTypeNode(node)) {
+      // The qualifier of `import('x').Foo` names a module export, not a local binding
+      for (const typeArgument of node.typeArguments ?? []) {
+        visit(typeArgument)
+      }
+      return
+    }
+
+    if (ts.isIdentifier(node) && (names.has(node.text) || scopedNames.has(node.text)) && isReference(ts, node)) {
+      const declaration = findScopeDeclaration(ts, node, scopes)
+      if (declaration?.binding) {
+        usages.push({ localName: node.text, binding: declaration.binding, ...getNodeRange(sf, node) })
+      } else if (!declaration && names.has(node.text)) {
+        usages.push({ localName: node.text, ...getNodeRange(sf, node) })
+      }
+    }
+
+    // JSDoc type expressions (`@type {Foo}`, `@param {Foo}`) and `{@link Foo}` references
+    for (const doc of getJSDocNodes(node)) {
+      visit(doc)
+    }
+    ts.forEachChild(node, visit)
+  }
+
+  for (const node of nodes) {
+    visit(node)
+  }
+  return usages
+}
+
+/** Whether the identifier refers to a binding, as opposed to a property, member or label name */
+function isReference(ts: TypeScript, node: import('typescript').Identifier) {
+  const parent = node.parent
+
+  if (ts.isPropertyAccessExpression(parent) || ts.isQualifiedName(parent)) {
+    return (ts.isPropertyAccessExpression(parent) ? parent.expression : parent.left) === node
+  }
+
+  if (ts.isJSDocMemberName(parent)) {
+    return parent.left === node
+  }
+
+  if (
+    ts.isPropertyAssignment(parent) ||
+    ts.isPropertyDeclaration(parent) ||
+    ts.isPropertySignature(parent) ||
+    ts.isMethodDeclaration(parent) ||
+    ts.isMethodSignature(parent) ||
+    ts.isGetAccessorDeclaration(parent) ||
+    ts.isSetAccessorDeclaration(parent) ||
+    ts.isEnumMember(parent) ||
+    ts.isJsxAttribute(parent) ||
+    ts.isTypeParameterDeclaration(parent) ||
+    ts.isJSDocParameterTag(parent) ||
+    ts.isJSDocPropertyTag(parent) ||
+    ts.isJSDocTypedefTag(parent) ||
+    ts.isJSDocCallbackTag(parent)
+  ) {
+    return parent.name !== node
+  }
+
+  if (ts.isBindingElement(parent)) {
+    return parent.propertyName !== node
+  }
+
+  if (ts.isExportSpecifier(parent)) {
+    return (parent.propertyName ?? parent.name) === node
+  }
+
+  if (ts.isLabeledStatement(parent) || ts.isBreakOrContinueStatement(parent)) {
+    return parent.label !== node
+  }
+
+  if (ts.isMetaProperty(parent)) {
+    return false
+  }
+
+  return true
+}
+
+/** Names declared by a scope, mapped to their binding key when they are imports */
+type ScopeDeclarations = Map<string, { binding?: string }>
+
+/** The innermost declaration of the identifier's name below the module level, if any */
+function findScopeDeclaration(
+  ts: TypeScript,
+  node: import('typescript').Identifier,
+  scopes: Map<Node, ScopeDeclarations>,
+) {
+  for (let current = node.parent; current && !ts.isSourceFile(current); current = current.parent) {
+    let declared = scopes.get(current)
+    if (!declared) {
+      declared = collectScopeDeclarations(ts, current)
+      scopes.set(current, declared)
+    }
+    const declaration = declared.get(node.text)
+    if (declaration) {
+      return declaration
+    }
+  }
+  return undefined
+}
+
+function collectScopeDeclarations(ts: TypeScript, node: Node) {
+  const declared: ScopeDeclarations = new Map()
+  const addName = (name: string) => declared.set(name, {})
+  const addBinding = (name: import('typescript').BindingName) => {
+    if (ts.isIdentifier(name)) {
+      addName(name.text)
+      return
+    }
+    for (const element of name.elements) {
+      if (!ts.isOmittedExpression(element)) {
+        addBinding(element.name)
+      }
+    }
+  }
+  const addDeclaration = (declaration: import('typescript').VariableDeclaration) => {
+    addBinding(declaration.name)
+    // Names bound by `require()` / `import()` are imports themselves, visible only in this scope
+    for (const { name, importedName, source } of getImportCallBindings(ts, declaration)) {
+      declared.set(name.text, { binding: getScopedBindingKey(name.text, importedName, source) })
+    }
+  }
+
+  if ('typeParameters' in node && Array.isArray(node.typeParameters)) {
+    for (const param of node.typeParameters as import('typescript').TypeParameterDeclaration[]) {
+      addName(param.name.text)
+    }
+  }
+
+  if (ts.isMappedTypeNode(node)) {
+    addName(node.typeParameter.name.text)
+  }
+
+  if (ts.isFunctionLike(node)) {
+    for (const param of node.parameters) {
+      addBinding(param.name)
+    }
+    if (ts.isFunctionExpression(node) && node.name) {
+      addName(node.name.text)
+    }
+    if ('body' in node && node.body && ts.isBlock(node.body)) {
+      collectHoistedVars(ts, node.body, addDeclaration)
+    }
+  }
+
+  if (ts.isClassExpression(node) && node.name) {
+    addName(node.name.text)
+  }
+
+  if (ts.isCatchClause(node) && node.variableDeclaration) {
+    addBinding(node.variableDeclaration.name)
+  }
+
+  if (ts.isForStatement(node) || ts.isForInStatement(node) || ts.isForOfStatement(node)) {
+    if (node.initializer && ts.isVariableDeclarationList(node.initializer)) {
+      for (const decl of node.initializer.declarations) {
+        addBinding(decl.name)
+      }
+    }
+  }
+
+  if (ts.isBlock(node) || ts.isModuleBlock(node) || ts.isCaseClause(node) || ts.isDefaultClause(node)) {
+    for (const statement of node.statements) {
+      if (ts.isImportDeclaration(statement) || ts.isImportEqualsDeclaration(statement)) {
+        // Imports inside `declare module 'x' { }`, `declare global { }` and namespaces are visible only in this block
+        for (const { name, importedName, source } of getImportDeclarationBindings(ts, statement)) {
+          declared.set(name, { binding: getScopedBindingKey(name, importedName, source) })
+        }
+      } else if (ts.isVariableStatement(statement)) {
+        for (const decl of statement.declarationList.declarations) {
+          addDeclaration(decl)
+        }
+      } else if (
+        (ts.isFunctionDeclaration(statement) ||
+          ts.isClassDeclaration(statement) ||
+          ts.isEnumDeclaration(statement) ||
+          ts.isInterfaceDeclaration(statement) ||
+          ts.isTypeAliasDeclaration(statement)) &&
+        statement.name
+      ) {
+        addName(statement.name.text)
+      } else if (ts.isModuleDeclaration(statement) && ts.isIdentifier(statement.name)) {
+        addName(statement.name.text)
+      }
+    }
+  }
+
+  return declared
+}
+
+function collectHoistedVars(
+  ts: TypeScript,
+  node: Node,
+  addDeclaration: (declaration: import('typescript').VariableDeclaration) => void,
+) {
+  ts.forEachChild(node, (child) => {
+    if (ts.isFunctionLike(child) || ts.isClassLike(child)) {
+      return
+    }
+    if (ts.isVariableDeclarationList(child) && !(child.flags & ts.NodeFlags.BlockScoped)) {
+      for (const decl of child.declarations) {
+        addDeclaration(decl)
+      }
+    }
+    collectHoistedVars(ts, child, addDeclaration)
+  })
+}
+
+/** Names bound by an import declaration, keyed the way `parseImportDeclarations` keys them */
+function getImportDeclarationBindings(
+  ts: TypeScript,
+  statement: import('typescript').ImportDeclaration | import('typescript').ImportEqualsDeclaration,
+) {
+  if (ts.isImportEqualsDeclaration(statement)) {
+    const reference = statement.moduleReference
+    if (!ts.isExternalModuleReference(reference)) {
+      return [{ name: statement.name.text, importedName: reference.getText(), source: '' }]
+    }
+    return ts.isStringLiteral(reference.expression)
+      ? [{ name: statement.name.text, importedName: '*', source: reference.expression.text }]
+      : []
+  }
+
+  const clause = statement.importClause
+  if (!clause || !ts.isStringLiteral(statement.moduleSpecifier)) {
+    return []
+  }
+
+  const source = statement.moduleSpecifier.text
+  const bindings = clause.name ? [{ name: clause.name.text, importedName: clause.name.text, source }] : []
+  const named = clause.namedBindings
+  if (named && ts.isNamespaceImport(named)) {
+    bindings.push({ name: named.name.text, importedName: '*', source })
+  } else if (named) {
+    for (const element of named.elements) {
+      bindings.push({ name: element.name.text, importedName: (element.propertyName ?? element.name).text, source })
+    }
+  }
+  return bindings
+}
+
+function isImportCallBinding(ts: TypeScript, declaration: import('typescript').VariableDeclaration) {
+  return getImportCallSource(ts, declaration.initializer) !== undefined
+}
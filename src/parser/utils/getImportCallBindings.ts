@@ -0,0 +1,48 @@
+import { getImportCallSource } from './getImportCallSource'
+
+type TypeScript = typeof import('typescript')
+type Identifier = import('typescript').Identifier
+type VariableDeclaration = import('typescript').VariableDeclaration
+
+export interface ImportCallBinding {
+  /** Local binding name */
+  name: Identifier
+  /** Destructured property name, '*' when the whole module is bound */
+  importedName: string
+  /** Module specifier */
+  source: string
+}
+
+/**
+ * Returns the names bound by `const x = require('x')`, `const { a, b: c } = require('x')` and the same with
+ * `await import('x')`. Rest elements and computed property names are skipped.
+ */
+export function getImportCallBindings(ts: TypeScript, declaration: VariableDeclaration): ImportCallBinding[] {
+  const source = getImportCallSource(ts, declaration.initializer)
+  if (source === undefined) {
+    return []
+  }
+
+  const name = declaration.name
+  if (ts.isIdentifier(name)) {
+    return [{ name, importedName: '*', source }]
+  }
+
+  if (!ts.isObjectBindingPattern(name)) {
+    return []
+  }
+
+  const bindings: ImportCallBinding[] = []
+  for (const element of name.elements) {
+    const propertyName = element.propertyName
+    if (
+      element.dotDotDotToken ||
+      !ts.isIdentifier(element.name) ||
+      (propertyName && ts.isComputedPropertyName(propertyName))
+    ) {
+      continue
+    }
+    bindings.push({ name: element.name, importedName: propertyName ? propertyName.text : element.name.text, source })
+  }
+  return bindings
+}
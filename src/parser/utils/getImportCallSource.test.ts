@@ -0,0 +1,43 @@
+import ts from 'typescript'
+import { describe, expect, it } from 'vitest'
+import { getImportCallSource } from './getImportCallSource'
+
+function sourceOf(expression: string) {
+  const sf = ts.createSourceFile('test.ts', `const x = ${expression}`, ts.ScriptTarget.Latest, true)
+  const statement = sf.statements[0] as import('typescript').VariableStatement
+  return getImportCallSource(ts, statement.declarationList.declarations[0].initializer)
+}
+
+describe('getImportCallSource', () => {
+  it('should return the specifier of a require call', () => {
+    expect(sourceOf("require('fs')")).toBe('fs')
+  })
+
+  it('should return the specifier of an awaited dynamic import', () => {
+    expect(sourceOf("await import('chart.js')")).toBe('chart.js')
+  })
+
+  it('should look through parentheses', () => {
+    expect(sourceOf("(await import('./mod'))")).toBe('./mod')
+    expect(sourceOf("(require('./mod'))")).toBe('./mod')
+  })
+
+  it('should accept template literals without substitutions', () => {
+    expect(sourceOf('require(`fs`)')).toBe('fs')
+  })
+
+  it('should return undefined for non-literal specifiers', () => {
+    expect(sourceOf('require(name)')).toBeUndefined()
+    expect(sourceOf("import('./' + name)")).toBeUndefined()
+  })
+
+  it('should return undefined for other calls and member accesses', () => {
+    expect(sourceOf("load('fs')")).toBeUndefined()
+    expect(sourceOf("require('fs').readFile")).toBeUndefined()
+    expect(sourceOf("import('./mod').then((m) => m)")).toBeUndefined()
+  })
+
+  it('should return undefined when there is no initializer', () => {
+    expect(getImportCallSource(ts, undefined)).toBeUndefined()
+  })
+})
@@ -0,0 +1,31 @@
+type TypeScript = typeof import('typescript')
+type Expression = import('typescript').Expression
+
+/**
+ * Returns the module specifier of a `require('x')` or `import('x')` call, looking through
+ * `await` and parentheses, or `undefined` if the expression is not such a call.
+ */
+export function getImportCallSource(ts: TypeScript, expression: Expression | undefined): string | undefined {
+  let current = expression
+  while (current && (ts.isAwaitExpression(current) || ts.isParenthesizedExpression(current))) {
+    current = current.expression
+  }
+
+  if (!current || !ts.isCallExpression(current) || current.arguments.length !== 1) {
+    return undefined
+  }
+
+  const callee = current.expression
+  const isImportCall = callee.kind === ts.SyntaxKind.ImportKeyword
+  const isRequireCall = ts.isIdentifier(callee) && callee.text === 'require'
+  if (!isImportCall && !isRequireCall) {
+    return undefined
+  }
+
+  const [argument] = current.arguments
+  if (!ts.isStringLiteral(argument) && !ts.isNoSubstitutionTemplateLiteral(argument)) {
+    return undefined
+  }
+
+  return argument.text
+}
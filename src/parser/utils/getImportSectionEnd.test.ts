@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import type { ImportStatement } from '@/parser/types'
+import { getImportSectionEnd } from './getImportSectionEnd'
+
+function stmt(endLine: number): ImportStatement {
+  return {
+    localName: 'x',
+    importedName: 'x',
+    source: 'mod',
+    kind: 'named',
+    isTypeOnly: false,
+    startLine: endLine,
+    startColumn: 0,
+    endLine,
+    endColumn: 1,
+  }
+}
+
+describe('getImportSectionEnd', () => {
+  const text = ["import a from 'a'", "import b from 'b'", '', 'a(b)'].join('\n')
+
+  it('should return 0 when there are no statements', () => {
+    expect(getImportSectionEnd(text, [])).toBe(0)
+  })
+
+  it('should return the end of the line holding the last statement', () => {
+    expect(getImportSectionEnd(text, [stmt(1), stmt(0)])).toBe(35)
+    expect(text.slice(0, 35)).toBe("import a from 'a'\nimport b from 'b'")
+  })
+
+  it('should return the text length when the last statement is on the last line', () => {
+    expect(getImportSectionEnd(text, [stmt(3)])).toBe(text.length)
+  })
+
+  it('should ignore bindings nested in functions and blocks', () => {
+    expect(getImportSectionEnd(text, [stmt(0), { ...stmt(3), binding: "x (x from 'mod')" }])).toBe(17)
+  })
+})
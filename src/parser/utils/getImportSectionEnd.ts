@@ -0,0 +1,23 @@
+import type { ImportStatement } from '@/parser/types'
+
+/**
+ * Offset of the end of the line holding the last module-level import statement, or 0 when there are none.
+ * `require()` / `import()` bindings inside functions and blocks and imports inside module blocks are not part of the
+ * import section.
+ */
+export function getImportSectionEnd(text: string, statements: readonly ImportStatement[]) {
+  const moduleLevel = statements.filter((s) => !s.binding)
+  if (moduleLevel.length === 0) {
+    return 0
+  }
+
+  const lastLine = Math.max(...moduleLevel.map((s) => s.endLine))
+  let offset = -1
+  for (let line = 0; line <= lastLine; line++) {
+    offset = text.indexOf('\n', offset + 1)
+    if (offset === -1) {
+      return text.length
+    }
+  }
+  return offset
+}
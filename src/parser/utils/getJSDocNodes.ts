@@ -0,0 +1,7 @@
+type Node = import('typescript').Node
+type JSDoc = import('typescript').JSDoc
+
+/** JSDoc comments attached to a node; `ts.forEachChild` does not descend into them */
+export function getJSDocNodes(node: Node): readonly JSDoc[] {
+  return (node as Node & { jsDoc?: JSDoc[] }).jsDoc ?? []
+}
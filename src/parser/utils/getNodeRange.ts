@@ -0,0 +1,10 @@
+import type { SourceRange } from '@/parser/types'
+
+type Node = import('typescript').Node
+type SourceFile = import('typescript').SourceFile
+
+export function getNodeRange(sf: SourceFile, node: Node): SourceRange {
+  const start = sf.getLineAndCharacterOfPosition(node.getStart(sf))
+  const end = sf.getLineAndCharacterOfPosition(node.getEnd())
+  return { startLine: start.line, startColumn: start.character, endLine: end.line, endColumn: end.character }
+}
@@ -0,0 +1,7 @@
+/**
+ * Key of a `require()` / `import()` binding declared inside a function or block, or of an import inside a module block.
+ * Equal keys bind the same module export under the same name, so such bindings in different scopes share one symbol.
+ */
+export function getScopedBindingKey(localName: string, importedName: string, source: string) {
+  return `${localName} (${importedName} from '${source}')`
+}
@@ -0,0 +1,18 @@
+import { getTopLevelNodes } from './getTopLevelNodes'
+
+type TypeScript = typeof import('typescript')
+type Node = import('typescript').Node
+
+/**
+ * Returns the source file of a script, parsing it when given as text, and the nodes to search: the top-level nodes
+ * of a whole file, or only the given node, such as one statement of an incrementally updated file.
+ */
+export function getSearchNodes(ts: TypeScript, source: string | Node, fileName: string) {
+  if (typeof source === 'string') {
+    const sf = ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true)
+    return { sf, nodes: getTopLevelNodes(sf) }
+  }
+
+  const sf = source.getSourceFile()
+  return { sf, nodes: ts.isSourceFile(source) ? getTopLevelNodes(sf) : [source] }
+}
@@ -0,0 +1,6 @@
+type SourceFile = import('typescript').SourceFile
+
+/** Top-level statements of a file, followed by the end-of-file token that holds trailing JSDoc comments */
+export function getTopLevelNodes(sf: SourceFile): import('typescript').Node[] {
+  return [...sf.statements, sf.endOfFileToken]
+}
@@ -0,0 +1,12 @@
+import type { ScriptRegion, SourceRange } from '@/parser/types'
+
+/** Maps a range relative to a script region back to document coordinates */
+export function mapRegionRange<T extends SourceRange>(range: T, region: ScriptRegion): T {
+  return {
+    ...range,
+    startLine: range.startLine + region.startLine,
+    startColumn: range.startLine === 0 ? range.startColumn + region.startColumn : range.startColumn,
+    endLine: range.endLine + region.startLine,
+    endColumn: range.endLine === 0 ? range.endColumn + region.startColumn : range.endColumn,
+  }
+}
@@ -0,0 +1,215 @@
+import ts from 'typescript'
+import { describe, expect, it } from 'vitest'
+import { parseImportDeclarations } from './parseImportDeclarations'
+
+describe('parseImportDeclarations', () => {
+  it('should parse imports after directives and license headers', () => {
+    const text = `/**
+ * Copyright (c) Example
+ */
+'use client'
+
+import { useState } from 'react'`
+    const result = parseImportDeclarations(ts, text)
+    expect(result).toHaveLength(1)
+    expect(result[0]).toMatchObject({ localName: 'useState', startLine: 5, startColumn: 9 })
+  })
+
+  it('should parse imports placed after code', () => {
+    const text = `import { vi } from 'vitest'
+
+vi.mock('./foo')
+
+import { foo } from './foo'`
+    const result = parseImportDeclarations(ts, text)
+    expect(result.map((s) => s.localName)).toEqual(['vi', 'foo'])
+    expect(result[1]).toMatchObject({ source: './foo', startLine: 4 })
+  })
+
+  it('should ignore comments inside braces', () => {
+    const text = `import {
+  // the hook
+  useState, /* inline, comment */ useEffect,
+} from 'react'`
+    const result = parseImportDeclarations(ts, text)
+    expect(result.map((s) => s.localName)).toEqual(['useState', 'useEffect'])
+  })
+
+  it('should point at the local name even when it appears earlier on the line', () => {
+    const result = parseImportDeclarations(ts, "import { bar as foo, foo as bar } from 'mod'")
+    expect(result[0]).toMatchObject({ localName: 'foo', importedName: 'bar', startColumn: 16, endColumn: 19 })
+    expect(result[1]).toMatchObject({ localName: 'bar', importedName: 'foo', startColumn: 28, endColumn: 31 })
+  })
+
+  it('should mark every binding of a type-only import as type-only', () => {
+    const result = parseImportDeclarations(ts, "import type Foo, { Bar } from 'mod'")
+    expect(result).toEqual([
+      expect.objectContaining({ localName: 'Foo', kind: 'default', isTypeOnly: true }),
+      expect.objectContaining({ localName: 'Bar', kind: 'named', isTypeOnly: true }),
+    ])
+  })
+
+  it('should use string literal import names as importedName', () => {
+    const result = parseImportDeclarations(ts, "import { 'a-b' as ab } from 'mod'")
+    expect(result[0]).toMatchObject({ localName: 'ab', importedName: 'a-b' })
+  })
+
+  it('should parse import-equals require declarations', () => {
+    const result = parseImportDeclarations(ts, "import fs = require('fs')")
+    expect(result).toEqual([
+      {
+        localName: 'fs',
+        importedName: '*',
+        source: 'fs',
+        kind: 'equals',
+        isTypeOnly: false,
+        startLine: 0,
+        startColumn: 7,
+        endLine: 0,
+        endColumn: 9,
+      },
+    ])
+  })
+
+  it('should parse import-equals entity name declarations', () => {
+    const result = parseImportDeclarations(ts, 'import type Foo = Bar.Baz')
+    expect(result[0]).toMatchObject({
+      localName: 'Foo',
+      importedName: 'Bar.Baz',
+      source: '',
+      kind: 'equals',
+      isTypeOnly: true,
+    })
+  })
+
+  it('should parse CommonJS require bindings', () => {
+    const text = "const fs = require('fs')\nconst { readFile, writeFile: write, ...rest } = require('fs/promises')"
+    const result = parseImportDeclarations(ts, text)
+    expect(result).toEqual([
+      expect.objectContaining({ localName: 'fs', importedName: '*', source: 'fs', kind: 'namespace' }),
+      expect.objectContaining({ localName: 'readFile', importedName: 'readFile', kind: 'named', startLine: 1 }),
+      expect.objectContaining({ localName: 'write', importedName: 'writeFile', kind: 'named', startColumn: 29 }),
+    ])
+  })
+
+  it('should key dynamic import bindings nested in functions by their binding', () => {
+    const text = `async function load() {
+  const { default: Chart, registerables } = await import('chart.js')
+}`
+    const result = parseImportDeclarations(ts, text)
+    expect(result).toEqual([
+      expect.objectContaining({
+        localName: 'Chart',
+        importedName: 'default',
+        source: 'chart.js',
+        kind: 'default',
+        binding: "Chart (default from 'chart.js')",
+      }),
+      expect.objectContaining({ localName: 'registerables', kind: 'named', startLine: 1, startColumn: 26 }),
+    ])
+  })
+
+  it('should not key module-level require bindings', () => {
+    expect(parseImportDeclarations(ts, "const fs = require('fs')")[0]).not.toHaveProperty('binding')
+  })
+
+  it('should ignore variables initialized with other calls', () => {
+    expect(parseImportDeclarations(ts, "const x = load('fs')\nconst { a } = obj")).toEqual([])
+  })
+
+  it('should parse JSDoc @import tags as type-only imports', () => {
+    const text = `/** @import { Foo, Bar as Baz } from './types' */
+/** @import * as ns from 'ns' */
+
+/** @type {Foo} */
+let x`
+    const result = parseImportDeclarations(ts, text, 'index.js')
+    expect(result).toEqual([
+      expect.objectContaining({
+        localName: 'Foo',
+        source: './types',
+        kind: 'named',
+        isTypeOnly: true,
+        startColumn: 14,
+      }),
+      expect.objectContaining({ localName: 'Baz', importedName: 'Bar', kind: 'named', isTypeOnly: true }),
+      expect.objectContaining({
+        localName: 'ns',
+        importedName: '*',
+        kind: 'namespace',
+        isTypeOnly: true,
+        startLine: 1,
+      }),
+    ])
+  })
+
+  it('should skip side-effect imports', () => {
+    expect(parseImportDeclarations(ts, "import './styles.css'")).toEqual([])
+  })
+
+  it('should parse JSX files when given a .tsx file name', () => {
+    const text = `import { Button } from './button'
+
+export const App = () => <Button />`
+    expect(parseImportDeclarations(ts, text, 'app.tsx')).toHaveLength(1)
+  })
+
+  it('should parse imports nested in ambient module declarations and global augmentations', () => {
+    const text = `import 'express'
+
+declare module 'express-serve-static-core' {
+  import { User } from './user'
+  import type * as Models from './models'
+  export { Session } from './session'
+
+  interface Request {
+    user?: User
+  }
+}
+
+declare global {
+  import Config = require('./config')
+}`
+    const result = parseImportDeclarations(ts, text, 'augment.d.ts')
+    expect(result.map((s) => [s.localName, s.kind, s.isTypeOnly, s.startLine])).toEqual([
+      ['User', 'named', false, 3],
+      ['Models', 'namespace', true, 4],
+      ['Session', 'reexport', false, 5],
+      ['Config', 'equals', false, 13],
+    ])
+  })
+
+  it('should key imports nested in module blocks by their binding', () => {
+    const text = `import { User } from './models'
+
+declare module 'express-serve-static-core' {
+  import { User } from './user'
+  import type * as Models from './models'
+  export { Session } from './session'
+}
+
+declare global {
+  import Config = require('./config')
+}`
+    const result = parseImportDeclarations(ts, text, 'augment.d.ts')
+    expect(result.map((s) => [s.localName, s.binding])).toEqual([
+      ['User', undefined],
+      ['User', "User (User from './user')"],
+      ['Models', "Models (* from './models')"],
+      ['Session', undefined],
+      ['Config', "Config (* from './config')"],
+    ])
+  })
+
+  it('should parse import aliases inside namespaces', () => {
+    const result = parseImportDeclarations(ts, 'namespace App {\n  import Util = Lib.Util\n}')
+    expect(result).toEqual([
+      expect.objectContaining({
+        localName: 'Util',
+        importedName: 'Lib.Util',
+        binding: "Util (Lib.Util from '')",
+        startLine: 1,
+      }),
+    ])
+  })
+})
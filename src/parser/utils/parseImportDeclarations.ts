@@ -0,0 +1,194 @@
+import type { ImportStatement } from '@/parser/types'
+import { getImportCallBindings } from './getImportCallBindings'
+import { getJSDocNodes } from './getJSDocNodes'
+import { getNodeRange } from './getNodeRange'
+import { getScopedBindingKey } from './getScopedBindingKey'
+
+type TypeScript = typeof import('typescript')
+type Node = import('typescript').Node
+type SourceFile = import('typescript').SourceFile
+
+export function parseImportDeclarations(ts: TypeScript, source: string | SourceFile, fileName = '__imports.ts') {
+  const sf = typeof source === 'string' ? ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true) : source
+  const statements: ImportStatement[] = []
+
+  const visit = (node: Node) => {
+    // Module-level statements also appear inside `declare module 'x' { }`, `declare global { }` and namespaces, whose
+    // imports are only visible in their block
+    const isModuleLevel = node.parent === sf || ts.isModuleBlock(node.parent)
+    const scoped = node.parent !== sf
+
+    if (isModuleLevel && ts.isImportEqualsDeclaration(node)) {
+      parseImportEquals(ts, sf, node, statements, scoped)
+    } else if (isModuleLevel && ts.isImportDeclaration(node)) {
+      parseImportDeclaration(ts, sf, node, statements, scoped)
+    } else if (isModuleLevel && ts.isExportDeclaration(node)) {
+      parseReExport(ts, sf, node, statements)
+    } else if (ts.isVariableDeclaration(node)) {
+      parseImportCallBinding(ts, sf, node, statements)
+    } else if (ts.isJSDocImportTag?.(node)) {
+      parseImportDeclaration(ts, sf, node, statements, false)
+    }
+
+    for (const doc of getJSDocNodes(node)) {
+      visit(doc)
+    }
+    ts.forEachChild(node, visit)
+  }
+
+  ts.forEachChild(sf, visit)
+  return statements
+}
+
+/** `import ... from 'x'` declarations and JSDoc `@import ... from 'x'` tags, which only import types */
+function parseImportDeclaration(
+  ts: TypeScript,
+  sf: SourceFile,
+  statement: import('typescript').ImportDeclaration | import('typescript').JSDocImportTag,
+  statements: ImportStatement[],
+  scoped: boolean,
+) {
+  const clause = statement.importClause
+  if (!clause || !ts.isStringLiteral(statement.moduleSpecifier)) {
+    return
+  }
+
+  const source = statement.moduleSpecifier.text
+  const isTypeOnly = clause.isTypeOnly || !!ts.isJSDocImportTag?.(statement)
+
+  if (clause.name) {
+    statements.push({
+      localName: clause.name.text,
+      importedName: clause.name.text,
+      source,
+      kind: 'default',
+      isTypeOnly,
+      ...(scoped ? { binding: getScopedBindingKey(clause.name.text, clause.name.text, source) } : {}),
+      ...getNodeRange(sf, clause.name),
+    })
+  }
+
+  const bindings = clause.namedBindings
+  if (!bindings) {
+    return
+  }
+
+  if (ts.isNamespaceImport(bindings)) {
+    statements.push({
+      localName: bindings.name.text,
+      importedName: '*',
+      source,
+      kind: 'namespace',
+      isTypeOnly,
+      ...(scoped ? { binding: getScopedBindingKey(bindings.name.text, '*', source) } : {}),
+      ...getNodeRange(sf, bindings.name),
+    })
+    return
+  }
+
+  for (const element of bindings.elements) {
+    const importedName = (element.propertyName ?? element.name).text
+    statements.push({
+      localName: element.name.text,
+      importedName,
+      source,
+      kind: 'named',
+      isTypeOnly: isTypeOnly || element.isTypeOnly,
+      ...(scoped ? { binding: getScopedBindingKey(element.name.text, importedName, source) } : {}),
+      ...getNodeRange(sf, element.name),
+    })
+  }
+}
+
+function parseImportEquals(
+  ts: TypeScript,
+  sf: SourceFile,
+  statement: import('typescript').ImportEqualsDeclaration,
+  statements: ImportStatement[],
+  scoped: boolean,
+) {
+  const reference = statement.moduleReference
+  let importedName = '*'
+  let source = ''
+
+  if (ts.isExternalModuleReference(reference)) {
+    if (!ts.isStringLiteral(reference.expression)) {
+      return
+    }
+    source = reference.expression.text
+  } else {
+    importedName = reference.getText(sf)
+  }
+
+  statements.push({
+    localName: statement.name.text,
+    importedName,
+    source,
+    kind: 'equals',
+    isTypeOnly: statement.isTypeOnly,
+    ...(scoped ? { binding: getScopedBindingKey(statement.name.text, importedName, source) } : {}),
+    ...getNodeRange(sf, statement.name),
+  })
+}
+
+function parseReExport(
+  ts: TypeScript,
+  sf: SourceFile,
+  statement: import('typescript').ExportDeclaration,
+  statements: ImportStatement[],
+) {
+  const clause = statement.exportClause
+  if (!clause || !statement.moduleSpecifier || !ts.isStringLiteral(statement.moduleSpecifier)) {
+    return
+  }
+
+  const source = statement.moduleSpecifier.text
+
+  if (ts.isNamespaceExport(clause)) {
+    statements.push({
+      localName: clause.name.text,
+      importedName: '*',
+      source,
+      kind: 'reexport',
+      isTypeOnly: statement.isTypeOnly,
+      ...getNodeRange(sf, clause.name),
+    })
+    return
+  }
+
+  for (const element of clause.elements) {
+    statements.push({
+      localName: element.name.text,
+      importedName: (element.propertyName ?? element.name).text,
+      source,
+      kind: 'reexport',
+      isTypeOnly: statement.isTypeOnly || element.isTypeOnly,
+      ...getNodeRange(sf, element.name),
+    })
+  }
+}
+
+/**
+ * `const x = require('x')`, `const { a, b: c } = require('x')` and the same with `await import('x')`. Bindings
+ * inside functions and blocks are only visible in their scope, so they get a key of their own.
+ */
+function parseImportCallBinding(
+  ts: TypeScript,
+  sf: SourceFile,
+  declaration: import('typescript').VariableDeclaration,
+  statements: ImportStatement[],
+) {
+  const isModuleLevel = ts.isVariableStatement(declaration.parent.parent) && declaration.parent.parent.parent === sf
+
+  for (const { name, importedName, source } of getImportCallBindings(ts, declaration)) {
+    statements.push({
+      localName: name.text,
+      importedName,
+      source,
+      kind: importedName === '*' ? 'namespace' : importedName === 'default' ? 'default' : 'named',
+      isTypeOnly: false,
+      ...(isModuleLevel ? {} : { binding: getScopedBindingKey(name.text, importedName, source) }),
+      ...getNodeRange(sf, name),
+    })
+  }
+}
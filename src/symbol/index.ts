@@ -1,3 +1,3 @@
 export { TypeScriptServerNotLoadedError } from './errors'
 export { HoverSymbolResolver, PluginSymbolResolver, SemanticTokenSymbolResolver } from './resolvers'
-export { BaseSymbolResolver, SymbolConfidence, SymbolKind } from './types'
+export { BaseSymbolResolver, type ResolvedSymbol, SymbolConfidence, SymbolKind } from './types'
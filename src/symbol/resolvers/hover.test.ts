@@ -60,7 +60,7 @@ describe('HoverSymbolResolver', () => {
           { contents: [new vscode.MarkdownString(`(alias) ${alias} Foo`)] } as vscode.Hover,
         ])
         const result = await resolver.resolve(createMockDocument(), createMockPosition())
-        expect(result).toBe(expected)
+        expect(result).toEqual({ kind: expected })
       })
     }
 
@@ -72,7 +72,7 @@ describe('HoverSymbolResolver', () => {
           { contents: [new vscode.MarkdownString(`(alias) ${alias} Foo`)] } as vscode.Hover,
         ])
         const result = await resolver.resolve(createMockDocument(), createMockPosition())
-        expect(result).toBe(SymbolKind.Variable)
+        expect(result).toEqual({ kind: SymbolKind.Variable })
       })
     }
 
@@ -81,7 +81,7 @@ describe('HoverSymbolResolver', () => {
         { contents: [new vscode.MarkdownString('(alias) module Foo')] } as vscode.Hover,
       ])
       const result = await resolver.resolve(createMockDocument(), createMockPosition())
-      expect(result).toBe(SymbolKind.Namespace)
+      expect(result).toEqual({ kind: SymbolKind.Namespace })
     })
   })
 
@@ -100,7 +100,7 @@ describe('HoverSymbolResolver', () => {
       } as vscode.Hover,
     ])
     const result = await resolver.resolve(createMockDocument(), createMockPosition())
-    expect(result).toBe(SymbolKind.Class)
+    expect(result).toEqual({ kind: SymbolKind.Class })
   })
 
   it('should check all hovers until finding a match', async () => {
@@ -109,7 +109,7 @@ describe('HoverSymbolResolver', () => {
       { contents: [new vscode.MarkdownString('(alias) interface IFoo')] } as vscode.Hover,
     ])
     const result = await resolver.resolve(createMockDocument(), createMockPosition())
-    expect(result).toBe(SymbolKind.Interface)
+    expect(result).toEqual({ kind: SymbolKind.Interface })
   })
 
   it('should call getHovers with correct arguments', async () => {
@@ -126,7 +126,7 @@ describe('HoverSymbolResolver', () => {
       { contents: [{ language: 'typescript', value: '(alias) function foo(): void' }] } as vscode.Hover,
     ])
     const result = await resolver.resolve(createMockDocument(), createMockPosition())
-    expect(result).toBe(SymbolKind.Function)
+    expect(result).toEqual({ kind: SymbolKind.Function })
   })
 
   it('should handle plain string content', async () => {
@@ -134,7 +134,7 @@ describe('HoverSymbolResolver', () => {
       { contents: ['(alias) const X: number'] } as unknown as vscode.Hover,
     ])
     const result = await resolver.resolve(createMockDocument(), createMockPosition())
-    expect(result).toBe(SymbolKind.Variable)
+    expect(result).toEqual({ kind: SymbolKind.Variable })
   })
 
   describe('const function type detection', () => {
@@ -153,7 +153,7 @@ describe('HoverSymbolResolver', () => {
           { contents: [new vscode.MarkdownString(`(alias) const foo: ${typeText}`)] } as vscode.Hover,
         ])
         const result = await resolver.resolve(createMockDocument(), createMockPosition())
-        expect(result).toBe(SymbolKind.Function)
+        expect(result).toEqual({ kind: SymbolKind.Function })
       })
     }
 
@@ -162,7 +162,7 @@ describe('HoverSymbolResolver', () => {
         { contents: [new vscode.MarkdownString('(alias) let handler: () => void')] } as vscode.Hover,
       ])
       const result = await resolver.resolve(createMockDocument(), createMockPosition())
-      expect(result).toBe(SymbolKind.Function)
+      expect(result).toEqual({ kind: SymbolKind.Function })
     })
 
     it('should resolve var with function type to Function', async () => {
@@ -170,7 +170,7 @@ describe('HoverSymbolResolver', () => {
         { contents: [new vscode.MarkdownString('(alias) var handler: () => void')] } as vscode.Hover,
       ])
       const result = await resolver.resolve(createMockDocument(), createMockPosition())
-      expect(result).toBe(SymbolKind.Function)
+      expect(result).toEqual({ kind: SymbolKind.Function })
     })
 
     const nonFunctionTypes: Array<[string, string]> = [
@@ -186,7 +186,7 @@ describe('HoverSymbolResolver', () => {
           { contents: [new vscode.MarkdownString(`(alias) const foo: ${typeText}`)] } as vscode.Hover,
         ])
         const result = await resolver.resolve(createMockDocument(), createMockPosition())
-        expect(result).toBe(SymbolKind.Variable)
+        expect(result).toEqual({ kind: SymbolKind.Variable })
       })
     }
 
@@ -211,7 +211,7 @@ describe('HoverSymbolResolver', () => {
         { contents: [new vscode.MarkdownString('(alias) const FOO')] } as vscode.Hover,
       ])
       const result = await resolver.resolve(createMockDocument(), createMockPosition())
-      expect(result).toBe(SymbolKind.Variable)
+      expect(result).toEqual({ kind: SymbolKind.Variable })
     })
   })
 
@@ -13,6 +13,11 @@ export class HoverSymbolResolver extends BaseSymbolResolver {
   readonly name = 'hover'
 
   async resolve(document: vscode.TextDocument, position: vscode.Position) {
+    const kind = await this.resolveKind(document, position)
+    return kind ? { kind } : undefined
+  }
+
+  private async resolveKind(document: vscode.TextDocument, position: vscode.Position) {
     const hovers = await this.languageService.getHovers(document.uri, position)
     if (hovers.length === 0) {
       return undefined
@@ -92,7 +92,7 @@ describe('PluginSymbolResolver', () => {
     )
 
     const result = await resolver.resolve(createMockDocument(), createMockPosition())
-    expect(result).toBe(SymbolKind.Function)
+    expect(result).toEqual({ kind: SymbolKind.Function })
   })
 
   it('should return Class when isClass is true', async () => {
@@ -102,7 +102,7 @@ describe('PluginSymbolResolver', () => {
     )
 
     const result = await resolver.resolve(createMockDocument(), createMockPosition())
-    expect(result).toBe(SymbolKind.Class)
+    expect(result).toEqual({ kind: SymbolKind.Class })
   })
 
   it('should return Interface when isInterface is true', async () => {
@@ -112,7 +112,7 @@ describe('PluginSymbolResolver', () => {
     )
 
     const result = await resolver.resolve(createMockDocument(), createMockPosition())
-    expect(result).toBe(SymbolKind.Interface)
+    expect(result).toEqual({ kind: SymbolKind.Interface })
   })
 
   it('should return Type when isType is true', async () => {
@@ -122,7 +122,7 @@ describe('PluginSymbolResolver', () => {
     )
 
     const result = await resolver.resolve(createMockDocument(), createMockPosition())
-    expect(result).toBe(SymbolKind.Type)
+    expect(result).toEqual({ kind: SymbolKind.Type })
   })
 
   it('should return Enum when isEnum is true', async () => {
@@ -132,7 +132,7 @@ describe('PluginSymbolResolver', () => {
     )
 
     const result = await resolver.resolve(createMockDocument(), createMockPosition())
-    expect(result).toBe(SymbolKind.Enum)
+    expect(result).toEqual({ kind: SymbolKind.Enum })
   })
 
   it('should return Namespace when isNamespace is true', async () => {
@@ -142,7 +142,7 @@ describe('PluginSymbolResolver', () => {
     )
 
     const result = await resolver.resolve(createMockDocument(), createMockPosition())
-    expect(result).toBe(SymbolKind.Namespace)
+    expect(result).toEqual({ kind: SymbolKind.Namespace })
   })
 
   it('should return Variable when isVariable is true', async () => {
@@ -152,7 +152,7 @@ describe('PluginSymbolResolver', () => {
     )
 
     const result = await resolver.resolve(createMockDocument(), createMockPosition())
-    expect(result).toBe(SymbolKind.Variable)
+    expect(result).toEqual({ kind: SymbolKind.Variable })
   })
 
   it('should throw TypeScriptServerNotLoadedError when plugin reports not ready', async () => {
@@ -204,13 +204,19 @@ describe('PluginSymbolResolver', () => {
     ['file:///node_modules/pkg/index.js', '.js'],
     ['file:///node_modules/pkg/index.mjs', '.mjs'],
     ['file:///node_modules/pkg/index.cjs', '.cjs'],
-  ])('should return undefined for JS target %s without calling completionInfo', async (uri) => {
+    ['file:///src/component.jsx', '.jsx'],
+  ])('should resolve JS target %s through completionInfo', async (uri) => {
     vi.mocked(languageService.getDefinition).mockResolvedValue(createDefinitionResult(uri))
+    vi.mocked(languageService.requestCompletionInfo).mockResolvedValue(
+      createCompletionInfoWithResponse({ id: 'resolve', ...ALL_FALSE, isFunction: true }),
+    )
 
     const result = await resolver.resolve(createMockDocument(), createMockPosition())
 
-    expect(result).toBeUndefined()
-    expect(languageService.requestCompletionInfo).not.toHaveBeenCalled()
+    expect(result).toEqual({ kind: SymbolKind.Function })
+    expect(languageService.requestCompletionInfo).toHaveBeenCalledWith(vscode.Uri.parse(uri).fsPath, 1, 1, {
+      id: 'resolve',
+    })
   })
 
   it('should return undefined when definition target is not a file URI', async () => {
@@ -2,12 +2,16 @@ import * as vscode from 'vscode'
 import { TypeScriptServerNotLoadedError } from '@/symbol/errors'
 import { BaseSymbolResolver, SymbolKind } from '@/symbol/types'
 import { type PluginResponse, RESPONSE_KEY } from '@/typescript/plugin/protocol'
-import { isJavaScriptFile } from '@/utils/isJavaScriptFile'
 
 export class PluginSymbolResolver extends BaseSymbolResolver {
   readonly name = 'plugin'
 
   async resolve(document: vscode.TextDocument, position: vscode.Position) {
+    const kind = await this.resolveKind(document, position)
+    return kind ? { kind } : undefined
+  }
+
+  private async resolveKind(document: vscode.TextDocument, position: vscode.Position) {
     const definition = await this.getDefinition(document, position)
     if (!definition) {
       return undefined
@@ -17,11 +21,6 @@ export class PluginSymbolResolver extends BaseSymbolResolver {
       return undefined
     }
 
-    if (isJavaScriptFile(definition.targetUri.fsPath)) {
-      this.logger.debug('skipping completionInfo for JS target:', definition.targetUri.fsPath)
-      return undefined
-    }
-
     let result
     try {
       result = await this.languageService.requestCompletionInfo(
@@ -91,7 +91,7 @@ describe('SemanticTokenSymbolResolver', () => {
         })
 
         const result = await resolver.resolve(createMockDocument(), createMockPosition())
-        expect(result).toBe(expected)
+        expect(result).toEqual({ kind: expected, modifiers: [] })
       })
     }
   })
@@ -113,7 +113,18 @@ describe('SemanticTokenSymbolResolver', () => {
     })
 
     const result = await resolver.resolve(createMockDocument(), createMockPosition())
-    expect(result).toBe(SymbolKind.Function)
+    expect(result).toEqual({ kind: SymbolKind.Function, modifiers: [] })
+  })
+
+  it('should carry the token modifiers other than declaration', async () => {
+    vi.mocked(languageService.getDefinition).mockResolvedValue(createDefinitionResult('file:///def.ts', 0, 13, 16))
+    vi.mocked(languageService.getSemanticTokens).mockResolvedValue({
+      legend: { ...DEFAULT_LEGEND, tokenModifiers: ['declaration', 'readonly'] },
+      tokens: { data: new Uint32Array([0, 13, 3, 5, 0b11]) } as vscode.SemanticTokens,
+    })
+
+    const result = await resolver.resolve(createMockDocument(), createMockPosition())
+    expect(result).toEqual({ kind: SymbolKind.Variable, modifiers: ['readonly'] })
   })
 
   it('should open target document before querying semantic tokens', async () => {
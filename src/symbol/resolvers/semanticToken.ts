@@ -1,6 +1,6 @@
 import * as vscode from 'vscode'
 import { BaseSymbolResolver } from '@/symbol/types'
-import { findTokenTypeAtPosition } from '@/symbol/utils/findTokenTypeAtPosition'
+import { findTokenAtPosition } from '@/symbol/utils/findTokenAtPosition'
 import { toSymbolKind } from '@/symbol/utils/toSymbolKind'
 
 export class SemanticTokenSymbolResolver extends BaseSymbolResolver {
@@ -19,12 +19,18 @@ export class SemanticTokenSymbolResolver extends BaseSymbolResolver {
       return undefined
     }
 
-    const tokenType = findTokenTypeAtPosition(
+    const token = findTokenAtPosition(
       result.tokens,
       result.legend,
       definition.targetPos.line,
       definition.targetPos.character,
     )
-    return tokenType ? toSymbolKind(tokenType) : undefined
+    const kind = token && toSymbolKind(token.type)
+    if (!kind) {
+      return undefined
+    }
+
+    // `declaration` marks the definition the token was read at, which the references to the import are not
+    return { kind, modifiers: token.modifiers.filter((modifier) => modifier !== 'declaration') }
   }
 }
@@ -24,6 +24,13 @@ export const SymbolConfidence: Record<SymbolKind, number> = {
   [SymbolKind.Variable]: 0.5,
 }
 
+/** Kind of an imported symbol, along with the semantic token modifiers of its references when they were read */
+export interface ResolvedSymbol {
+  kind: SymbolKind
+  /** Modifiers such as `readonly`, `async` or `defaultLibrary` */
+  modifiers?: string[]
+}
+
 export abstract class BaseSymbolResolver {
   abstract readonly name: string
   protected readonly logger: Logger
@@ -32,7 +39,7 @@ export abstract class BaseSymbolResolver {
     this.logger = Logger.create(this.constructor as typeof BaseSymbolResolver)
   }
 
-  abstract resolve(document: vscode.TextDocument, position: vscode.Position): Promise<SymbolKind | undefined>
+  abstract resolve(document: vscode.TextDocument, position: vscode.Position): Promise<ResolvedSymbol | undefined>
 
   protected async getDefinition(
     document: vscode.TextDocument,
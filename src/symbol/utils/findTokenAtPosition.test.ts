@@ -1,40 +1,50 @@
 import { describe, expect, it } from 'vitest'
 import * as vscode from 'vscode'
-import { findTokenTypeAtPosition } from './findTokenTypeAtPosition'
+import { findTokenAtPosition } from './findTokenAtPosition'
 
 const DEFAULT_LEGEND: vscode.SemanticTokensLegend = {
   tokenTypes: ['namespace', 'type', 'class', 'enum', 'interface', 'variable', 'function'],
-  tokenModifiers: [],
+  tokenModifiers: ['declaration', 'readonly', 'defaultLibrary'],
 } as unknown as vscode.SemanticTokensLegend
 
-function createTokenData(tokens: Array<[line: number, char: number, length: number, typeIndex: number]>) {
+function createTokenData(
+  tokens: Array<[line: number, char: number, length: number, typeIndex: number, modifierSet?: number]>,
+) {
   const data: number[] = []
   let prevLine = 0
   let prevChar = 0
-  for (const [line, char, length, typeIndex] of tokens) {
+  for (const [line, char, length, typeIndex, modifierSet = 0] of tokens) {
     const deltaLine = line - prevLine
     const deltaChar = deltaLine === 0 ? char - prevChar : char
-    data.push(deltaLine, deltaChar, length, typeIndex, 0)
+    data.push(deltaLine, deltaChar, length, typeIndex, modifierSet)
     prevLine = line
     prevChar = char
   }
   return new Uint32Array(data)
 }
 
-describe('findTokenTypeAtPosition', () => {
+describe('findTokenAtPosition', () => {
   it('should find token at exact start position', () => {
     const tokens = { data: createTokenData([[0, 5, 3, 6]]) } as vscode.SemanticTokens
-    expect(findTokenTypeAtPosition(tokens, DEFAULT_LEGEND, 0, 5)).toBe('function')
+    expect(findTokenAtPosition(tokens, DEFAULT_LEGEND, 0, 5)?.type).toBe('function')
   })
 
   it('should find token when target is within token range', () => {
     const tokens = { data: createTokenData([[0, 5, 10, 2]]) } as vscode.SemanticTokens
-    expect(findTokenTypeAtPosition(tokens, DEFAULT_LEGEND, 0, 8)).toBe('class')
+    expect(findTokenAtPosition(tokens, DEFAULT_LEGEND, 0, 8)?.type).toBe('class')
+  })
+
+  it('should decode the token modifiers', () => {
+    const tokens = { data: createTokenData([[0, 5, 3, 5, 0b101]]) } as vscode.SemanticTokens
+    expect(findTokenAtPosition(tokens, DEFAULT_LEGEND, 0, 5)).toEqual({
+      type: 'variable',
+      modifiers: ['declaration', 'defaultLibrary'],
+    })
   })
 
   it('should return undefined when no token matches the position', () => {
     const tokens = { data: createTokenData([[0, 0, 3, 6]]) } as vscode.SemanticTokens
-    expect(findTokenTypeAtPosition(tokens, DEFAULT_LEGEND, 0, 10)).toBeUndefined()
+    expect(findTokenAtPosition(tokens, DEFAULT_LEGEND, 0, 10)).toBeUndefined()
   })
 
   it('should handle multiple tokens on the same line', () => {
@@ -46,9 +56,9 @@ describe('findTokenTypeAtPosition', () => {
       ]),
     } as vscode.SemanticTokens
 
-    expect(findTokenTypeAtPosition(tokens, DEFAULT_LEGEND, 0, 0)).toBe('variable')
-    expect(findTokenTypeAtPosition(tokens, DEFAULT_LEGEND, 0, 6)).toBe('function')
-    expect(findTokenTypeAtPosition(tokens, DEFAULT_LEGEND, 0, 12)).toBe('class')
+    expect(findTokenAtPosition(tokens, DEFAULT_LEGEND, 0, 0)?.type).toBe('variable')
+    expect(findTokenAtPosition(tokens, DEFAULT_LEGEND, 0, 6)?.type).toBe('function')
+    expect(findTokenAtPosition(tokens, DEFAULT_LEGEND, 0, 12)?.type).toBe('class')
   })
 
   it('should handle tokens across multiple lines', () => {
@@ -60,9 +70,9 @@ describe('findTokenTypeAtPosition', () => {
       ]),
     } as vscode.SemanticTokens
 
-    expect(findTokenTypeAtPosition(tokens, DEFAULT_LEGEND, 0, 0)).toBe('function')
-    expect(findTokenTypeAtPosition(tokens, DEFAULT_LEGEND, 2, 5)).toBe('class')
-    expect(findTokenTypeAtPosition(tokens, DEFAULT_LEGEND, 5, 2)).toBe('variable')
+    expect(findTokenAtPosition(tokens, DEFAULT_LEGEND, 0, 0)?.type).toBe('function')
+    expect(findTokenAtPosition(tokens, DEFAULT_LEGEND, 2, 5)?.type).toBe('class')
+    expect(findTokenAtPosition(tokens, DEFAULT_LEGEND, 5, 2)?.type).toBe('variable')
   })
 
   it('should stop early when past the target line', () => {
@@ -74,16 +84,16 @@ describe('findTokenTypeAtPosition', () => {
       ]),
     } as vscode.SemanticTokens
 
-    expect(findTokenTypeAtPosition(tokens, DEFAULT_LEGEND, 3, 0)).toBeUndefined()
+    expect(findTokenAtPosition(tokens, DEFAULT_LEGEND, 3, 0)).toBeUndefined()
   })
 
   it('should handle empty token data', () => {
     const tokens = { data: new Uint32Array([]) } as vscode.SemanticTokens
-    expect(findTokenTypeAtPosition(tokens, DEFAULT_LEGEND, 0, 0)).toBeUndefined()
+    expect(findTokenAtPosition(tokens, DEFAULT_LEGEND, 0, 0)).toBeUndefined()
   })
 
   it('should not match position at token end boundary', () => {
     const tokens = { data: createTokenData([[0, 5, 3, 6]]) } as vscode.SemanticTokens
-    expect(findTokenTypeAtPosition(tokens, DEFAULT_LEGEND, 0, 8)).toBeUndefined()
+    expect(findTokenAtPosition(tokens, DEFAULT_LEGEND, 0, 8)).toBeUndefined()
   })
 })
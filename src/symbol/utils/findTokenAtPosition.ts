@@ -1,6 +1,7 @@
 import type * as vscode from 'vscode'
 
-export function findTokenTypeAtPosition(
+/** Type and modifiers of the semantic token covering the position */
+export function findTokenAtPosition(
   tokens: vscode.SemanticTokens,
   legend: vscode.SemanticTokensLegend,
   targetLine: number,
@@ -15,12 +16,16 @@ export function findTokenTypeAtPosition(
     const deltaStart = data[i + 1]
     const length = data[i + 2]
     const tokenTypeIndex = data[i + 3]
+    const tokenModifierSet = data[i + 4]
 
     line += deltaLine
     char = deltaLine === 0 ? char + deltaStart : deltaStart
 
     if (line === targetLine && char <= targetChar && targetChar < char + length) {
-      return legend.tokenTypes[tokenTypeIndex]
+      return {
+        type: legend.tokenTypes[tokenTypeIndex],
+        modifiers: legend.tokenModifiers.filter((_, bit) => tokenModifierSet & (1 << bit)),
+      }
     }
 
     if (line > targetLine) {
@@ -0,0 +1,50 @@
+import { SymbolKind } from '@/symbol'
+import type { SemanticTokenScopeMapping, SymbolStyleMap, UiTheme } from './types'
+
+/** Semantic token type of each kind followed by its super types, as registered by VS Code */
+export const SEMANTIC_TOKEN_TYPES: Record<SymbolKind, string[]> = {
+  [SymbolKind.Function]: ['function'],
+  [SymbolKind.Class]: ['class', 'type'],
+  [SymbolKind.Interface]: ['interface', 'type'],
+  [SymbolKind.Type]: ['type'],
+  [SymbolKind.Enum]: ['enum', 'type'],
+  [SymbolKind.Namespace]: ['namespace'],
+  [SymbolKind.Variable]: ['variable'],
+}
+
+/** VS Code's built-in semantic token to TextMate scope mappings for the token types above */
+export const DEFAULT_SEMANTIC_TOKEN_SCOPES: SemanticTokenScopeMapping[] = [
+  { selector: { type: 'type', modifiers: [] }, scopes: [['entity.name.type'], ['support.type']] },
+  { selector: { type: 'class', modifiers: [] }, scopes: [['entity.name.type.class'], ['support.class']] },
+  { selector: { type: 'interface', modifiers: [] }, scopes: [['entity.name.type.interface']] },
+  { selector: { type: 'enum', modifiers: [] }, scopes: [['entity.name.type.enum']] },
+  { selector: { type: 'namespace', modifiers: [] }, scopes: [['entity.name.namespace']] },
+  { selector: { type: 'function', modifiers: [] }, scopes: [['entity.name.function'], ['support.function']] },
+  { selector: { type: 'variable', modifiers: [] }, scopes: [['variable.other.readwrite'], ['entity.name.variable']] },
+  { selector: { type: 'type', modifiers: ['defaultLibrary'] }, scopes: [['support.type']] },
+  { selector: { type: 'class', modifiers: ['defaultLibrary'] }, scopes: [['support.class']] },
+  { selector: { type: 'function', modifiers: ['defaultLibrary'] }, scopes: [['support.function']] },
+  { selector: { type: 'variable', modifiers: ['readonly'] }, scopes: [['variable.other.constant']] },
+  { selector: { type: 'variable', modifiers: ['defaultLibrary'] }, scopes: [['support.variable']] },
+  { selector: { type: 'variable', modifiers: ['readonly', 'defaultLibrary'] }, scopes: [['support.constant']] },
+]
+
+function palette(functionColor: string, typeColor: string, variableColor: string): SymbolStyleMap {
+  return {
+    [SymbolKind.Function]: { color: functionColor },
+    [SymbolKind.Class]: { color: typeColor },
+    [SymbolKind.Interface]: { color: typeColor },
+    [SymbolKind.Type]: { color: typeColor },
+    [SymbolKind.Enum]: { color: typeColor },
+    [SymbolKind.Namespace]: { color: typeColor },
+    [SymbolKind.Variable]: { color: variableColor },
+  }
+}
+
+/** Colors of VS Code's default themes for each base theme, used for whatever the active theme does not color */
+export const DEFAULT_PALETTES: Record<UiTheme, SymbolStyleMap> = {
+  vs: palette('#795E26', '#267F99', '#001080'),
+  'vs-dark': palette('#DCDCAA', '#4EC9B0', '#9CDCFE'),
+  'hc-black': palette('#DCDCAA', '#4EC9B0', '#9CDCFE'),
+  'hc-light': palette('#5E2CBC', '#185E73', '#001080'),
+}
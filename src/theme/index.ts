@@ -1,2 +1,3 @@
 export { ThemeColorResolver } from './themeResolver'
-export type { SymbolColorMap } from './types'
+export type { StyleMapping, SymbolStyle, SymbolStyleMap, ThemeStyles } from './types'
+export { formatStyleMapping } from './utils/formatStyleMapping'
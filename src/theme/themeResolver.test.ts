@@ -1,7 +1,10 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 import * as vscode from 'vscode'
+import { type ConfigurationService, DEFAULT_CONFIGURATION, type ExtensionConfiguration } from '@/config'
 import { SymbolKind } from '@/symbol'
+import { DEFAULT_PALETTES } from './constants'
 import { ThemeColorResolver } from './themeResolver'
+import { StyleSource } from './types'
 
 function mockReadFile(pathToContent: Record<string, string>) {
   vi.mocked(vscode.workspace.fs.readFile).mockImplementation(async (uri: vscode.Uri) => {
@@ -39,25 +42,63 @@ function mockConfiguration(options: {
   })
 }
 
+function setThemeKind(kind: vscode.ColorThemeKind) {
+  ;(vscode.window.activeColorTheme as { kind: vscode.ColorThemeKind }).kind = kind
+}
+
+function createMemento() {
+  const values = new Map<string, unknown>()
+  return {
+    keys: () => [...values.keys()],
+    get: (key: string) => values.get(key),
+    update: vi.fn(async (key: string, value: unknown) => {
+      values.set(key, value)
+    }),
+  } as vscode.Memento
+}
+
+function createConfiguration(overrides: Partial<ExtensionConfiguration> = {}) {
+  return { current: { ...DEFAULT_CONFIGURATION, ...overrides } } as ConfigurationService
+}
+
 describe('ThemeColorResolver', () => {
   let resolver: ThemeColorResolver
+  let globalState: vscode.Memento
+
+  /** Loads the styles and waits for the snapshot of the theme, which is saved in the background */
+  async function loadStylesAndSnapshot() {
+    await resolver.loadStyles()
+    await vi.waitFor(() => expect(globalState.update).toHaveBeenCalled())
+  }
 
   beforeEach(() => {
-    resolver = new ThemeColorResolver()
+    globalState = createMemento()
+    resolver = new ThemeColorResolver(createConfiguration({ kindFallbacks: {} }), globalState)
+    setThemeKind(vscode.ColorThemeKind.Dark)
     vi.mocked(vscode.workspace.getConfiguration).mockReset()
     vi.mocked(vscode.workspace.fs.readFile).mockReset()
+    vi.mocked(vscode.workspace.fs.stat).mockResolvedValue({ mtime: 1 } as vscode.FileStat)
     ;(vscode.extensions as { all: unknown[] }).all = []
   })
 
-  describe('loadColors', () => {
-    it('should return empty map when colorTheme setting is empty', async () => {
+  describe('loadStyles', () => {
+    it('should return the default palette of the active theme kind when colorTheme setting is empty', async () => {
       mockConfiguration({ colorTheme: '' })
+      expect((await resolver.loadStyles())()).toEqual(DEFAULT_PALETTES['vs-dark'])
 
-      const colors = await resolver.loadColors()
-      expect(colors).toEqual({})
+      setThemeKind(vscode.ColorThemeKind.HighContrastLight)
+      expect((await resolver.loadStyles())()).toEqual(DEFAULT_PALETTES['hc-light'])
     })
 
-    it('should return empty map when no matching theme is found', async () => {
+    it('should still apply user color customizations without a theme', async () => {
+      mockConfiguration({ colorTheme: '', semanticTokenColorCustomizations: { rules: { function: '#USER_FUNC' } } })
+
+      const styles = (await resolver.loadStyles())()
+      expect(styles[SymbolKind.Function]?.color).toBe('#USER_FUNC')
+      expect(styles[SymbolKind.Class]).toEqual(DEFAULT_PALETTES['vs-dark'][SymbolKind.Class])
+    })
+
+    it('should return the default palette when no matching theme is found', async () => {
       mockConfiguration({ colorTheme: 'Nonexistent Theme' })
       ;(vscode.extensions as { all: unknown[] }).all = [
         {
@@ -66,8 +107,8 @@ describe('ThemeColorResolver', () => {
         },
       ]
 
-      const colors = await resolver.loadColors()
-      expect(colors).toEqual({})
+      const styles = (await resolver.loadStyles())()
+      expect(styles).toEqual(DEFAULT_PALETTES['vs-dark'])
     })
 
     it('should match theme by id and extract colors', async () => {
@@ -90,9 +131,36 @@ describe('ThemeColorResolver', () => {
         }),
       })
 
-      const colors = await resolver.loadColors()
-      expect(colors[SymbolKind.Function]).toBe('#DCDCAA')
-      expect(colors[SymbolKind.Class]).toBe('#4EC9B0')
+      const styles = (await resolver.loadStyles())()
+      expect(styles[SymbolKind.Function]?.color).toBe('#DCDCAA')
+      expect(styles[SymbolKind.Class]?.color).toBe('#4EC9B0')
+    })
+
+    it('should resolve the styles of tokens with modifiers in other languages on demand', async () => {
+      mockConfiguration({ colorTheme: 'my-dark-theme' })
+      ;(vscode.extensions as { all: unknown[] }).all = [
+        {
+          extensionUri: vscode.Uri.file('/ext/my-theme'),
+          packageJSON: { contributes: { themes: [{ id: 'my-dark-theme', path: './themes/dark.json' }] } },
+        },
+      ]
+      mockReadFile({
+        'dark.json': JSON.stringify({
+          semanticHighlighting: true,
+          semanticTokenColors: {
+            variable: '#VARIABLE',
+            'variable.readonly': '#READONLY',
+            'variable:javascript': '#JAVASCRIPT',
+          },
+          tokenColors: [],
+        }),
+      })
+
+      const styles = await resolver.loadStyles()
+      expect(styles()[SymbolKind.Variable]?.color).toBe('#VARIABLE')
+      expect(styles(['readonly'], 'typescript')[SymbolKind.Variable]?.color).toBe('#READONLY')
+      expect(styles([], 'javascript')[SymbolKind.Variable]?.color).toBe('#JAVASCRIPT')
+      expect(styles(['readonly'], 'typescript')).toBe(styles(['readonly'], 'typescript'))
     })
 
     it('should match theme by label when id does not match', async () => {
@@ -114,8 +182,8 @@ describe('ThemeColorResolver', () => {
         }),
       })
 
-      const colors = await resolver.loadColors()
-      expect(colors[SymbolKind.Function]).toBe('#DCDCAA')
+      const styles = (await resolver.loadStyles())()
+      expect(styles[SymbolKind.Function]?.color).toBe('#DCDCAA')
     })
 
     it('should prefer id match over label match', async () => {
@@ -140,8 +208,8 @@ describe('ThemeColorResolver', () => {
         }),
       })
 
-      const colors = await resolver.loadColors()
-      expect(colors[SymbolKind.Variable]).toBe('#9CDCFE')
+      const styles = (await resolver.loadStyles())()
+      expect(styles[SymbolKind.Variable]?.color).toBe('#9CDCFE')
     })
 
     it('should skip extensions without contributes.themes', async () => {
@@ -161,22 +229,22 @@ describe('ThemeColorResolver', () => {
         }),
       })
 
-      const colors = await resolver.loadColors()
-      expect(colors[SymbolKind.Function]).toBe('#DCDCAA')
+      const styles = (await resolver.loadStyles())()
+      expect(styles[SymbolKind.Function]?.color).toBe('#DCDCAA')
     })
 
-    it('should return empty map when theme file reading fails', async () => {
+    it('should return the palette of the theme uiTheme when theme file reading fails', async () => {
       mockConfiguration({ colorTheme: 'my-theme' })
       ;(vscode.extensions as { all: unknown[] }).all = [
         {
           extensionUri: vscode.Uri.file('/ext'),
-          packageJSON: { contributes: { themes: [{ id: 'my-theme', path: './theme.json' }] } },
+          packageJSON: { contributes: { themes: [{ id: 'my-theme', uiTheme: 'vs', path: './theme.json' }] } },
         },
       ]
       vi.mocked(vscode.workspace.fs.readFile).mockRejectedValue(new Error('File not found'))
 
-      const colors = await resolver.loadColors()
-      expect(colors).toEqual({})
+      const styles = (await resolver.loadStyles())()
+      expect(styles).toEqual(DEFAULT_PALETTES.vs)
     })
 
     it('should merge user color customizations on top of theme colors', async () => {
@@ -200,9 +268,428 @@ describe('ThemeColorResolver', () => {
         }),
       })
 
-      const colors = await resolver.loadColors()
-      expect(colors[SymbolKind.Function]).toBe('#USER_FUNC')
-      expect(colors[SymbolKind.Class]).toBe('#THEME_CLASS')
+      const styles = (await resolver.loadStyles())()
+      expect(styles[SymbolKind.Function]?.color).toBe('#USER_FUNC')
+      expect(styles[SymbolKind.Class]?.color).toBe('#THEME_CLASS')
+    })
+
+    it('should rank user textMateRules by specificity against the theme tokenColors', async () => {
+      mockConfiguration({
+        colorTheme: 'my-theme',
+        tokenColorCustomizations: {
+          textMateRules: [
+            { scope: 'entity.name', settings: { foreground: '#USER_NAME' } },
+            { scope: 'entity.name.type', settings: { foreground: '#USER_CLASS' } },
+          ],
+        },
+      })
+      ;(vscode.extensions as { all: unknown[] }).all = [
+        {
+          extensionUri: vscode.Uri.file('/ext'),
+          packageJSON: { contributes: { themes: [{ id: 'my-theme', path: './theme.json' }] } },
+        },
+      ]
+      mockReadFile({
+        'theme.json': JSON.stringify({
+          tokenColors: [
+            { scope: 'entity.name.function', settings: { foreground: '#THEME_FUNC' } },
+            { scope: 'entity.name.type', settings: { foreground: '#THEME_CLASS' } },
+          ],
+        }),
+      })
+
+      const styles = (await resolver.loadStyles())()
+      expect(styles[SymbolKind.Function]?.color).toBe('#THEME_FUNC')
+      expect(styles[SymbolKind.Class]?.color).toBe('#USER_CLASS')
+    })
+
+    it('should fall back through semantic token scopes contributed by extensions', async () => {
+      mockConfiguration({ colorTheme: 'my-theme' })
+      ;(vscode.extensions as { all: unknown[] }).all = [
+        {
+          extensionUri: vscode.Uri.file('/ext'),
+          packageJSON: { contributes: { themes: [{ id: 'my-theme', path: './theme.json' }] } },
+        },
+        {
+          extensionUri: vscode.Uri.file('/lang'),
+          packageJSON: {
+            contributes: { semanticTokenScopes: [{ language: 'typescript', scopes: { class: ['support.class.ts'] } }] },
+          },
+        },
+      ]
+      mockReadFile({
+        'theme.json': JSON.stringify({
+          semanticHighlighting: true,
+          semanticTokenColors: {},
+          tokenColors: [
+            { scope: 'entity.name.type', settings: { foreground: '#TYPE' } },
+            { scope: 'support.class.ts', settings: { foreground: '#SUPPORT_CLASS' } },
+          ],
+        }),
+      })
+
+      const styles = (await resolver.loadStyles())()
+      expect(styles[SymbolKind.Class]?.color).toBe('#SUPPORT_CLASS')
+      expect(styles[SymbolKind.Interface]?.color).toBe('#TYPE')
+    })
+
+    it('should fill kinds missing from the theme through the kind fallback chain', async () => {
+      resolver = new ThemeColorResolver(
+        createConfiguration({ kindFallbacks: { [SymbolKind.Enum]: [SymbolKind.Class, SymbolKind.Type] } }),
+        globalState,
+      )
+      mockConfiguration({ colorTheme: 'my-theme' })
+      ;(vscode.extensions as { all: unknown[] }).all = [
+        {
+          extensionUri: vscode.Uri.file('/ext'),
+          packageJSON: { contributes: { themes: [{ id: 'my-theme', uiTheme: 'vs', path: './theme.json' }] } },
+        },
+      ]
+      mockReadFile({
+        'theme.json': JSON.stringify({
+          semanticHighlighting: true,
+          semanticTokenColors: { class: '#THEME_CLASS' },
+          tokenColors: [],
+        }),
+      })
+
+      const styles = (await resolver.loadStyles())()
+      expect(styles[SymbolKind.Enum]?.color).toBe('#THEME_CLASS')
+      expect(styles[SymbolKind.Function]).toEqual(DEFAULT_PALETTES.vs[SymbolKind.Function])
+    })
+
+    it('should let the semantic customization enabled flag override the theme', async () => {
+      mockConfiguration({
+        colorTheme: 'My Theme',
+        semanticTokenColorCustomizations: { '[My*]': { enabled: false, rules: { function: '#USER_FUNC' } } },
+      })
+      ;(vscode.extensions as { all: unknown[] }).all = [
+        {
+          extensionUri: vscode.Uri.file('/ext'),
+          packageJSON: { contributes: { themes: [{ label: 'My Theme', path: './theme.json' }] } },
+        },
+      ]
+      mockReadFile({
+        'theme.json': JSON.stringify({
+          semanticHighlighting: true,
+          semanticTokenColors: { function: '#SEMANTIC_FUNC' },
+          tokenColors: [{ scope: 'entity.name.function', settings: { foreground: '#TEXTMATE_FUNC' } }],
+        }),
+      })
+
+      const styles = (await resolver.loadStyles())()
+      expect(styles[SymbolKind.Function]?.color).toBe('#TEXTMATE_FUNC')
+    })
+
+    it('should fall back to the default foreground of the theme instead of the palette', async () => {
+      mockConfiguration({ colorTheme: 'my-theme' })
+      ;(vscode.extensions as { all: unknown[] }).all = [
+        {
+          extensionUri: vscode.Uri.file('/ext'),
+          packageJSON: { contributes: { themes: [{ id: 'my-theme', path: './theme.json' }] } },
+        },
+      ]
+      mockReadFile({
+        'theme.json': JSON.stringify({
+          tokenColors: [
+            { settings: { foreground: '#DEFAULT', background: '#000000' } },
+            { scope: 'entity.name.function', settings: { foreground: '#FUNC' } },
+          ],
+        }),
+      })
+
+      const styles = (await resolver.loadStyles())()
+      expect(styles[SymbolKind.Function]).toEqual({ color: '#FUNC' })
+      expect(styles[SymbolKind.Class]).toEqual({ color: '#DEFAULT' })
+    })
+
+    it('should keep the theme font style when user customizations only change the color', async () => {
+      mockConfiguration({
+        colorTheme: 'my-theme',
+        semanticTokenColorCustomizations: {
+          rules: { function: '#USER_FUNC' },
+        },
+      })
+      ;(vscode.extensions as { all: unknown[] }).all = [
+        {
+          extensionUri: vscode.Uri.file('/ext'),
+          packageJSON: { contributes: { themes: [{ id: 'my-theme', path: './theme.json' }] } },
+        },
+      ]
+      mockReadFile({
+        'theme.json': JSON.stringify({
+          semanticHighlighting: true,
+          semanticTokenColors: { function: { foreground: '#THEME_FUNC', italic: true } },
+          tokenColors: [],
+        }),
+      })
+
+      const styles = (await resolver.loadStyles())()
+      expect(styles[SymbolKind.Function]).toEqual({ color: '#USER_FUNC', fontStyle: 'italic' })
+    })
+  })
+
+  describe('styleMapping', () => {
+    it('should be undefined until styles have loaded', () => {
+      expect(resolver.styleMapping).toBeUndefined()
+    })
+
+    it('should report where the style of each kind comes from', async () => {
+      resolver = new ThemeColorResolver(
+        createConfiguration({ kindFallbacks: { [SymbolKind.Enum]: [SymbolKind.Class] } }),
+        globalState,
+      )
+      mockConfiguration({
+        colorTheme: 'my-theme',
+        tokenColorCustomizations: {
+          textMateRules: [{ scope: 'entity.name.function', settings: { fontStyle: 'bold' } }],
+        },
+      })
+      ;(vscode.extensions as { all: unknown[] }).all = [
+        {
+          extensionUri: vscode.Uri.file('/ext'),
+          packageJSON: { contributes: { themes: [{ id: 'my-theme', uiTheme: 'vs', path: './theme.json' }] } },
+        },
+      ]
+      mockReadFile({
+        'theme.json': JSON.stringify({ include: './base.json', semanticTokenColors: { function: '#FUNC' } }),
+        'base.json': JSON.stringify({
+          semanticHighlighting: true,
+          tokenColors: [{ scope: 'entity.name.type.class', settings: { foreground: '#CLASS' } }],
+        }),
+      })
+
+      const styles = (await resolver.loadStyles())()
+      const mapping = resolver.styleMapping!
+      expect(mapping.styles).toBe(styles)
+      expect(mapping.themeName).toBe('my-theme')
+      expect(mapping.styles[SymbolKind.Function]).toEqual({ color: '#FUNC', fontStyle: 'bold' })
+      expect(mapping.origins[SymbolKind.Function]).toEqual({
+        color: {
+          source: StyleSource.SemanticTokenColors,
+          selector: 'function',
+          location: { uri: 'file:///ext/theme.json', includeLevel: 0 },
+        },
+        fontStyle: {
+          source: StyleSource.TokenColorCustomizations,
+          selector: 'entity.name.function',
+          scopes: ['entity.name.function'],
+        },
+      })
+      expect(mapping.origins[SymbolKind.Enum]?.color).toEqual({
+        source: StyleSource.SemanticTokenScopes,
+        selector: 'entity.name.type.class',
+        scopes: ['entity.name.type.class'],
+        location: { uri: 'file:///ext/base.json', includeLevel: 1 },
+        borrowedFrom: SymbolKind.Class,
+      })
+      expect(mapping.origins[SymbolKind.Variable]).toEqual({ color: { source: StyleSource.DefaultPalette } })
+    })
+  })
+
+  describe('themes missing from this extension host', () => {
+    const THEME_EXTENSION = {
+      extensionUri: vscode.Uri.file('/ext'),
+      packageJSON: { contributes: { themes: [{ id: 'my-theme', uiTheme: 'vs', path: './theme.json' }] } },
+    }
+
+    beforeEach(() => {
+      mockConfiguration({ colorTheme: 'my-theme' })
+      mockReadFile({
+        'theme.json': JSON.stringify({ semanticHighlighting: true, semanticTokenColors: { function: '#FUNC' } }),
+      })
+    })
+
+    it('should use the snapshot of a theme parsed before when it is not installed on this host', async () => {
+      ;(vscode.extensions as { all: unknown[] }).all = [THEME_EXTENSION]
+      await loadStylesAndSnapshot()
+
+      ;(vscode.extensions as { all: unknown[] }).all = []
+      vi.mocked(vscode.workspace.fs.readFile).mockReset()
+      setThemeKind(vscode.ColorThemeKind.Dark)
+
+      const styles = (await resolver.loadStyles())()
+      expect(styles[SymbolKind.Function]?.color).toBe('#FUNC')
+      expect(styles[SymbolKind.Class]).toEqual(DEFAULT_PALETTES.vs[SymbolKind.Class])
+      expect(vscode.workspace.fs.readFile).not.toHaveBeenCalled()
+    })
+
+    it('should not use the snapshot of another theme', async () => {
+      ;(vscode.extensions as { all: unknown[] }).all = [THEME_EXTENSION]
+      await loadStylesAndSnapshot()
+
+      ;(vscode.extensions as { all: unknown[] }).all = []
+      mockConfiguration({ colorTheme: 'other-theme' })
+
+      expect((await resolver.loadStyles())()).toEqual(DEFAULT_PALETTES['vs-dark'])
+    })
+  })
+
+  describe('theme snapshots', () => {
+    function installTheme(version: string) {
+      ;(vscode.extensions as { all: unknown[] }).all = [
+        {
+          id: 'me.my-theme',
+          extensionUri: vscode.Uri.file('/ext'),
+          packageJSON: { version, contributes: { themes: [{ id: 'my-theme', path: './theme.json' }] } },
+        },
+      ]
+    }
+
+    beforeEach(() => {
+      vi.mocked(vscode.workspace.createFileSystemWatcher).mockClear()
+      mockConfiguration({ colorTheme: 'my-theme' })
+      installTheme('1.0.0')
+      mockReadFile({
+        'theme.json': JSON.stringify({ include: './base.json' }),
+        'base.json': JSON.stringify({ semanticHighlighting: true, semanticTokenColors: { function: '#FUNC' } }),
+      })
+    })
+
+    it('should load an unchanged theme from its snapshot without reading the theme files', async () => {
+      await loadStylesAndSnapshot()
+      vi.mocked(vscode.workspace.fs.readFile).mockClear()
+
+      expect((await resolver.loadStyles())()[SymbolKind.Function]?.color).toBe('#FUNC')
+      expect(vscode.workspace.fs.readFile).not.toHaveBeenCalled()
+      expect(vscode.workspace.fs.stat).toHaveBeenCalledWith(expect.objectContaining({ path: '/ext/base.json' }))
+    })
+
+    it('should keep the snapshots of the five themes parsed last', async () => {
+      const themes = ['a', 'b', 'c', 'd', 'e', 'f']
+      ;(vscode.extensions as { all: unknown[] }).all = [
+        {
+          id: 'me.themes',
+          extensionUri: vscode.Uri.file('/ext'),
+          packageJSON: { contributes: { themes: themes.map((id) => ({ id, path: './theme.json' })) } },
+        },
+      ]
+      for (const theme of themes) {
+        mockConfiguration({ colorTheme: theme })
+        vi.mocked(globalState.update).mockClear()
+        await loadStylesAndSnapshot()
+      }
+
+      expect(Object.keys(globalState.get('themeSnapshots') ?? {})).toEqual(['b', 'c', 'd', 'e', 'f'])
+    })
+
+    it('should still load the styles when the snapshot cannot be saved', async () => {
+      vi.mocked(globalState.update).mockRejectedValue(new Error('storage unavailable'))
+
+      expect((await resolver.loadStyles())()[SymbolKind.Function]?.color).toBe('#FUNC')
+      await vi.waitFor(() => expect(globalState.update).toHaveBeenCalled())
+    })
+
+    it('should parse the theme again when its extension was updated', async () => {
+      await loadStylesAndSnapshot()
+      installTheme('1.1.0')
+      vi.mocked(vscode.workspace.fs.readFile).mockClear()
+
+      await resolver.loadStyles()
+      expect(vscode.workspace.fs.readFile).toHaveBeenCalledTimes(2)
+    })
+
+    it('should reload the styles when a theme file changed since the snapshot was taken', async () => {
+      await loadStylesAndSnapshot()
+      const listener = vi.fn()
+      resolver.onDidChange(listener)
+      vi.mocked(vscode.workspace.fs.stat).mockImplementation(async (uri: vscode.Uri) => {
+        return { mtime: uri.path.endsWith('base.json') ? 2 : 1 } as vscode.FileStat
+      })
+      vi.mocked(vscode.workspace.fs.readFile).mockClear()
+
+      await resolver.loadStyles()
+      await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(1))
+      expect(vscode.workspace.fs.readFile).not.toHaveBeenCalled()
+
+      await resolver.loadStyles()
+      expect(vscode.workspace.fs.readFile).toHaveBeenCalledTimes(2)
+    })
+
+    it('should parse the theme again after a watched theme file changed', async () => {
+      await resolver.loadStyles()
+      const watcher = vi.mocked(vscode.workspace.createFileSystemWatcher).mock.results[0]
+        .value as vscode.FileSystemWatcher
+      vi.mocked(watcher.onDidChange).mock.calls[0][0](vscode.Uri.file('/ext/theme.json'))
+      vi.mocked(vscode.workspace.fs.readFile).mockClear()
+
+      await resolver.loadStyles()
+      expect(vscode.workspace.fs.readFile).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('theme file watching', () => {
+    beforeEach(() => {
+      vi.mocked(vscode.workspace.createFileSystemWatcher).mockClear()
+      mockConfiguration({ colorTheme: 'my-theme' })
+      ;(vscode.extensions as { all: unknown[] }).all = [
+        {
+          extensionUri: vscode.Uri.file('/ext'),
+          packageJSON: { contributes: { themes: [{ id: 'my-theme', path: './themes/dark.json' }] } },
+        },
+      ]
+      mockReadFile({
+        'dark.json': JSON.stringify({ include: './base.json' }),
+        'base.json': JSON.stringify({ tokenColors: [] }),
+      })
+    })
+
+    function getWatchers() {
+      return vi
+        .mocked(vscode.workspace.createFileSystemWatcher)
+        .mock.results.map((r) => r.value as vscode.FileSystemWatcher)
+    }
+
+    it('should watch the theme file and every file in its include chain', async () => {
+      await resolver.loadStyles()
+
+      const patterns = vi
+        .mocked(vscode.workspace.createFileSystemWatcher)
+        .mock.calls.map(([pattern]) => pattern as vscode.RelativePattern)
+      expect(patterns.map((p) => p.pattern)).toEqual(['dark.json', 'base.json'])
+      expect(patterns.map((p) => p.baseUri.path)).toEqual(['/ext/themes', '/ext/themes'])
+    })
+
+    it('should fire onDidChange once for a burst of file changes', async () => {
+      vi.useFakeTimers()
+      try {
+        const listener = vi.fn()
+        resolver.onDidChange(listener)
+        await resolver.loadStyles()
+
+        const [theme, base] = getWatchers()
+        vi.mocked(theme.onDidChange).mock.calls[0][0](vscode.Uri.file('/ext/themes/dark.json'))
+        vi.mocked(base.onDidDelete).mock.calls[0][0](vscode.Uri.file('/ext/themes/base.json'))
+        expect(listener).not.toHaveBeenCalled()
+
+        vi.runAllTimers()
+        expect(listener).toHaveBeenCalledTimes(1)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should keep the watchers while the theme files stay the same', async () => {
+      await resolver.loadStyles()
+      await resolver.loadStyles()
+
+      expect(vscode.workspace.createFileSystemWatcher).toHaveBeenCalledTimes(2)
+      expect(getWatchers().every((w) => vi.mocked(w.dispose).mock.calls.length === 0)).toBe(true)
+    })
+
+    it('should dispose the watchers of files no longer part of the theme', async () => {
+      await resolver.loadStyles()
+      mockConfiguration({ colorTheme: '' })
+      await resolver.loadStyles()
+
+      expect(getWatchers().every((w) => vi.mocked(w.dispose).mock.calls.length === 1)).toBe(true)
+    })
+
+    it('should dispose the watchers when disposed', async () => {
+      await resolver.loadStyles()
+      resolver.dispose()
+
+      expect(getWatchers().every((w) => vi.mocked(w.dispose).mock.calls.length === 1)).toBe(true)
     })
   })
 })
@@ -1,10 +1,42 @@
-import { injectable } from 'inversify'
+import { inject, injectable } from 'inversify'
+import * as path from 'path'
+// Type-only, as decorator metadata would otherwise reference the interface at runtime
+import type { Memento } from 'vscode'
 import * as vscode from 'vscode'
+import { ConfigurationService } from '@/config'
+import { TOKENS } from '@/di/tokens'
 import { Logger } from '@/logger'
-import type { SymbolColorMap } from './types'
-import { extractSymbolColors } from './utils/extractSymbolColors'
+import { SymbolKind } from '@/symbol'
+import { debounce } from '@/utils/debounce'
+import { DEFAULT_PALETTES } from './constants'
+import {
+  type ResolvedThemeData,
+  type RuleMatches,
+  type SemanticTokenScopeMapping,
+  type StyleMapping,
+  type StyleOrigins,
+  StyleSource,
+  type SymbolStyle,
+  type SymbolStyleMap,
+  type SymbolStyleOrigins,
+  type ThemeSnapshot,
+  type ThemeStyles,
+  type TokenColorRule,
+  type UiTheme,
+} from './types'
+import { applyStyleFallbacks } from './utils/applyStyleFallbacks'
+import { compactThemeData } from './utils/compactThemeData'
+import { extractSymbolStyles } from './utils/extractSymbolStyles'
+import { findDefaultTokenStyle } from './utils/findDefaultTokenStyle'
+import { getActiveUiTheme } from './utils/getActiveUiTheme'
 import { parseThemeFile } from './utils/parseThemeFile'
-import { readUserColorCustomizations } from './utils/readUserColorCustomizations'
+import { readModificationTimes } from './utils/readModificationTimes'
+import { readSemanticHighlightingSetting } from './utils/readSemanticHighlightingSetting'
+import { readSemanticTokenScopes } from './utils/readSemanticTokenScopes'
+import { readUserSemanticTokenStyles } from './utils/readUserSemanticTokenStyles'
+import { readUserTextMateRules } from './utils/readUserTextMateRules'
+import { toStyleOrigins } from './utils/toStyleOrigins'
+import { toSymbolStyle } from './utils/toSymbolStyle'
 
 interface ThemeContribution {
   id?: string
@@ -14,43 +46,264 @@ interface ThemeContribution {
 }
 
 interface DiscoveredTheme {
+  extensionId: string
+  extensionVersion?: string
   extensionUri: vscode.Uri
   themePath: string
+  uiTheme?: UiTheme
+}
+
+/** The active theme along with the settings its styles are resolved with */
+interface ActiveTheme {
   themeName: string
+  parsed?: ResolvedThemeData
+  uiTheme?: UiTheme
+  semanticHighlighting: boolean
+  semanticTokenScopes: SemanticTokenScopeMapping[]
+  userTokenColors: TokenColorRule[]
 }
 
+const UI_THEMES = new Set<string | undefined>(['vs', 'vs-dark', 'hc-black', 'hc-light'] satisfies UiTheme[])
+
+const THEME_SNAPSHOTS_KEY = 'themeSnapshots'
+/** Themes whose snapshots are kept at once */
+const MAX_THEME_SNAPSHOTS = 5
+
+/** Editors often write a file more than once per save */
+const THEME_FILE_CHANGE_DELAY = 100
+
 @injectable()
-export class ThemeColorResolver {
+export class ThemeColorResolver implements vscode.Disposable {
   private readonly logger = Logger.create(ThemeColorResolver)
+  private readonly _onDidChange = new vscode.EventEmitter<void>()
+  private readonly fireDidChange = debounce(() => this._onDidChange.fire(), THEME_FILE_CHANGE_DELAY)
+  private watchers = new Map<string, vscode.FileSystemWatcher>()
+  /** Set when a theme file changed on disk, so that the next load parses the theme instead of using its snapshot */
+  private snapshotStale = false
+  private lastMapping?: StyleMapping
+  /** Fires when the active theme file or one of the files it includes changes on disk */
+  readonly onDidChange = this._onDidChange.event
+
+  constructor(
+    private readonly configuration: ConfigurationService,
+    @inject(TOKENS.GlobalState) private readonly globalState: Memento,
+  ) {}
 
-  async loadColors(): Promise<SymbolColorMap> {
-    const theme = this.discoverActiveTheme()
-    if (!theme) {
-      this.logger.warn('no active theme found')
-      return {}
+  dispose() {
+    this.fireDidChange.cancel()
+    this.watchThemeFiles([])
+    this._onDidChange.dispose()
+  }
+
+  /** Loads the active theme; the styles of each combination of modifiers and language are resolved on first use */
+  async loadStyles(): Promise<ThemeStyles> {
+    const active = await this.loadActiveTheme()
+    const mapping = this.resolveStyleMapping(active)
+    const kinds = Object.keys(mapping.styles)
+    this.logger.info(`loaded ${kinds.length} symbol styles:`, kinds.join(', '))
+
+    this.lastMapping = mapping
+    const styles = new Map([[getStylesKey([], 'typescript'), mapping.styles]])
+    return (modifiers = [], language = 'typescript') => {
+      const key = getStylesKey(modifiers, language)
+      let resolved = styles.get(key)
+      if (!resolved) {
+        resolved = this.resolveStyleMapping(active, modifiers, language).styles
+        styles.set(key, resolved)
+      }
+      return resolved
     }
+  }
 
-    this.logger.info(`loading colors from theme '${theme.themeName}'`)
-    const parsed = await parseThemeFile(theme.extensionUri, theme.themePath)
-    if (!parsed) {
-      this.logger.warn(`failed to parse theme file for '${theme.themeName}'`)
-      return {}
+  /**
+   * The styles of TypeScript tokens without modifiers loaded last along with where each of their settings comes from,
+   * if styles have loaded yet
+   */
+  get styleMapping() {
+    return this.lastMapping
+  }
+
+  private async loadActiveTheme(): Promise<ActiveTheme> {
+    const themeName = vscode.workspace.getConfiguration('workbench').get<string>('colorTheme') ?? ''
+    const theme = themeName ? this.discoverTheme(themeName) : undefined
+    const semanticHighlightingSetting = readSemanticHighlightingSetting(themeName)
+
+    let parsed: ResolvedThemeData | undefined
+    let uiTheme = theme?.uiTheme
+    if (theme) {
+      parsed = await this.loadTheme(themeName, theme)
+    } else {
+      this.watchThemeFiles([])
+      // Themes installed only on the UI side are not listed in Remote, WSL and dev container workspaces. They are never
+      // discovered there, but a snapshot saved while the theme was active in a local window stands in for them
+      const snapshot = this.readSnapshot(themeName)
+      if (snapshot) {
+        this.logger.info(`theme '${themeName}' is not installed on this extension host, using its saved snapshot`)
+        parsed = snapshot.theme
+        uiTheme = snapshot.uiTheme
+      } else {
+        this.logger.warn('no active theme found, using the default palette')
+      }
+    }
+
+    return {
+      themeName,
+      parsed,
+      uiTheme,
+      // VS Code's default themes enable semantic highlighting
+      semanticHighlighting: semanticHighlightingSetting ?? parsed?.semanticHighlighting ?? true,
+      semanticTokenScopes: readSemanticTokenScopes(),
+      userTokenColors: readUserTextMateRules(themeName),
+    }
+  }
+
+  /** Resolves the styles of tokens with the modifiers in the language, and where each of their settings comes from */
+  private resolveStyleMapping(
+    active: ActiveTheme,
+    modifiers: readonly string[] = [],
+    language = 'typescript',
+  ): StyleMapping {
+    const { themeName, parsed, uiTheme, semanticHighlighting } = active
+    const origins: SymbolStyleOrigins = {}
+    let defaultStyle: SymbolStyle | undefined
+    let defaultStyleOrigins: StyleOrigins = {}
+    let styles = extractSymbolStyles(
+      { semanticTokenColors: {}, tokenColors: [], ...parsed, semanticHighlighting },
+      active.semanticTokenScopes,
+      origins,
+      active.userTokenColors,
+      modifiers,
+      language,
+    )
+    if (parsed) {
+      const matches: RuleMatches = {}
+      const defaultTokenStyle = findDefaultTokenStyle(parsed.tokenColors, matches)
+      defaultStyle = toSymbolStyle(defaultTokenStyle)
+      defaultStyleOrigins = toStyleOrigins(
+        [{ source: StyleSource.DefaultStyle, style: defaultTokenStyle, matches }],
+        parsed.sources,
+      )
     }
 
-    const colors = extractSymbolColors(parsed)
-    const userOverrides = readUserColorCustomizations(theme.themeName)
-    const merged = { ...colors, ...userOverrides }
-    const kinds = Object.keys(merged)
-    this.logger.info(`loaded ${kinds.length} symbol colors:`, kinds.join(', '))
-    return merged
+    const userOrigins: SymbolStyleOrigins = {}
+    const userOverrides = readUserSemanticTokenStyles(themeName, semanticHighlighting, userOrigins, modifiers, language)
+    const merged: SymbolStyleMap = { ...styles }
+    for (const [kind, style] of Object.entries(userOverrides) as [SymbolKind, SymbolStyle][]) {
+      merged[kind] = { ...merged[kind], ...style }
+      origins[kind] = { ...origins[kind], ...userOrigins[kind] }
+    }
+
+    // Kinds the theme leaves uncolored borrow from related kinds, then take the theme's default text color like any
+    // unstyled token, or VS Code's default colors when the theme has none
+    const palette = defaultStyle?.color
+      ? Object.fromEntries(Object.values(SymbolKind).map((kind) => [kind, defaultStyle]))
+      : DEFAULT_PALETTES[uiTheme ?? getActiveUiTheme()]
+    const paletteOrigins = defaultStyle?.color ? defaultStyleOrigins : { color: { source: StyleSource.DefaultPalette } }
+    styles = applyStyleFallbacks(merged, this.configuration.current.kindFallbacks, palette, origins, paletteOrigins)
+    return { themeName, styles, origins }
   }
 
-  private discoverActiveTheme(): DiscoveredTheme | undefined {
-    const themeName = vscode.workspace.getConfiguration('workbench').get<string>('colorTheme')
-    if (!themeName) {
+  /** Parses the theme, or takes its snapshot while the extension and theme files are unchanged */
+  private async loadTheme(themeName: string, theme: DiscoveredTheme) {
+    const snapshot = this.readSnapshot(themeName)
+    if (
+      snapshot &&
+      !this.snapshotStale &&
+      snapshot.extensionId === theme.extensionId &&
+      snapshot.extensionVersion === theme.extensionVersion
+    ) {
+      this.logger.info(`loading styles from the snapshot of theme '${themeName}'`)
+      const files = Object.keys(snapshot.files).map((uri) => vscode.Uri.parse(uri))
+      this.watchThemeFiles(files)
+      // Files may have changed while VS Code was closed; styles are reloaded once that turns out to be the case
+      void this.validateSnapshot(themeName, snapshot, files)
+      return snapshot.theme
+    }
+
+    this.logger.info(`loading styles from theme '${themeName}'`)
+    this.snapshotStale = false
+    const files: vscode.Uri[] = []
+    const parsed = await parseThemeFile(theme.extensionUri, theme.themePath, files)
+    this.watchThemeFiles(files)
+    if (!parsed) {
+      this.logger.warn(`failed to parse theme file for '${themeName}'`)
       return undefined
     }
 
+    // Styles do not wait for the snapshot, which only speeds up later loads
+    void this.saveSnapshot(themeName, theme, parsed, files)
+    return parsed
+  }
+
+  private async validateSnapshot(themeName: string, snapshot: ThemeSnapshot, files: vscode.Uri[]) {
+    const mtimes = await readModificationTimes(files)
+    if (files.some((file) => mtimes[file.toString()] !== snapshot.files[file.toString()])) {
+      this.logger.info(`snapshot of theme '${themeName}' is out of date, reloading`)
+      this.snapshotStale = true
+      this._onDidChange.fire()
+    }
+  }
+
+  /** Replaces the watchers with ones for `files`, keeping those already watching one of them */
+  private watchThemeFiles(files: vscode.Uri[]) {
+    const watchers = new Map<string, vscode.FileSystemWatcher>()
+    for (const file of files) {
+      const key = file.toString()
+      let watcher = this.watchers.get(key) ?? watchers.get(key)
+      if (!watcher) {
+        const directory = file.with({ path: path.posix.dirname(file.path) })
+        watcher = vscode.workspace.createFileSystemWatcher(
+          new vscode.RelativePattern(directory, path.posix.basename(file.path)),
+        )
+        watcher.onDidChange(this.onDidChangeThemeFile)
+        watcher.onDidCreate(this.onDidChangeThemeFile)
+        watcher.onDidDelete(this.onDidChangeThemeFile)
+      }
+      watchers.set(key, watcher)
+    }
+
+    for (const [key, watcher] of this.watchers) {
+      if (!watchers.has(key)) {
+        watcher.dispose()
+      }
+    }
+    this.watchers = watchers
+  }
+
+  private onDidChangeThemeFile = () => {
+    this.snapshotStale = true
+    this.fireDidChange()
+  }
+
+  private readSnapshot(themeName: string) {
+    return themeName ? this.globalState.get<Record<string, ThemeSnapshot>>(THEME_SNAPSHOTS_KEY)?.[themeName] : undefined
+  }
+
+  private async saveSnapshot(
+    themeName: string,
+    theme: DiscoveredTheme,
+    parsed: ResolvedThemeData,
+    files: vscode.Uri[],
+  ) {
+    try {
+      const snapshot: ThemeSnapshot = {
+        extensionId: theme.extensionId,
+        extensionVersion: theme.extensionVersion,
+        uiTheme: theme.uiTheme,
+        files: await readModificationTimes(files),
+        theme: compactThemeData(parsed),
+      }
+      // The themes parsed last are kept, most recent last, so that switching between a few themes keeps them all
+      const { [themeName]: _previous, ...others } =
+        this.globalState.get<Record<string, ThemeSnapshot>>(THEME_SNAPSHOTS_KEY) ?? {}
+      const kept = Object.entries(others).slice(-(MAX_THEME_SNAPSHOTS - 1))
+      await this.globalState.update(THEME_SNAPSHOTS_KEY, { ...Object.fromEntries(kept), [themeName]: snapshot })
+    } catch (e) {
+      this.logger.warn(`failed to save the snapshot of theme '${themeName}':`, e)
+    }
+  }
+
+  private discoverTheme(themeName: string): DiscoveredTheme | undefined {
     for (const ext of vscode.extensions.all) {
       const themes = ext.packageJSON?.contributes?.themes as ThemeContribution[] | undefined
       if (!themes) {
@@ -58,10 +311,21 @@ export class ThemeColorResolver {
       }
       const match = themes.find((t) => t.id === themeName) ?? themes.find((t) => t.label === themeName)
       if (match) {
-        return { extensionUri: ext.extensionUri, themePath: match.path, themeName }
+        const uiTheme = UI_THEMES.has(match.uiTheme) ? (match.uiTheme as UiTheme) : undefined
+        return {
+          extensionId: ext.id,
+          extensionVersion: ext.packageJSON?.version,
+          extensionUri: ext.extensionUri,
+          themePath: match.path,
+          uiTheme,
+        }
       }
     }
 
     return undefined
   }
 }
+
+function getStylesKey(modifiers: readonly string[], language: string) {
+  return `${[...modifiers].sort().join('.')}:${language}`
+}
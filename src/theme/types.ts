@@ -1,23 +1,144 @@
 import type { SymbolKind } from '@/symbol'
 
+/** Base theme a color theme contributes itself as */
+export type UiTheme = 'vs' | 'vs-dark' | 'hc-black' | 'hc-light'
+
+export interface TokenStyle {
+  foreground?: string
+  /** Space-separated `italic`, `bold`, `underline` and `strikethrough`; an empty string clears inherited styles */
+  fontStyle?: string
+}
+
 export interface TokenColorRule {
   scope?: string | string[]
-  settings?: {
-    foreground?: string
-  }
+  settings?: TokenStyle
+}
+
+/** One comma-separated part of a TextMate rule's `scope`, e.g. `source.ts meta.function-call entity.name -comment` */
+export interface ScopeSelector {
+  /** Scope prefix the innermost scope must match */
+  scope: string
+  /** Ancestor scope prefixes from innermost to outermost, where `>` requires a direct parent */
+  parentScopes: string[]
+  /** Scope paths that exclude the rule when they match the stack */
+  exclusions: string[][]
+}
+
+/** A `semanticTokenColors` key: `type.modifier1.modifier2:language`, where the type may be `*` */
+export interface SemanticTokenSelector {
+  type: string
+  modifiers: string[]
+  language?: string
 }
 
+/** A `semanticTokenScopes` entry mapping semantic tokens to the TextMate scope paths probed when no rule styles them */
+export interface SemanticTokenScopeMapping {
+  selector: SemanticTokenSelector
+  /** Scope paths in probing order, each from outermost to innermost */
+  scopes: string[][]
+}
+
+/** A `semanticTokenColors` entry: a bare color, or a style with either `fontStyle` or individual flags */
+export type SemanticTokenStyleValue =
+  | string
+  | (TokenStyle & { bold?: boolean; italic?: boolean; underline?: boolean; strikethrough?: boolean })
+
 export interface RawThemeData {
   semanticHighlighting?: boolean
-  semanticTokenColors?: Record<string, string | { foreground?: string }>
-  tokenColors?: TokenColorRule[]
+  semanticTokenColors?: Record<string, SemanticTokenStyleValue>
+  /** Rules, or the path of a `.tmTheme` or JSON file holding them relative to the theme */
+  tokenColors?: TokenColorRule[] | string
+  /** Rules of a `.tmTheme` file */
+  settings?: TokenColorRule[]
   include?: string
 }
 
+/** A theme file rules were read from, `includeLevel` counting the includes between it and the theme file itself */
+export interface ThemeFileLocation {
+  uri: string
+  includeLevel: number
+}
+
 export interface ResolvedThemeData {
   semanticHighlighting: boolean
-  semanticTokenColors: Record<string, string>
+  semanticTokenColors: Record<string, TokenStyle>
   tokenColors: TokenColorRule[]
+  /** Where each rule was read from, by `semanticTokenColors` key and by `tokenColors` index */
+  sources?: {
+    semanticTokenColors: Record<string, ThemeFileLocation>
+    tokenColors: ThemeFileLocation[]
+  }
+}
+
+/** The rule a style setting was taken from */
+export interface RuleMatch {
+  /** Semantic token selector or TextMate scope selector of the rule, if it has one */
+  selector?: string
+  /** Index of the TextMate rule among the rules searched */
+  index?: number
+  /** Scope path a semantic token was probed with through `semanticTokenScopes` */
+  scopes?: string[]
+}
+
+export type RuleMatches = Partial<Record<keyof TokenStyle, RuleMatch>>
+
+export enum StyleSource {
+  SemanticTokenColors = 'semanticTokenColors',
+  SemanticTokenScopes = 'semanticTokenScopes',
+  TokenColors = 'tokenColors',
+  /** The theme's default text style, given by its rule without a scope */
+  DefaultStyle = 'defaultStyle',
+  DefaultPalette = 'defaultPalette',
+  SemanticTokenColorCustomizations = 'editor.semanticTokenColorCustomizations',
+  TokenColorCustomizations = 'editor.tokenColorCustomizations',
+  Settings = 'semanticImports.styles',
 }
 
-export type SymbolColorMap = Partial<Record<SymbolKind, string>>
+/** Where the value of a style setting comes from */
+export interface StyleOrigin extends Omit<RuleMatch, 'index'> {
+  source: StyleSource
+  /** Theme file of the rule, for rules of the theme */
+  location?: ThemeFileLocation
+  /** Kind the value was borrowed from through the kind fallbacks */
+  borrowedFrom?: SymbolKind
+}
+
+export type StyleOrigins = Partial<Record<keyof SymbolStyle, StyleOrigin>>
+
+export type SymbolStyleOrigins = Partial<Record<SymbolKind, StyleOrigins>>
+
+/** Styles of the active theme along with where each of their settings comes from */
+export interface StyleMapping {
+  themeName: string
+  styles: SymbolStyleMap
+  origins: SymbolStyleOrigins
+}
+
+/** A parsed theme kept in global state, which the UI side stores for local and remote windows alike */
+export interface ThemeSnapshot {
+  /** Identifier and version of the extension contributing the theme */
+  extensionId: string
+  extensionVersion?: string
+  uiTheme?: UiTheme
+  /** Modification times of the theme file and every file it includes, by URI */
+  files: Record<string, number>
+  /** The theme compacted to what styles are resolved from */
+  theme: ResolvedThemeData
+}
+
+export interface SymbolStyle {
+  /** Foreground color */
+  color?: string
+  /** Space-separated `italic`, `bold`, `underline` and `strikethrough`, as in TextMate themes */
+  fontStyle?: string
+  /** Opacity between 0 and 1 */
+  opacity?: number
+  backgroundColor?: string
+  /** CSS border shorthand, e.g. `1px solid #FF0000` */
+  border?: string
+}
+
+export type SymbolStyleMap = Partial<Record<SymbolKind, SymbolStyle>>
+
+/** Styles of each kind as a semantic token with the modifiers in the language; TypeScript, no modifiers by default */
+export type ThemeStyles = (modifiers?: readonly string[], language?: string) => SymbolStyleMap
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { SymbolKind } from '@/symbol'
+import { StyleSource, type SymbolStyleOrigins } from '@/theme/types'
+import { applyStyleFallbacks } from './applyStyleFallbacks'
+
+describe('applyStyleFallbacks', () => {
+  it('should keep kinds that have a color', () => {
+    const styles = { [SymbolKind.Enum]: { color: '#111111', fontStyle: 'italic' } }
+    expect(applyStyleFallbacks(styles, {}, { [SymbolKind.Enum]: { color: '#999999' } })[SymbolKind.Enum]).toEqual({
+      color: '#111111',
+      fontStyle: 'italic',
+    })
+  })
+
+  it('should borrow from the first kind in the chain that has a color', () => {
+    const styles = { [SymbolKind.Type]: { color: '#222222' }, [SymbolKind.Class]: { fontStyle: 'bold' } }
+    const fallbacks = { [SymbolKind.Enum]: [SymbolKind.Class, SymbolKind.Type] }
+    expect(applyStyleFallbacks(styles, fallbacks, {})[SymbolKind.Enum]).toEqual({ color: '#222222' })
+  })
+
+  it('should fall back to the palette and keep the font style of the kind itself', () => {
+    const styles = { [SymbolKind.Function]: { fontStyle: 'italic' } }
+    expect(applyStyleFallbacks(styles, {}, { [SymbolKind.Function]: { color: '#999999' } })).toEqual({
+      [SymbolKind.Function]: { color: '#999999', fontStyle: 'italic' },
+    })
+  })
+
+  it('should leave kinds out when nothing styles them', () => {
+    expect(applyStyleFallbacks({}, { [SymbolKind.Enum]: [SymbolKind.Class] }, {})).toEqual({})
+  })
+
+  it('should update the origins to those of the borrowed and palette styles', () => {
+    const styles = { [SymbolKind.Type]: { color: '#222222' }, [SymbolKind.Function]: { fontStyle: 'italic' } }
+    const typeOrigin = { source: StyleSource.SemanticTokenColors, selector: 'type' }
+    const fontStyleOrigin = { source: StyleSource.TokenColors, selector: 'entity.name.function' }
+    const origins: SymbolStyleOrigins = {
+      [SymbolKind.Type]: { color: typeOrigin },
+      [SymbolKind.Function]: { fontStyle: fontStyleOrigin },
+    }
+    const paletteOrigins = { color: { source: StyleSource.DefaultPalette } }
+
+    applyStyleFallbacks(
+      styles,
+      { [SymbolKind.Enum]: [SymbolKind.Type] },
+      { [SymbolKind.Function]: { color: '#999999' } },
+      origins,
+      paletteOrigins,
+    )
+    expect(origins).toEqual({
+      [SymbolKind.Type]: { color: typeOrigin },
+      [SymbolKind.Enum]: { color: { ...typeOrigin, borrowedFrom: SymbolKind.Type } },
+      [SymbolKind.Function]: { color: paletteOrigins.color, fontStyle: fontStyleOrigin },
+    })
+  })
+})
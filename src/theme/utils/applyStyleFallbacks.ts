@@ -0,0 +1,56 @@
+import { SymbolKind } from '@/symbol'
+import type { StyleOrigins, SymbolStyle, SymbolStyleMap, SymbolStyleOrigins } from '@/theme/types'
+
+/**
+ * Fills in kinds without a color from the first kind of their fallback chain that has one, then from the palette.
+ * Font styles a kind sets itself are kept. `origins` holds where the settings of `styles` come from, and is updated to
+ * those of the returned styles
+ */
+export function applyStyleFallbacks(
+  styles: SymbolStyleMap,
+  fallbacks: Partial<Record<SymbolKind, readonly SymbolKind[]>>,
+  palette: SymbolStyleMap,
+  origins?: SymbolStyleOrigins,
+  paletteOrigins: StyleOrigins = {},
+): SymbolStyleMap {
+  const resolved: SymbolStyleMap = {}
+  const resolvedOrigins: SymbolStyleOrigins = {}
+
+  for (const kind of Object.values(SymbolKind)) {
+    const own = styles[kind]
+    if (own?.color) {
+      resolved[kind] = own
+      resolvedOrigins[kind] = origins?.[kind]
+      continue
+    }
+
+    const fallback = (fallbacks[kind] ?? []).find((candidate) => styles[candidate]?.color)
+    const source = fallback ? styles[fallback] : palette[kind]
+    if (source || own) {
+      resolved[kind] = { ...source, ...own }
+      const sourceOrigins = fallback
+        ? pickOrigins(source, origins?.[fallback], fallback)
+        : pickOrigins(source, paletteOrigins)
+      resolvedOrigins[kind] = { ...sourceOrigins, ...origins?.[kind] }
+    }
+  }
+
+  if (origins) {
+    for (const kind of Object.values(SymbolKind)) {
+      origins[kind] = resolvedOrigins[kind]
+    }
+  }
+  return resolved
+}
+
+/** Origins of the properties the style sets, marked as borrowed from another kind if it is given */
+function pickOrigins(style: SymbolStyle | undefined, origins: StyleOrigins = {}, borrowedFrom?: SymbolKind) {
+  const picked: StyleOrigins = {}
+  for (const property of Object.keys(style ?? {}) as (keyof SymbolStyle)[]) {
+    const origin = origins[property]
+    if (origin) {
+      picked[property] = borrowedFrom ? { ...origin, borrowedFrom } : origin
+    }
+  }
+  return picked
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import type { ResolvedThemeData, TokenColorRule } from '@/theme/types'
+import { compactThemeData } from './compactThemeData'
+
+const BASE = { uri: 'file:///ext/base.json', includeLevel: 1 }
+const THEME = { uri: 'file:///ext/theme.json', includeLevel: 0 }
+
+describe('compactThemeData', () => {
+  it('should keep only the scope, foreground and font style of rules', () => {
+    const theme: ResolvedThemeData = {
+      semanticHighlighting: true,
+      semanticTokenColors: { function: { foreground: '#FUNC' } },
+      tokenColors: [
+        { name: 'Functions', scope: ['entity.name.function'], settings: { foreground: '#FUNC', background: '#000' } },
+      ] as TokenColorRule[],
+    }
+    expect(compactThemeData(theme)).toEqual({
+      semanticHighlighting: true,
+      semanticTokenColors: { function: { foreground: '#FUNC' } },
+      tokenColors: [{ scope: ['entity.name.function'], settings: { foreground: '#FUNC' } }],
+    })
+  })
+
+  it('should drop rules without a foreground or font style along with their sources', () => {
+    const theme: ResolvedThemeData = {
+      semanticHighlighting: false,
+      semanticTokenColors: {},
+      tokenColors: [
+        { scope: 'markup.inserted', settings: { background: '#00FF00' } },
+        { scope: 'comment', settings: { fontStyle: 'italic' } },
+        { scope: 'punctuation' },
+        { scope: 'entity.name.type', settings: { foreground: '#TYPE' } },
+      ] as TokenColorRule[],
+      sources: { semanticTokenColors: {}, tokenColors: [BASE, BASE, THEME, THEME] },
+    }
+    const compacted = compactThemeData(theme)
+    expect(compacted.tokenColors).toEqual([
+      { scope: 'comment', settings: { fontStyle: 'italic' } },
+      { scope: 'entity.name.type', settings: { foreground: '#TYPE' } },
+    ])
+    expect(compacted.sources?.tokenColors).toEqual([BASE, THEME])
+  })
+
+  it('should keep the first rule without a scope as the default text style', () => {
+    const theme: ResolvedThemeData = {
+      semanticHighlighting: false,
+      semanticTokenColors: {},
+      tokenColors: [
+        { settings: { background: '#272822' } },
+        { settings: { foreground: '#F8F8F2' } },
+      ] as TokenColorRule[],
+    }
+    expect(compactThemeData(theme).tokenColors).toEqual([{ settings: {} }, { settings: { foreground: '#F8F8F2' } }])
+  })
+})
@@ -0,0 +1,40 @@
+import type { ResolvedThemeData, TokenColorRule, TokenStyle } from '@/theme/types'
+
+/**
+ * The parts of a parsed theme styles are resolved from: rules keep only their scope, foreground and font style, and rules
+ * setting neither are dropped along with their sources. The first rule without a scope stays as the default text style
+ */
+export function compactThemeData(theme: ResolvedThemeData): ResolvedThemeData {
+  const defaultIndex = theme.tokenColors.findIndex((rule) => !rule.scope && rule.settings)
+  const kept: number[] = []
+  const tokenColors: TokenColorRule[] = []
+  for (const [index, rule] of theme.tokenColors.entries()) {
+    const settings = compactSettings(rule.settings)
+    if (Object.keys(settings).length > 0 || index === defaultIndex) {
+      kept.push(index)
+      tokenColors.push(rule.scope === undefined ? { settings } : { scope: rule.scope, settings })
+    }
+  }
+
+  const compacted: ResolvedThemeData = {
+    semanticHighlighting: theme.semanticHighlighting,
+    semanticTokenColors: theme.semanticTokenColors,
+    tokenColors,
+  }
+  if (theme.sources) {
+    const { semanticTokenColors, tokenColors: locations } = theme.sources
+    compacted.sources = { semanticTokenColors, tokenColors: kept.map((index) => locations[index]) }
+  }
+  return compacted
+}
+
+function compactSettings(settings: TokenStyle | undefined) {
+  const compacted: TokenStyle = {}
+  if (typeof settings?.foreground === 'string') {
+    compacted.foreground = settings.foreground
+  }
+  if (typeof settings?.fontStyle === 'string') {
+    compacted.fontStyle = settings.fontStyle
+  }
+  return compacted
+}
@@ -0,0 +1,239 @@
+import { describe, expect, it } from 'vitest'
+import { SymbolKind } from '@/symbol'
+import { type ResolvedThemeData, StyleSource, type SymbolStyleOrigins } from '@/theme/types'
+import { extractSymbolStyles } from './extractSymbolStyles'
+
+describe('extractSymbolStyles', () => {
+  describe('semanticHighlighting: true', () => {
+    it('should prefer semanticTokenColors over tokenColors', () => {
+      const theme: ResolvedThemeData = {
+        semanticHighlighting: true,
+        semanticTokenColors: { function: { foreground: '#DCDCAA' } },
+        tokenColors: [{ scope: 'entity.name.function', settings: { foreground: '#FF0000' } }],
+      }
+      const styles = extractSymbolStyles(theme)
+      expect(styles[SymbolKind.Function]?.color).toBe('#DCDCAA')
+    })
+
+    it('should fall back to tokenColors when semantic color is missing', () => {
+      const theme: ResolvedThemeData = {
+        semanticHighlighting: true,
+        semanticTokenColors: {},
+        tokenColors: [{ scope: 'entity.name.function', settings: { foreground: '#FF0000' } }],
+      }
+      const styles = extractSymbolStyles(theme)
+      expect(styles[SymbolKind.Function]?.color).toBe('#FF0000')
+    })
+  })
+
+  describe('semanticHighlighting: false', () => {
+    it('should prefer tokenColors over semanticTokenColors', () => {
+      const theme: ResolvedThemeData = {
+        semanticHighlighting: false,
+        semanticTokenColors: { function: { foreground: '#DCDCAA' } },
+        tokenColors: [{ scope: 'entity.name.function', settings: { foreground: '#FF0000' } }],
+      }
+      const styles = extractSymbolStyles(theme)
+      expect(styles[SymbolKind.Function]?.color).toBe('#FF0000')
+    })
+
+    it('should fall back to semanticTokenColors when tokenColors is missing', () => {
+      const theme: ResolvedThemeData = {
+        semanticHighlighting: false,
+        semanticTokenColors: { function: { foreground: '#DCDCAA' } },
+        tokenColors: [],
+      }
+      const styles = extractSymbolStyles(theme)
+      expect(styles[SymbolKind.Function]?.color).toBe('#DCDCAA')
+    })
+  })
+
+  it('should return empty map when no colors available', () => {
+    const theme: ResolvedThemeData = {
+      semanticHighlighting: false,
+      semanticTokenColors: {},
+      tokenColors: [],
+    }
+    expect(extractSymbolStyles(theme)).toEqual({})
+  })
+
+  it('should extract styles for all symbol kinds from semanticTokenColors', () => {
+    const theme: ResolvedThemeData = {
+      semanticHighlighting: true,
+      semanticTokenColors: {
+        function: { foreground: '#DCDCAA' },
+        class: { foreground: '#4EC9B0' },
+        interface: { foreground: '#4EC9B0' },
+        type: { foreground: '#4EC9B0' },
+        enum: { foreground: '#4EC9B0' },
+        namespace: { foreground: '#4EC9B0' },
+        variable: { foreground: '#9CDCFE' },
+      },
+      tokenColors: [],
+    }
+    const styles = extractSymbolStyles(theme)
+    expect(styles[SymbolKind.Function]?.color).toBe('#DCDCAA')
+    expect(styles[SymbolKind.Class]?.color).toBe('#4EC9B0')
+    expect(styles[SymbolKind.Interface]?.color).toBe('#4EC9B0')
+    expect(styles[SymbolKind.Type]?.color).toBe('#4EC9B0')
+    expect(styles[SymbolKind.Enum]?.color).toBe('#4EC9B0')
+    expect(styles[SymbolKind.Namespace]?.color).toBe('#4EC9B0')
+    expect(styles[SymbolKind.Variable]?.color).toBe('#9CDCFE')
+  })
+
+  it('should only include kinds that have styles', () => {
+    const theme: ResolvedThemeData = {
+      semanticHighlighting: true,
+      semanticTokenColors: { function: { foreground: '#DCDCAA' } },
+      tokenColors: [],
+    }
+    const styles = extractSymbolStyles(theme)
+    expect(styles[SymbolKind.Function]?.color).toBe('#DCDCAA')
+    expect(styles[SymbolKind.Class]).toBeUndefined()
+    expect(styles[SymbolKind.Variable]).toBeUndefined()
+  })
+
+  it('should carry font styles alongside colors', () => {
+    const theme: ResolvedThemeData = {
+      semanticHighlighting: true,
+      semanticTokenColors: { function: { fontStyle: 'italic' } },
+      tokenColors: [
+        { scope: 'entity.name.function', settings: { foreground: '#DCDCAA', fontStyle: 'bold' } },
+        { scope: 'entity.name.type', settings: { fontStyle: 'underline' } },
+      ],
+    }
+    const styles = extractSymbolStyles(theme)
+    expect(styles[SymbolKind.Function]).toEqual({ color: '#DCDCAA', fontStyle: 'italic' })
+    expect(styles[SymbolKind.Class]).toEqual({ fontStyle: 'underline' })
+  })
+
+  it('should style kinds as tokens with the modifiers in the language', () => {
+    const theme: ResolvedThemeData = {
+      semanticHighlighting: true,
+      semanticTokenColors: {
+        'variable:typescript': { foreground: '#TYPESCRIPT' },
+        'variable:javascript': { foreground: '#JAVASCRIPT' },
+        'variable.readonly': { foreground: '#READONLY' },
+        'function.defaultLibrary': { foreground: '#LIBRARY' },
+      },
+      tokenColors: [],
+    }
+    expect(extractSymbolStyles(theme)[SymbolKind.Variable]).toEqual({ color: '#TYPESCRIPT' })
+    expect(extractSymbolStyles(theme)[SymbolKind.Function]).toBeUndefined()
+    expect(extractSymbolStyles(theme, [], undefined, [], [], 'javascript')[SymbolKind.Variable]).toEqual({
+      color: '#JAVASCRIPT',
+    })
+    const readonly = extractSymbolStyles(theme, [], undefined, [], ['readonly', 'defaultLibrary'], 'typescript')
+    expect(readonly[SymbolKind.Variable]).toEqual({ color: '#READONLY' })
+    expect(readonly[SymbolKind.Function]).toEqual({ color: '#LIBRARY' })
+  })
+
+  it('should probe the semantic token scopes of the modifiers', () => {
+    const theme: ResolvedThemeData = {
+      semanticHighlighting: true,
+      semanticTokenColors: {},
+      tokenColors: [
+        { scope: 'variable.other.readwrite', settings: { foreground: '#VARIABLE' } },
+        { scope: 'variable.other.constant', settings: { foreground: '#CONSTANT' } },
+      ],
+    }
+    expect(extractSymbolStyles(theme)[SymbolKind.Variable]).toEqual({ color: '#VARIABLE' })
+    expect(extractSymbolStyles(theme, [], undefined, [], ['readonly'])[SymbolKind.Variable]).toEqual({
+      color: '#CONSTANT',
+    })
+  })
+
+  it('should probe contributed semantic token scopes before the grammar scopes', () => {
+    const theme: ResolvedThemeData = {
+      semanticHighlighting: true,
+      semanticTokenColors: {},
+      tokenColors: [
+        { scope: 'entity.name.function', settings: { foreground: '#DCDCAA' } },
+        { scope: 'support.function.ts', settings: { foreground: '#FF0000' } },
+      ],
+    }
+    const styles = extractSymbolStyles(theme, [
+      { selector: { type: 'function', modifiers: [] }, scopes: [['support.function.ts']] },
+    ])
+    expect(styles[SymbolKind.Function]).toEqual({ color: '#FF0000' })
+  })
+
+  it('should record the theme rules and files the styles come from', () => {
+    const location = { uri: 'file:///ext/base.json', includeLevel: 1 }
+    const theme: ResolvedThemeData = {
+      semanticHighlighting: true,
+      semanticTokenColors: { function: { foreground: '#DCDCAA' } },
+      tokenColors: [
+        { scope: 'entity.name.function', settings: { fontStyle: 'italic' } },
+        { scope: 'support.class', settings: { foreground: '#4EC9B0' } },
+      ],
+      sources: {
+        semanticTokenColors: { function: { uri: 'file:///ext/theme.json', includeLevel: 0 } },
+        tokenColors: [location, location],
+      },
+    }
+    const origins: SymbolStyleOrigins = {}
+    extractSymbolStyles(theme, [], origins)
+
+    expect(origins[SymbolKind.Function]).toEqual({
+      color: {
+        source: StyleSource.SemanticTokenColors,
+        selector: 'function',
+        location: { uri: 'file:///ext/theme.json', includeLevel: 0 },
+      },
+      fontStyle: {
+        source: StyleSource.SemanticTokenScopes,
+        selector: 'entity.name.function',
+        scopes: ['entity.name.function'],
+        location,
+      },
+    })
+    expect(origins[SymbolKind.Class]?.color).toEqual({
+      source: StyleSource.SemanticTokenScopes,
+      selector: 'support.class',
+      scopes: ['support.class'],
+      location,
+    })
+    expect(origins[SymbolKind.Variable]).toBeUndefined()
+  })
+
+  it('should rank user textMateRules together with the theme tokenColors', () => {
+    const theme: ResolvedThemeData = {
+      semanticHighlighting: false,
+      semanticTokenColors: {},
+      tokenColors: [{ scope: 'entity.name.function', settings: { foreground: '#THEME', fontStyle: 'italic' } }],
+    }
+    const styles = extractSymbolStyles(theme, [], undefined, [
+      { scope: 'entity.name', settings: { foreground: '#USER' } },
+      { scope: 'entity.name.function', settings: { fontStyle: 'bold' } },
+    ])
+    expect(styles[SymbolKind.Function]).toEqual({ color: '#THEME', fontStyle: 'bold' })
+    expect(styles[SymbolKind.Class]).toEqual({ color: '#USER' })
+  })
+
+  it('should record the settings taken from user textMateRules as customizations', () => {
+    const location = { uri: 'file:///ext/theme.json', includeLevel: 0 }
+    const theme: ResolvedThemeData = {
+      semanticHighlighting: true,
+      semanticTokenColors: {},
+      tokenColors: [{ scope: 'entity.name.function', settings: { foreground: '#THEME' } }],
+      sources: { semanticTokenColors: {}, tokenColors: [location] },
+    }
+    const origins: SymbolStyleOrigins = {}
+    extractSymbolStyles(theme, [], origins, [{ scope: 'entity.name.function', settings: { fontStyle: 'bold' } }])
+
+    expect(origins[SymbolKind.Function]).toEqual({
+      color: {
+        source: StyleSource.SemanticTokenScopes,
+        selector: 'entity.name.function',
+        scopes: ['entity.name.function'],
+        location,
+      },
+      fontStyle: {
+        source: StyleSource.TokenColorCustomizations,
+        selector: 'entity.name.function',
+        scopes: ['entity.name.function'],
+      },
+    })
+  })
+})
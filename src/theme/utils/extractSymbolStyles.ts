@@ -0,0 +1,96 @@
+import { SymbolKind } from '@/symbol'
+import {
+  type ResolvedThemeData,
+  type RuleMatches,
+  type SemanticTokenScopeMapping,
+  StyleSource,
+  type SymbolStyleMap,
+  type SymbolStyleOrigins,
+  type TokenColorRule,
+  type TokenStyle,
+} from '@/theme/types'
+import { findSemanticTokenScopeStyle } from './findSemanticTokenScopeStyle'
+import { findSemanticTokenStyle } from './findSemanticTokenStyle'
+import { findTextMateStyle } from './findTextMateStyle'
+import { type StyleCandidate, toStyleOrigins } from './toStyleOrigins'
+import { toSymbolStyle } from './toSymbolStyle'
+
+/**
+ * Styles the theme gives each kind as a semantic token with the modifiers in the language, recording where their
+ * settings come from in `origins`. User `textMateRules` are ranked together with the theme's `tokenColors`, after them
+ */
+export function extractSymbolStyles(
+  theme: ResolvedThemeData,
+  semanticTokenScopes: readonly SemanticTokenScopeMapping[] = [],
+  origins?: SymbolStyleOrigins,
+  userTokenColors: readonly TokenColorRule[] = [],
+  modifiers: readonly string[] = [],
+  language = 'typescript',
+): SymbolStyleMap {
+  const styles: SymbolStyleMap = {}
+  const tokenColors = [...theme.tokenColors, ...userTokenColors]
+
+  for (const kind of Object.values(SymbolKind)) {
+    const semanticMatches: RuleMatches = {}
+    const semantic: StyleCandidate = {
+      source: StyleSource.SemanticTokenColors,
+      style: findSemanticTokenStyle(kind, theme.semanticTokenColors, modifiers, language, semanticMatches),
+      matches: semanticMatches,
+    }
+    const textmateMatches: RuleMatches = {}
+    const textmate: StyleCandidate = {
+      source: StyleSource.TokenColors,
+      style: findTextMateStyle(kind, tokenColors, textmateMatches),
+      matches: textmateMatches,
+    }
+
+    // Unstyled semantic tokens probe their mapped TextMate scopes before keeping the grammar's style
+    let candidates = [textmate, semantic]
+    if (theme.semanticHighlighting) {
+      const scopeMatches: RuleMatches = {}
+      const scopeStyle = findSemanticTokenScopeStyle(
+        kind,
+        tokenColors,
+        semanticTokenScopes,
+        modifiers,
+        language,
+        scopeMatches,
+      )
+      candidates = [
+        semantic,
+        { source: StyleSource.SemanticTokenScopes, style: scopeStyle, matches: scopeMatches },
+        textmate,
+      ]
+    }
+
+    const style = toSymbolStyle(...candidates.map((candidate) => candidate.style))
+    if (style) {
+      styles[kind] = style
+      if (origins) {
+        const splitCandidates = candidates.flatMap((candidate) => splitUserRules(candidate, theme.tokenColors.length))
+        origins[kind] = toStyleOrigins(splitCandidates, theme.sources)
+      }
+    }
+  }
+
+  return styles
+}
+
+/** Splits off the settings a candidate took from user rules, which follow the theme's `themeRuleCount` rules */
+function splitUserRules(candidate: StyleCandidate, themeRuleCount: number): StyleCandidate[] {
+  const { style, matches } = candidate
+  const isUserRule = (setting: keyof TokenStyle) => (matches[setting]?.index ?? -1) >= themeRuleCount
+  const settings = Object.keys(style ?? {}) as (keyof TokenStyle)[]
+  if (!style || !settings.some(isUserRule)) {
+    return [candidate]
+  }
+  const pick = (user: boolean): StyleCandidate => {
+    const picked = settings.filter((setting) => isUserRule(setting) === user)
+    return {
+      source: user ? StyleSource.TokenColorCustomizations : candidate.source,
+      style: Object.fromEntries(picked.map((setting) => [setting, style[setting]])),
+      matches: Object.fromEntries(picked.map((setting) => [setting, matches[setting]])),
+    }
+  }
+  return [pick(false), pick(true)]
+}
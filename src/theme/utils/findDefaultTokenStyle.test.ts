@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import type { RuleMatches, TokenColorRule } from '@/theme/types'
+import { findDefaultTokenStyle } from './findDefaultTokenStyle'
+
+describe('findDefaultTokenStyle', () => {
+  it('should read the first rule without a scope', () => {
+    const tokenColors: TokenColorRule[] = [
+      { scope: 'comment', settings: { foreground: '#6A9955' } },
+      { settings: { foreground: '#F8F8F2', fontStyle: '' } },
+      { settings: { foreground: '#000000' } },
+    ]
+    expect(findDefaultTokenStyle(tokenColors)).toEqual({ foreground: '#F8F8F2', fontStyle: '' })
+  })
+
+  it('should ignore the background and other settings', () => {
+    const tokenColors = [{ settings: { background: '#272822' } }] as TokenColorRule[]
+    expect(findDefaultTokenStyle(tokenColors)).toBeUndefined()
+  })
+
+  it('should return undefined when every rule has a scope', () => {
+    expect(findDefaultTokenStyle([{ scope: 'comment', settings: { foreground: '#6A9955' } }])).toBeUndefined()
+  })
+
+  it('should record the index of the default rule', () => {
+    const matches: RuleMatches = {}
+    findDefaultTokenStyle(
+      [{ scope: 'comment', settings: { foreground: '#6A9955' } }, { settings: { foreground: '#F8F8F2' } }],
+      matches,
+    )
+    expect(matches).toEqual({ foreground: { index: 1 } })
+  })
+})
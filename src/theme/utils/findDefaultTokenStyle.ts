@@ -0,0 +1,27 @@
+import type { RuleMatches, TokenColorRule, TokenStyle } from '@/theme/types'
+
+/**
+ * The theme's default text style, which TextMate themes set through their first rule without a scope, recording the
+ * rule in `matches`
+ */
+export function findDefaultTokenStyle(tokenColors: TokenColorRule[], matches?: RuleMatches): TokenStyle | undefined {
+  const index = tokenColors.findIndex((rule) => !rule.scope && rule.settings)
+  const settings = tokenColors[index]?.settings
+  if (!settings) {
+    return undefined
+  }
+
+  const style: TokenStyle = {}
+  if (settings.foreground) {
+    style.foreground = settings.foreground
+  }
+  if (typeof settings.fontStyle === 'string') {
+    style.fontStyle = settings.fontStyle
+  }
+  if (matches) {
+    for (const setting of Object.keys(style) as (keyof TokenStyle)[]) {
+      matches[setting] = { index }
+    }
+  }
+  return Object.keys(style).length > 0 ? style : undefined
+}
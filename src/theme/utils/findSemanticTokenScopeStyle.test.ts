@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { SymbolKind } from '@/symbol'
+import type { RuleMatches, SemanticTokenScopeMapping, TokenColorRule } from '@/theme/types'
+import { findSemanticTokenScopeStyle } from './findSemanticTokenScopeStyle'
+
+describe('findSemanticTokenScopeStyle', () => {
+  it('should probe the built-in scopes of the token type', () => {
+    const tokenColors: TokenColorRule[] = [{ scope: 'entity.name.function', settings: { foreground: '#DCDCAA' } }]
+    expect(findSemanticTokenScopeStyle(SymbolKind.Function, tokenColors)).toEqual({ foreground: '#DCDCAA' })
+  })
+
+  it('should probe later scopes when earlier ones resolve nothing', () => {
+    const tokenColors: TokenColorRule[] = [{ scope: 'support.class', settings: { foreground: '#4EC9B0' } }]
+    expect(findSemanticTokenScopeStyle(SymbolKind.Class, tokenColors)).toEqual({ foreground: '#4EC9B0' })
+  })
+
+  it('should fall back to the mappings of super types', () => {
+    const tokenColors: TokenColorRule[] = [{ scope: 'support.type', settings: { foreground: '#4EC9B0' } }]
+    expect(findSemanticTokenScopeStyle(SymbolKind.Interface, tokenColors)).toEqual({ foreground: '#4EC9B0' })
+  })
+
+  it('should prefer contributed language-specific mappings', () => {
+    const tokenColors: TokenColorRule[] = [
+      { scope: 'entity.name.function', settings: { foreground: '#111111' } },
+      { scope: 'meta.import entity.name.function.ts', settings: { foreground: '#222222', fontStyle: 'italic' } },
+    ]
+    const mappings: SemanticTokenScopeMapping[] = [
+      {
+        selector: { type: 'function', modifiers: [], language: 'typescript' },
+        scopes: [['meta.import', 'entity.name.function.ts']],
+      },
+    ]
+    expect(findSemanticTokenScopeStyle(SymbolKind.Function, tokenColors, mappings)).toEqual({
+      foreground: '#222222',
+      fontStyle: 'italic',
+    })
+    expect(findSemanticTokenScopeStyle(SymbolKind.Function, tokenColors, mappings, [], 'javascript')).toEqual({
+      foreground: '#111111',
+    })
+  })
+
+  it('should use modifier mappings only for tokens with those modifiers', () => {
+    const tokenColors: TokenColorRule[] = [
+      { scope: 'variable.other.readwrite', settings: { foreground: '#111111' } },
+      { scope: 'variable.other.constant', settings: { foreground: '#222222' } },
+    ]
+    expect(findSemanticTokenScopeStyle(SymbolKind.Variable, tokenColors)).toEqual({ foreground: '#111111' })
+    expect(findSemanticTokenScopeStyle(SymbolKind.Variable, tokenColors, [], ['readonly'])).toEqual({
+      foreground: '#222222',
+    })
+  })
+
+  it('should return undefined when no probed scope is styled', () => {
+    expect(findSemanticTokenScopeStyle(SymbolKind.Namespace, [])).toBeUndefined()
+  })
+
+  it('should record the TextMate rule and the scope path each setting is taken from', () => {
+    const tokenColors: TokenColorRule[] = [
+      { scope: 'keyword', settings: { foreground: '#C586C0' } },
+      { scope: 'support.class', settings: { foreground: '#4EC9B0' } },
+    ]
+    const matches: RuleMatches = {}
+    findSemanticTokenScopeStyle(SymbolKind.Class, tokenColors, [], undefined, undefined, matches)
+    expect(matches).toEqual({ foreground: { selector: 'support.class', index: 1, scopes: ['support.class'] } })
+  })
+})
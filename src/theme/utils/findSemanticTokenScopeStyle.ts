@@ -0,0 +1,56 @@
+import type { SymbolKind } from '@/symbol'
+import { DEFAULT_SEMANTIC_TOKEN_SCOPES, SEMANTIC_TOKEN_TYPES } from '@/theme/constants'
+import type { RuleMatches, SemanticTokenScopeMapping, TokenColorRule, TokenStyle } from '@/theme/types'
+import { resolveScopeStackStyle } from './resolveScopeStackStyle'
+import { scoreSemanticTokenSelector } from './scoreSemanticTokenSelector'
+
+const SETTINGS = ['foreground', 'fontStyle'] as const
+
+/**
+ * Style VS Code falls back to for a semantic token no `semanticTokenColors` rule styles: every mapping whose selector
+ * matches probes its scopes against the TextMate rules, and each setting comes from the highest scoring mapping
+ * that resolves it. Contributed mappings follow the built-in ones, so they win ties. `matches` records the TextMate rule
+ * each setting is taken from, along with the scope path probed
+ */
+export function findSemanticTokenScopeStyle(
+  kind: SymbolKind,
+  tokenColors: TokenColorRule[],
+  semanticTokenScopes: readonly SemanticTokenScopeMapping[] = [],
+  modifiers: readonly string[] = [],
+  language = 'typescript',
+  matches?: RuleMatches,
+): TokenStyle | undefined {
+  const style: TokenStyle = {}
+  const scores: Partial<Record<keyof TokenStyle, number>> = {}
+
+  for (const mapping of [...DEFAULT_SEMANTIC_TOKEN_SCOPES, ...semanticTokenScopes]) {
+    const score = scoreSemanticTokenSelector(mapping.selector, SEMANTIC_TOKEN_TYPES[kind], modifiers, language)
+    if (score < 0) {
+      continue
+    }
+
+    let probed: TokenStyle | undefined
+    let probedScopes: string[] = []
+    const probedMatches: RuleMatches = {}
+    for (const scopes of mapping.scopes) {
+      probed = resolveScopeStackStyle(scopes, tokenColors, probedMatches)
+      if (probed) {
+        probedScopes = scopes
+        break
+      }
+    }
+
+    for (const setting of SETTINGS) {
+      const value = probed?.[setting]
+      if (value !== undefined && score >= (scores[setting] ?? 0)) {
+        style[setting] = value
+        scores[setting] = score
+        if (matches) {
+          matches[setting] = { ...probedMatches[setting], scopes: probedScopes }
+        }
+      }
+    }
+  }
+
+  return Object.keys(style).length > 0 ? style : undefined
+}
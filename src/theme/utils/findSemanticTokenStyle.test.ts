@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import { SymbolKind } from '@/symbol'
+import type { RuleMatches, TokenStyle } from '@/theme/types'
+import { findSemanticTokenStyle } from './findSemanticTokenStyle'
+
+describe('findSemanticTokenStyle', () => {
+  it('should return style for matching key', () => {
+    const semanticTokenColors = { function: { foreground: '#DCDCAA' } }
+    expect(findSemanticTokenStyle(SymbolKind.Function, semanticTokenColors)).toEqual({ foreground: '#DCDCAA' })
+  })
+
+  it('should return undefined when key is not present', () => {
+    const semanticTokenColors = { function: { foreground: '#DCDCAA' } }
+    expect(findSemanticTokenStyle(SymbolKind.Class, semanticTokenColors)).toBeUndefined()
+  })
+
+  it('should return undefined for empty map', () => {
+    expect(findSemanticTokenStyle(SymbolKind.Variable, {})).toBeUndefined()
+  })
+
+  it('should map each SymbolKind to the correct semantic token key', () => {
+    const semanticTokenColors: Record<string, TokenStyle> = {
+      function: { foreground: '#FF0001' },
+      class: { foreground: '#FF0002' },
+      interface: { foreground: '#FF0003' },
+      type: { foreground: '#FF0004' },
+      enum: { foreground: '#FF0005' },
+      namespace: { foreground: '#FF0006' },
+      variable: { foreground: '#FF0007' },
+    }
+
+    expect(findSemanticTokenStyle(SymbolKind.Function, semanticTokenColors)).toEqual({ foreground: '#FF0001' })
+    expect(findSemanticTokenStyle(SymbolKind.Class, semanticTokenColors)).toEqual({ foreground: '#FF0002' })
+    expect(findSemanticTokenStyle(SymbolKind.Interface, semanticTokenColors)).toEqual({ foreground: '#FF0003' })
+    expect(findSemanticTokenStyle(SymbolKind.Type, semanticTokenColors)).toEqual({ foreground: '#FF0004' })
+    expect(findSemanticTokenStyle(SymbolKind.Enum, semanticTokenColors)).toEqual({ foreground: '#FF0005' })
+    expect(findSemanticTokenStyle(SymbolKind.Namespace, semanticTokenColors)).toEqual({ foreground: '#FF0006' })
+    expect(findSemanticTokenStyle(SymbolKind.Variable, semanticTokenColors)).toEqual({ foreground: '#FF0007' })
+  })
+
+  it('should not match unrelated keys', () => {
+    const semanticTokenColors = { keyword: { foreground: '#C586C0' }, string: { foreground: '#CE9178' } }
+    expect(findSemanticTokenStyle(SymbolKind.Function, semanticTokenColors)).toBeUndefined()
+  })
+
+  it('should fall back to super types and wildcards', () => {
+    expect(findSemanticTokenStyle(SymbolKind.Class, { type: { foreground: '#4EC9B0' } })).toEqual({
+      foreground: '#4EC9B0',
+    })
+    expect(findSemanticTokenStyle(SymbolKind.Function, { '*': { fontStyle: 'italic' } })).toEqual({
+      fontStyle: 'italic',
+    })
+  })
+
+  it('should prefer the most specific rule regardless of order', () => {
+    const semanticTokenColors = {
+      'class:typescript': { foreground: '#111111' },
+      class: { foreground: '#222222' },
+      type: { foreground: '#333333' },
+    }
+    expect(findSemanticTokenStyle(SymbolKind.Class, semanticTokenColors)).toEqual({ foreground: '#111111' })
+    expect(findSemanticTokenStyle(SymbolKind.Class, semanticTokenColors, [], 'javascript')).toEqual({
+      foreground: '#222222',
+    })
+  })
+
+  it('should only apply modifier rules when the token has those modifiers', () => {
+    const semanticTokenColors = {
+      variable: { foreground: '#111111' },
+      'variable.readonly': { foreground: '#222222' },
+      '*.deprecated': { fontStyle: 'strikethrough' },
+    }
+    expect(findSemanticTokenStyle(SymbolKind.Variable, semanticTokenColors)).toEqual({ foreground: '#111111' })
+    expect(findSemanticTokenStyle(SymbolKind.Variable, semanticTokenColors, ['readonly', 'deprecated'])).toEqual({
+      foreground: '#222222',
+      fontStyle: 'strikethrough',
+    })
+  })
+
+  it('should pick each setting from the best rule that sets it, later rules winning ties', () => {
+    const semanticTokenColors = {
+      function: { foreground: '#111111', fontStyle: 'bold' },
+      'function.defaultLibrary': { fontStyle: 'italic' },
+      'function:typescript': { foreground: '#222222' },
+    }
+    expect(findSemanticTokenStyle(SymbolKind.Function, semanticTokenColors, ['defaultLibrary'])).toEqual({
+      foreground: '#222222',
+      fontStyle: 'italic',
+    })
+    expect(
+      findSemanticTokenStyle(SymbolKind.Function, {
+        function: { foreground: '#111111' },
+        'function ': { foreground: '#222222' },
+      }),
+    ).toEqual({ foreground: '#222222' })
+  })
+
+  it('should skip malformed selectors', () => {
+    expect(findSemanticTokenStyle(SymbolKind.Function, { 'function..x': { foreground: '#111111' } })).toBeUndefined()
+  })
+
+  it('should record the selector each setting is taken from', () => {
+    const matches: RuleMatches = {}
+    findSemanticTokenStyle(
+      SymbolKind.Class,
+      { type: { foreground: '#111111', fontStyle: 'bold' }, class: { foreground: '#222222' } },
+      undefined,
+      undefined,
+      matches,
+    )
+    expect(matches).toEqual({ foreground: { selector: 'class' }, fontStyle: { selector: 'type' } })
+  })
+})
@@ -0,0 +1,45 @@
+import type { SymbolKind } from '@/symbol'
+import { SEMANTIC_TOKEN_TYPES } from '@/theme/constants'
+import type { RuleMatches, TokenStyle } from '@/theme/types'
+import { parseSemanticTokenSelector } from './parseSemanticTokenSelector'
+import { scoreSemanticTokenSelector } from './scoreSemanticTokenSelector'
+
+const SETTINGS = ['foreground', 'fontStyle'] as const
+
+/**
+ * Picks each setting from the highest scoring rule that sets it, later rules winning ties, and records the rule in
+ * `matches`. Like the TextMate scope stacks, language-qualified rules are matched as TypeScript unless told otherwise
+ */
+export function findSemanticTokenStyle(
+  kind: SymbolKind,
+  semanticTokenColors: Record<string, TokenStyle>,
+  modifiers: readonly string[] = [],
+  language = 'typescript',
+  matches?: RuleMatches,
+): TokenStyle | undefined {
+  const style: TokenStyle = {}
+  const scores: Partial<Record<keyof TokenStyle, number>> = {}
+
+  for (const [key, rule] of Object.entries(semanticTokenColors)) {
+    const selector = parseSemanticTokenSelector(key)
+    if (!selector) {
+      continue
+    }
+    const score = scoreSemanticTokenSelector(selector, SEMANTIC_TOKEN_TYPES[kind], modifiers, language)
+    if (score < 0) {
+      continue
+    }
+    for (const setting of SETTINGS) {
+      const value = rule[setting]
+      if (value !== undefined && score >= (scores[setting] ?? 0)) {
+        style[setting] = value
+        scores[setting] = score
+        if (matches) {
+          matches[setting] = { selector: key }
+        }
+      }
+    }
+  }
+
+  return Object.keys(style).length > 0 ? style : undefined
+}
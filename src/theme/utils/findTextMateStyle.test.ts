@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest'
+import { SymbolKind } from '@/symbol'
+import type { TokenColorRule } from '@/theme/types'
+import { findTextMateStyle } from './findTextMateStyle'
+
+describe('findTextMateStyle', () => {
+  it('should match exact scope', () => {
+    const tokenColors: TokenColorRule[] = [{ scope: 'entity.name.function', settings: { foreground: '#DCDCAA' } }]
+    expect(findTextMateStyle(SymbolKind.Function, tokenColors)).toEqual({ foreground: '#DCDCAA' })
+  })
+
+  it('should match parent scope (entity.name matches entity.name.type)', () => {
+    const tokenColors: TokenColorRule[] = [{ scope: 'entity.name', settings: { foreground: '#4EC9B0' } }]
+    expect(findTextMateStyle(SymbolKind.Class, tokenColors)).toEqual({ foreground: '#4EC9B0' })
+    expect(findTextMateStyle(SymbolKind.Interface, tokenColors)).toEqual({ foreground: '#4EC9B0' })
+    expect(findTextMateStyle(SymbolKind.Type, tokenColors)).toEqual({ foreground: '#4EC9B0' })
+    expect(findTextMateStyle(SymbolKind.Enum, tokenColors)).toEqual({ foreground: '#4EC9B0' })
+  })
+
+  it('should prefer more specific scope when available', () => {
+    const tokenColors: TokenColorRule[] = [
+      { scope: 'entity.name', settings: { foreground: '#4EC9B0' } },
+      { scope: 'entity.name.function', settings: { foreground: '#FF0000' } },
+    ]
+    expect(findTextMateStyle(SymbolKind.Function, tokenColors)).toEqual({ foreground: '#FF0000' })
+    expect(findTextMateStyle(SymbolKind.Type, tokenColors)).toEqual({ foreground: '#4EC9B0' })
+  })
+
+  it('should not apply rules for declaration names to references', () => {
+    const tokenColors: TokenColorRule[] = [
+      { scope: 'entity.name.type', settings: { foreground: '#4EC9B0' } },
+      { scope: 'entity.name.type.class', settings: { foreground: '#111111' } },
+      { scope: 'entity.name.type.interface', settings: { foreground: '#222222' } },
+      { scope: 'entity.name.type.enum', settings: { foreground: '#333333' } },
+    ]
+    expect(findTextMateStyle(SymbolKind.Class, tokenColors)).toEqual({ foreground: '#4EC9B0' })
+    expect(findTextMateStyle(SymbolKind.Interface, tokenColors)).toEqual({ foreground: '#4EC9B0' })
+    expect(findTextMateStyle(SymbolKind.Enum, tokenColors)).toEqual({ foreground: '#4EC9B0' })
+  })
+
+  it('should tell references apart by the expression around them', () => {
+    const tokenColors: TokenColorRule[] = [
+      { scope: 'entity.name.type', settings: { foreground: '#4EC9B0' } },
+      { scope: 'new.expr entity.name.type', settings: { foreground: '#FF0000' } },
+    ]
+    expect(findTextMateStyle(SymbolKind.Class, tokenColors)).toEqual({ foreground: '#FF0000' })
+    expect(findTextMateStyle(SymbolKind.Interface, tokenColors)).toEqual({ foreground: '#4EC9B0' })
+  })
+
+  it('should handle scope as array', () => {
+    const tokenColors: TokenColorRule[] = [
+      { scope: ['entity.name.function', 'support.function'], settings: { foreground: '#DCDCAA' } },
+    ]
+    expect(findTextMateStyle(SymbolKind.Function, tokenColors)).toEqual({ foreground: '#DCDCAA' })
+  })
+
+  it('should give later rules higher priority', () => {
+    const tokenColors: TokenColorRule[] = [
+      { scope: 'entity.name.function', settings: { foreground: '#111111' } },
+      { scope: 'entity.name.function', settings: { foreground: '#222222' } },
+    ]
+    expect(findTextMateStyle(SymbolKind.Function, tokenColors)).toEqual({ foreground: '#222222' })
+  })
+
+  it('should skip rules without foreground', () => {
+    const tokenColors: TokenColorRule[] = [
+      { scope: 'entity.name.function', settings: {} },
+      { scope: 'entity.name.function', settings: { foreground: '#DCDCAA' } },
+    ]
+    expect(findTextMateStyle(SymbolKind.Function, tokenColors)).toEqual({ foreground: '#DCDCAA' })
+  })
+
+  it('should skip rules without scope', () => {
+    const tokenColors: TokenColorRule[] = [
+      { settings: { foreground: '#000000' } },
+      { scope: 'entity.name.function', settings: { foreground: '#DCDCAA' } },
+    ]
+    expect(findTextMateStyle(SymbolKind.Function, tokenColors)).toEqual({ foreground: '#DCDCAA' })
+  })
+
+  it('should handle variable fallback from variable.other.readwrite to variable', () => {
+    const tokenColors: TokenColorRule[] = [{ scope: 'variable', settings: { foreground: '#9CDCFE' } }]
+    expect(findTextMateStyle(SymbolKind.Variable, tokenColors)).toEqual({ foreground: '#9CDCFE' })
+  })
+
+  it('should trim whitespace from scope strings', () => {
+    const tokenColors: TokenColorRule[] = [{ scope: ' entity.name.function ', settings: { foreground: '#DCDCAA' } }]
+    expect(findTextMateStyle(SymbolKind.Function, tokenColors)).toEqual({ foreground: '#DCDCAA' })
+  })
+
+  it('should return undefined when no matching scope is found', () => {
+    const tokenColors: TokenColorRule[] = [{ scope: 'keyword.control', settings: { foreground: '#C586C0' } }]
+    expect(findTextMateStyle(SymbolKind.Function, tokenColors)).toBeUndefined()
+  })
+
+  it('should resolve foreground and fontStyle from different rules', () => {
+    const tokenColors: TokenColorRule[] = [
+      { scope: 'entity.name.type', settings: { foreground: '#4EC9B0' } },
+      { scope: 'new.expr entity.name.type', settings: { fontStyle: 'italic' } },
+    ]
+    expect(findTextMateStyle(SymbolKind.Class, tokenColors)).toEqual({ foreground: '#4EC9B0', fontStyle: 'italic' })
+  })
+
+  it('should keep an empty fontStyle that clears inherited styles', () => {
+    const tokenColors: TokenColorRule[] = [
+      { scope: 'entity.name', settings: { fontStyle: 'bold' } },
+      { scope: 'entity.name.function', settings: { fontStyle: '' } },
+    ]
+    expect(findTextMateStyle(SymbolKind.Function, tokenColors)).toEqual({ fontStyle: '' })
+  })
+
+  it('should match descendant selectors against the scope stack', () => {
+    const tokenColors: TokenColorRule[] = [
+      { scope: 'source.ts meta.function-call entity.name.function', settings: { foreground: '#111111' } },
+      { scope: 'source.js entity.name.function', settings: { foreground: '#222222' } },
+    ]
+    expect(findTextMateStyle(SymbolKind.Function, tokenColors)).toEqual({ foreground: '#111111' })
+  })
+
+  it('should match comma-joined selectors in a single scope string', () => {
+    const tokenColors: TokenColorRule[] = [
+      { scope: 'support.function, entity.name.function', settings: { foreground: '#DCDCAA' } },
+    ]
+    expect(findTextMateStyle(SymbolKind.Function, tokenColors)).toEqual({ foreground: '#DCDCAA' })
+  })
+
+  it('should skip rules whose exclusions match', () => {
+    const tokenColors: TokenColorRule[] = [
+      { scope: 'entity.name.function', settings: { foreground: '#111111' } },
+      { scope: 'entity.name.function - meta.function-call', settings: { foreground: '#222222' } },
+    ]
+    expect(findTextMateStyle(SymbolKind.Function, tokenColors)).toEqual({ foreground: '#111111' })
+  })
+
+  it('should prefer a more specific scope over a later rule', () => {
+    const tokenColors: TokenColorRule[] = [
+      { scope: 'entity.name.function', settings: { foreground: '#111111' } },
+      { scope: 'entity.name', settings: { foreground: '#222222' } },
+    ]
+    expect(findTextMateStyle(SymbolKind.Function, tokenColors)).toEqual({ foreground: '#111111' })
+  })
+
+  it('should prefer rules with more specific ancestors when scopes tie', () => {
+    const tokenColors: TokenColorRule[] = [
+      { scope: 'meta.function-call entity.name.function', settings: { foreground: '#111111' } },
+      { scope: 'entity.name.function', settings: { foreground: '#222222' } },
+      { scope: 'source entity.name.function', settings: { foreground: '#333333' } },
+    ]
+    expect(findTextMateStyle(SymbolKind.Function, tokenColors)).toEqual({ foreground: '#111111' })
+  })
+
+  it('should inherit settings from rules matching enclosing scopes', () => {
+    const tokenColors: TokenColorRule[] = [
+      { scope: 'meta.function-call', settings: { fontStyle: 'italic' } },
+      { scope: 'entity.name.function', settings: { foreground: '#DCDCAA' } },
+    ]
+    expect(findTextMateStyle(SymbolKind.Function, tokenColors)).toEqual({ foreground: '#DCDCAA', fontStyle: 'italic' })
+  })
+})
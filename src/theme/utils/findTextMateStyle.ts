@@ -0,0 +1,26 @@
+import { SymbolKind } from '@/symbol'
+import type { RuleMatches, TokenColorRule, TokenStyle } from '@/theme/types'
+import { resolveScopeStackStyle } from './resolveScopeStackStyle'
+
+/**
+ * Scopes the TypeScript grammar assigns to a reference of each kind, from outermost to innermost. References to types
+ * are all `entity.name.type`; the `.class`, `.interface` and `.enum` scopes only name declarations
+ */
+const TEXTMATE_SCOPE_STACKS: Record<SymbolKind, string[]> = {
+  [SymbolKind.Function]: ['source.ts', 'meta.function-call.ts', 'entity.name.function.ts'],
+  [SymbolKind.Class]: ['source.ts', 'new.expr.ts', 'entity.name.type.ts'],
+  [SymbolKind.Interface]: ['source.ts', 'meta.type.annotation.ts', 'entity.name.type.ts'],
+  [SymbolKind.Type]: ['source.ts', 'meta.type.annotation.ts', 'entity.name.type.ts'],
+  [SymbolKind.Enum]: ['source.ts', 'meta.type.annotation.ts', 'entity.name.type.ts'],
+  [SymbolKind.Namespace]: ['source.ts', 'entity.name.type.module.ts'],
+  [SymbolKind.Variable]: ['source.ts', 'variable.other.readwrite.ts'],
+}
+
+/** Style the theme's TextMate rules give a reference of the kind as tokenized by the grammar */
+export function findTextMateStyle(
+  kind: SymbolKind,
+  tokenColors: TokenColorRule[],
+  matches?: RuleMatches,
+): TokenStyle | undefined {
+  return resolveScopeStackStyle(TEXTMATE_SCOPE_STACKS[kind], tokenColors, matches)
+}
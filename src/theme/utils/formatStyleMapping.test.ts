@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { SymbolKind } from '@/symbol'
+import { type StyleMapping, StyleSource } from '@/theme/types'
+import { formatStyleMapping } from './formatStyleMapping'
+
+const MAPPING: StyleMapping = {
+  themeName: 'My Theme',
+  styles: {
+    [SymbolKind.Function]: { color: '#DCDCAA', fontStyle: 'italic' },
+    [SymbolKind.Enum]: { color: '#4EC9B0' },
+    [SymbolKind.Variable]: { fontStyle: 'bold' },
+  },
+  origins: {
+    [SymbolKind.Function]: {
+      color: {
+        source: StyleSource.SemanticTokenColors,
+        selector: 'function',
+        location: { uri: 'file:///ext/base.json', includeLevel: 1 },
+      },
+      fontStyle: {
+        source: StyleSource.SemanticTokenScopes,
+        selector: 'entity.name.function',
+        scopes: ['entity.name.function'],
+      },
+    },
+    [SymbolKind.Enum]: {
+      color: {
+        source: StyleSource.TokenColorCustomizations,
+        selector: 'entity.name.type',
+        borrowedFrom: SymbolKind.Type,
+      },
+    },
+    [SymbolKind.Variable]: { fontStyle: { source: StyleSource.TokenColors, selector: 'variable' } },
+  },
+}
+
+function sectionOf(markdown: string, title: string) {
+  return markdown.split('\n## ').find((section) => section.startsWith(`${title}\n`))
+}
+
+describe('formatStyleMapping', () => {
+  it('should describe where each setting of a kind comes from', () => {
+    const markdown = formatStyleMapping(MAPPING, {})
+
+    expect(markdown).toContain('Theme: `My Theme`')
+    expect(sectionOf(markdown, 'function')).toContain(
+      '- **color** `#DCDCAA` from theme `semanticTokenColors` rule `function` in file:///ext/base.json (include level 1)',
+    )
+    expect(sectionOf(markdown, 'function')).toContain(
+      '- **fontStyle** `italic` from theme `tokenColors` through `semanticTokenScopes` rule `entity.name.function` matching scopes `entity.name.function`',
+    )
+    expect(sectionOf(markdown, 'enum')).toContain(
+      '- **color** `#4EC9B0` from `editor.tokenColorCustomizations` rule `entity.name.type`, borrowed from `type`',
+    )
+  })
+
+  it('should list kinds without a color', () => {
+    const markdown = formatStyleMapping(MAPPING, {})
+
+    expect(sectionOf(markdown, 'variable')).toContain('- no color')
+    expect(sectionOf(markdown, 'Kinds without a color')).toContain('class, interface, type, namespace, variable')
+  })
+
+  it('should apply the styles setting on top of the theme styles', () => {
+    const markdown = formatStyleMapping(MAPPING, { [SymbolKind.Variable]: { color: '#FF0000', opacity: 0.5 } })
+
+    expect(sectionOf(markdown, 'variable')).toContain('- **color** `#FF0000` from `semanticImports.styles`')
+    expect(sectionOf(markdown, 'variable')).toContain('- **opacity** `0.5` from `semanticImports.styles`')
+    expect(sectionOf(markdown, 'variable')).toContain('- **fontStyle** `bold` from theme `tokenColors` rule `variable`')
+    expect(sectionOf(markdown, 'Kinds without a color')).not.toContain('variable')
+  })
+})
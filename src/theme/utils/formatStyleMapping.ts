@@ -0,0 +1,71 @@
+import { SymbolKind } from '@/symbol'
+import {
+  type StyleMapping,
+  type StyleOrigin,
+  type StyleOrigins,
+  StyleSource,
+  type SymbolStyle,
+  type SymbolStyleMap,
+} from '@/theme/types'
+
+const SOURCE_LABELS: Record<StyleSource, string> = {
+  [StyleSource.SemanticTokenColors]: 'theme `semanticTokenColors`',
+  [StyleSource.SemanticTokenScopes]: 'theme `tokenColors` through `semanticTokenScopes`',
+  [StyleSource.TokenColors]: 'theme `tokenColors`',
+  [StyleSource.DefaultStyle]: 'theme default style',
+  [StyleSource.DefaultPalette]: "VS Code's default colors",
+  [StyleSource.SemanticTokenColorCustomizations]: '`editor.semanticTokenColorCustomizations`',
+  [StyleSource.TokenColorCustomizations]: '`editor.tokenColorCustomizations`',
+  [StyleSource.Settings]: '`semanticImports.styles`',
+}
+
+/**
+ * Renders the style of every kind and where each of its settings comes from as Markdown, with the `overrides` from the
+ * `semanticImports.styles` setting applied on top like the decorations do
+ */
+export function formatStyleMapping(mapping: StyleMapping, overrides: SymbolStyleMap): string {
+  const lines = [
+    '# Semantic Imports: Color Mapping',
+    '',
+    `Theme: ${mapping.themeName ? `\`${mapping.themeName}\`` : 'none'}`,
+  ]
+  const uncolored: SymbolKind[] = []
+
+  for (const kind of Object.values(SymbolKind)) {
+    const style: SymbolStyle = { ...mapping.styles[kind], ...overrides[kind] }
+    const origins: StyleOrigins = { ...mapping.origins[kind] }
+    for (const property of Object.keys(overrides[kind] ?? {}) as (keyof SymbolStyle)[]) {
+      origins[property] = { source: StyleSource.Settings }
+    }
+
+    lines.push('', `## ${kind}`, '')
+    if (!style.color) {
+      uncolored.push(kind)
+      lines.push('- no color')
+    }
+    for (const [property, value] of Object.entries(style) as [keyof SymbolStyle, string | number][]) {
+      const origin = origins[property]
+      lines.push(`- **${property}** \`${value}\`${origin ? ` from ${describeStyleOrigin(origin)}` : ''}`)
+    }
+  }
+
+  lines.push('', '## Kinds without a color', '', uncolored.length > 0 ? uncolored.join(', ') : 'none', '')
+  return lines.join('\n')
+}
+
+function describeStyleOrigin(origin: StyleOrigin) {
+  let description = SOURCE_LABELS[origin.source]
+  if (origin.selector !== undefined) {
+    description += ` rule \`${origin.selector}\``
+  }
+  if (origin.scopes) {
+    description += ` matching scopes \`${origin.scopes.join(' ')}\``
+  }
+  if (origin.location) {
+    description += ` in ${origin.location.uri} (include level ${origin.location.includeLevel})`
+  }
+  if (origin.borrowedFrom) {
+    description += `, borrowed from \`${origin.borrowedFrom}\``
+  }
+  return description
+}
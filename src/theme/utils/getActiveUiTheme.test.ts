@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import * as vscode from 'vscode'
+import { getActiveUiTheme } from './getActiveUiTheme'
+
+function setThemeKind(kind: vscode.ColorThemeKind) {
+  ;(vscode.window.activeColorTheme as { kind: vscode.ColorThemeKind }).kind = kind
+}
+
+describe('getActiveUiTheme', () => {
+  afterEach(() => {
+    setThemeKind(vscode.ColorThemeKind.Dark)
+  })
+
+  it('should map each theme kind to its base theme', () => {
+    const expected: Array<[vscode.ColorThemeKind, string]> = [
+      [vscode.ColorThemeKind.Light, 'vs'],
+      [vscode.ColorThemeKind.Dark, 'vs-dark'],
+      [vscode.ColorThemeKind.HighContrast, 'hc-black'],
+      [vscode.ColorThemeKind.HighContrastLight, 'hc-light'],
+    ]
+    for (const [kind, uiTheme] of expected) {
+      setThemeKind(kind)
+      expect(getActiveUiTheme()).toBe(uiTheme)
+    }
+  })
+})
@@ -0,0 +1,16 @@
+import * as vscode from 'vscode'
+import type { UiTheme } from '@/theme/types'
+
+/** Base theme of the active color theme, for when its contribution cannot be found */
+export function getActiveUiTheme(): UiTheme {
+  switch (vscode.window.activeColorTheme?.kind) {
+    case vscode.ColorThemeKind.Light:
+      return 'vs'
+    case vscode.ColorThemeKind.HighContrast:
+      return 'hc-black'
+    case vscode.ColorThemeKind.HighContrastLight:
+      return 'hc-light'
+    default:
+      return 'vs-dark'
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { getThemeScopedEntries } from './getThemeScopedEntries'
+
+describe('getThemeScopedEntries', () => {
+  it('should return entries of exactly matching theme scopes', () => {
+    const config = { rules: {}, '[My Theme]': 1, '[Other Theme]': 2 }
+    expect(getThemeScopedEntries(config, 'My Theme')).toEqual([1])
+  })
+
+  it('should match any theme of a multi-theme key', () => {
+    const config = { '[Theme A][My Theme]': 1, '[Theme A][Theme B]': 2 }
+    expect(getThemeScopedEntries(config, 'My Theme')).toEqual([1])
+  })
+
+  it('should match wildcards and keep setting order', () => {
+    const config = { '[*Dark*]': 1, '[Default*]': 2, '[*Light]': 3, '[Default Dark Modern]': 4 }
+    expect(getThemeScopedEntries(config, 'Default Dark Modern')).toEqual([1, 2, 4])
+  })
+
+  it('should treat other characters literally', () => {
+    const config = { '[Theme (Plus)]': 1, '[Theme.*]': 2 }
+    expect(getThemeScopedEntries(config, 'Theme (Plus)')).toEqual([1])
+    expect(getThemeScopedEntries(config, 'ThemeX')).toEqual([])
+  })
+
+  it('should ignore keys that are not theme scopes', () => {
+    const config = { rules: 1, textMateRules: 2, '[My Theme] extra': 3 }
+    expect(getThemeScopedEntries(config, 'My Theme')).toEqual([])
+  })
+})
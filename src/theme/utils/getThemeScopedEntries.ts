@@ -0,0 +1,25 @@
+const THEME_SCOPE_KEY = /^(?:\[[^\]]+\])+$/
+const THEME_SCOPE = /\[([^\]]+)\]/g
+
+/**
+ * Values of the `[Theme]` keys of a customization setting that apply to the theme, in setting order. A key may list
+ * several themes (`[Theme A][Theme B]`) and use `*` wildcards (`[*Dark*]`)
+ */
+export function getThemeScopedEntries<T>(config: Record<string, unknown>, themeName: string): T[] {
+  return Object.entries(config)
+    .filter(([key]) => THEME_SCOPE_KEY.test(key) && matchesAnyScope(key, themeName))
+    .map(([, value]) => value as T)
+}
+
+function matchesAnyScope(key: string, themeName: string) {
+  for (const [, scope] of key.matchAll(THEME_SCOPE)) {
+    const pattern = scope
+      .trim()
+      .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+    if (new RegExp(`^${pattern}$`).test(themeName)) {
+      return true
+    }
+  }
+  return false
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { matchScopeSelector } from './matchScopeSelector'
+import { parseScopeSelector } from './parseScopeSelector'
+
+const STACK = ['source.ts', 'meta.block.ts', 'meta.function-call.ts', 'entity.name.function.ts']
+
+function matches(selector: string, stack = STACK) {
+  return matchScopeSelector(parseScopeSelector(selector)[0], stack)
+}
+
+describe('matchScopeSelector', () => {
+  it('should match the innermost scope by dot-separated prefix', () => {
+    expect(matches('entity.name.function')).toBe(true)
+    expect(matches('entity')).toBe(true)
+    expect(matches('entity.name.func')).toBe(false)
+  })
+
+  it('should not match scopes other than the innermost one', () => {
+    expect(matches('meta.function-call')).toBe(false)
+  })
+
+  it('should match ancestors in order without requiring them to be adjacent', () => {
+    expect(matches('source.ts entity.name.function')).toBe(true)
+    expect(matches('source meta.function-call entity.name')).toBe(true)
+    expect(matches('meta.function-call source.ts entity.name.function')).toBe(false)
+    expect(matches('source.js entity.name.function')).toBe(false)
+  })
+
+  it('should require a direct parent after the child combinator', () => {
+    expect(matches('meta.function-call > entity.name.function')).toBe(true)
+    expect(matches('meta.block > entity.name.function')).toBe(false)
+    expect(matches('source.ts > meta.block entity.name.function')).toBe(true)
+  })
+
+  it('should reject stacks matching an exclusion', () => {
+    expect(matches('entity.name.function - meta.function-call')).toBe(false)
+    expect(matches('entity.name.function -comment')).toBe(true)
+    expect(matches('entity.name.function - source.ts meta.block')).toBe(false)
+  })
+
+  it('should not match an empty stack', () => {
+    expect(matches('source', [])).toBe(false)
+  })
+})
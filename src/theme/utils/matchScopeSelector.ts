@@ -0,0 +1,54 @@
+import type { ScopeSelector } from '@/theme/types'
+
+/** Whether the selector applies to the innermost scope of `stack`, which is ordered from outermost to innermost */
+export function matchScopeSelector(selector: ScopeSelector, stack: readonly string[]): boolean {
+  const innermost = stack.length - 1
+  if (innermost < 0 || !matchesScope(stack[innermost], selector.scope)) {
+    return false
+  }
+  if (!matchesParents(selector.parentScopes, stack, innermost - 1)) {
+    return false
+  }
+  return !selector.exclusions.some((exclusion) => matchesPath(exclusion, stack))
+}
+
+function matchesScope(scope: string, selector: string) {
+  return scope === selector || scope.startsWith(selector + '.')
+}
+
+/** Matches ancestor selectors in order against the stack walking outwards, each consuming the scopes it skips */
+function matchesParents(parentScopes: readonly string[], stack: readonly string[], start: number) {
+  let index = start
+  let directParent = false
+
+  for (const parent of parentScopes) {
+    if (parent === '>') {
+      directParent = true
+      continue
+    }
+    while (index >= 0 && !matchesScope(stack[index], parent)) {
+      if (directParent) {
+        return false
+      }
+      index--
+    }
+    if (index < 0) {
+      return false
+    }
+    index--
+    directParent = false
+  }
+
+  return true
+}
+
+/** Whether a space-separated scope path appears, in order, anywhere in the stack */
+function matchesPath(path: readonly string[], stack: readonly string[]) {
+  let index = 0
+  for (const scope of stack) {
+    if (index < path.length && matchesScope(scope, path[index])) {
+      index++
+    }
+  }
+  return index === path.length
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { parseScopeSelector } from './parseScopeSelector'
+
+describe('parseScopeSelector', () => {
+  it('should parse a single scope', () => {
+    expect(parseScopeSelector('entity.name.function')).toEqual([
+      { scope: 'entity.name.function', parentScopes: [], exclusions: [] },
+    ])
+  })
+
+  it('should split comma-joined selectors and trim them', () => {
+    expect(parseScopeSelector(' entity.name.function , support.function,').map((s) => s.scope)).toEqual([
+      'entity.name.function',
+      'support.function',
+    ])
+  })
+
+  it('should list ancestor scopes from innermost to outermost', () => {
+    expect(parseScopeSelector('source.ts meta.function-call > entity.name.function')).toEqual([
+      { scope: 'entity.name.function', parentScopes: ['>', 'meta.function-call', 'source.ts'], exclusions: [] },
+    ])
+  })
+
+  it('should parse exclusions with and without a space after the dash', () => {
+    expect(parseScopeSelector('entity.name - meta.import source.ts -comment')).toEqual([
+      { scope: 'entity.name', parentScopes: [], exclusions: [['meta.import', 'source.ts'], ['comment']] },
+    ])
+  })
+
+  it('should skip selectors without a scope', () => {
+    expect(parseScopeSelector(', - comment,  ')).toEqual([])
+  })
+})
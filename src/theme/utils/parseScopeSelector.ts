@@ -0,0 +1,31 @@
+import type { ScopeSelector } from '@/theme/types'
+
+/** Splits a rule scope into its comma-separated selectors, skipping empty ones */
+export function parseScopeSelector(scope: string): ScopeSelector[] {
+  const selectors: ScopeSelector[] = []
+
+  for (const part of scope.split(',')) {
+    const paths: string[][] = [[]]
+    for (const token of part.trim().split(/\s+/)) {
+      if (token.startsWith('-')) {
+        // Both `a - b` and `a -b` start an exclusion
+        paths.push(token.length > 1 ? [token.slice(1)] : [])
+      } else if (token) {
+        paths[paths.length - 1].push(token)
+      }
+    }
+
+    const [path, ...exclusions] = paths
+    const scopeName = path.pop()
+    if (!scopeName || scopeName === '>') {
+      continue
+    }
+    selectors.push({
+      scope: scopeName,
+      parentScopes: path.reverse(),
+      exclusions: exclusions.filter((exclusion) => exclusion.length > 0),
+    })
+  }
+
+  return selectors
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { parseSemanticTokenSelector } from './parseSemanticTokenSelector'
+
+describe('parseSemanticTokenSelector', () => {
+  it('should parse a bare type', () => {
+    expect(parseSemanticTokenSelector('function')).toEqual({ type: 'function', modifiers: [] })
+  })
+
+  it('should parse modifiers and a language', () => {
+    expect(parseSemanticTokenSelector('variable.readonly.defaultLibrary:typescript')).toEqual({
+      type: 'variable',
+      modifiers: ['readonly', 'defaultLibrary'],
+      language: 'typescript',
+    })
+  })
+
+  it('should parse wildcard types', () => {
+    expect(parseSemanticTokenSelector('*.deprecated')).toEqual({ type: '*', modifiers: ['deprecated'] })
+  })
+
+  it('should reject malformed selectors', () => {
+    expect(parseSemanticTokenSelector('')).toBeUndefined()
+    expect(parseSemanticTokenSelector('.readonly')).toBeUndefined()
+    expect(parseSemanticTokenSelector('variable..readonly')).toBeUndefined()
+    expect(parseSemanticTokenSelector('class:')).toBeUndefined()
+    expect(parseSemanticTokenSelector('class:a:b')).toBeUndefined()
+  })
+})
@@ -0,0 +1,10 @@
+import type { SemanticTokenSelector } from '@/theme/types'
+
+export function parseSemanticTokenSelector(selector: string): SemanticTokenSelector | undefined {
+  const [typeAndModifiers, language, ...rest] = selector.trim().split(':')
+  const [type, ...modifiers] = typeAndModifiers.split('.')
+  if (!type || rest.length > 0 || modifiers.some((modifier) => !modifier) || language === '') {
+    return undefined
+  }
+  return language ? { type, modifiers, language } : { type, modifiers }
+}
@@ -2,6 +2,43 @@ import { beforeEach, describe, expect, it, vi } from 'vitest'
 import * as vscode from 'vscode'
 import { parseThemeFile } from './parseThemeFile'
 
+const TM_THEME = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <key>name</key>
+  <string>Classic</string>
+  <key>settings</key>
+  <array>
+    <dict>
+      <key>settings</key>
+      <dict>
+        <key>background</key>
+        <string>#272822</string>
+        <key>foreground</key>
+        <string>#F8F8F2</string>
+      </dict>
+    </dict>
+    <dict>
+      <key>scope</key>
+      <string>entity.name.function</string>
+      <key>settings</key>
+      <dict>
+        <key>fontStyle</key>
+        <string>italic</string>
+        <key>foreground</key>
+        <string>#A6E22E</string>
+      </dict>
+    </dict>
+  </array>
+</dict>
+</plist>`
+
+const TM_THEME_RULES = [
+  { settings: { background: '#272822', foreground: '#F8F8F2' } },
+  { scope: 'entity.name.function', settings: { fontStyle: 'italic', foreground: '#A6E22E' } },
+]
+
 function mockReadFile(pathToContent: Record<string, string>) {
   vi.mocked(vscode.workspace.fs.readFile).mockImplementation(async (uri: vscode.Uri) => {
     const content = Object.entries(pathToContent).find(([p]) => uri.path.endsWith(p))?.[1]
@@ -29,8 +66,12 @@ describe('parseThemeFile', () => {
     const result = await parseThemeFile(vscode.Uri.file('/ext'), './theme.json')
     expect(result).toEqual({
       semanticHighlighting: true,
-      semanticTokenColors: { function: '#DCDCAA' },
+      semanticTokenColors: { function: { foreground: '#DCDCAA' } },
       tokenColors: [{ scope: 'entity.name.function', settings: { foreground: '#DCDCAA' } }],
+      sources: {
+        semanticTokenColors: { function: { uri: 'file:///ext/theme.json', includeLevel: 0 } },
+        tokenColors: [{ uri: 'file:///ext/theme.json', includeLevel: 0 }],
+      },
     })
   })
 
@@ -47,8 +88,8 @@ describe('parseThemeFile', () => {
 
     const result = await parseThemeFile(vscode.Uri.file('/ext'), './theme.json')
     expect(result?.semanticTokenColors).toEqual({
-      function: '#DCDCAA',
-      class: '#4EC9B0',
+      function: { foreground: '#DCDCAA' },
+      class: { foreground: '#4EC9B0' },
     })
   })
 
@@ -108,8 +149,8 @@ describe('parseThemeFile', () => {
 
     const result = await parseThemeFile(vscode.Uri.file('/ext'), './child.json')
     expect(result?.semanticTokenColors).toEqual({
-      function: '#CHILD_FN',
-      class: '#PARENT_CLS',
+      function: { foreground: '#CHILD_FN' },
+      class: { foreground: '#PARENT_CLS' },
     })
   })
 
@@ -150,9 +191,7 @@ describe('parseThemeFile', () => {
         include: './base/colors.json',
         tokenColors: [{ scope: 'entity.name.function', settings: { foreground: '#DARK' } }],
       }),
-      // The code builds the include path as dir + include: "./themes/" + "./base/colors.json"
-      // MockUri.joinPath only strips leading "./" from the segment, producing "themes/./base/colors.json"
-      'themes/./base/colors.json': JSON.stringify({
+      'themes/base/colors.json': JSON.stringify({
         tokenColors: [{ scope: 'variable', settings: { foreground: '#BASE' } }],
       }),
     })
@@ -216,10 +255,11 @@ describe('parseThemeFile', () => {
       semanticHighlighting: false,
       semanticTokenColors: {},
       tokenColors: [],
+      sources: { semanticTokenColors: {}, tokenColors: [] },
     })
   })
 
-  it('should skip semanticTokenColors entries without a color value', async () => {
+  it('should skip semanticTokenColors entries without any style', async () => {
     mockReadFile({
       'theme.json': JSON.stringify({
         semanticTokenColors: {
@@ -233,7 +273,99 @@ describe('parseThemeFile', () => {
 
     const result = await parseThemeFile(vscode.Uri.file('/ext'), './theme.json')
     expect(result?.semanticTokenColors).toEqual({
-      function: '#DCDCAA',
+      function: { foreground: '#DCDCAA' },
+    })
+  })
+
+  it('should read fontStyle and style flags from semanticTokenColors', async () => {
+    mockReadFile({
+      'theme.json': JSON.stringify({
+        semanticTokenColors: {
+          function: { foreground: '#DCDCAA', fontStyle: 'italic' },
+          class: { bold: true, underline: true },
+        },
+        tokenColors: [{ scope: 'entity.name.type', settings: { foreground: '#4EC9B0', fontStyle: 'bold' } }],
+      }),
+    })
+
+    const result = await parseThemeFile(vscode.Uri.file('/ext'), './theme.json')
+    expect(result?.semanticTokenColors).toEqual({
+      function: { foreground: '#DCDCAA', fontStyle: 'italic' },
+      class: { fontStyle: 'bold underline' },
+    })
+    expect(result?.tokenColors[0].settings?.fontStyle).toBe('bold')
+  })
+
+  it('should load tokenColors given as a path to a .tmTheme file relative to the theme', async () => {
+    mockReadFile({
+      'themes/classic.json': JSON.stringify({
+        semanticHighlighting: true,
+        tokenColors: './classic.tmTheme',
+      }),
+      'classic.tmTheme': TM_THEME,
+    })
+
+    const result = await parseThemeFile(vscode.Uri.file('/ext'), './themes/classic.json')
+    expect(result?.tokenColors).toEqual(TM_THEME_RULES)
+    expect(vi.mocked(vscode.workspace.fs.readFile).mock.calls[1][0].path).toBe('/ext/themes/classic.tmTheme')
+  })
+
+  it('should record the file and include level each rule was read from', async () => {
+    mockReadFile({
+      'themes/dark.json': JSON.stringify({
+        include: './base.json',
+        semanticTokenColors: { function: '#DARK' },
+        tokenColors: './dark.tmTheme',
+      }),
+      'themes/base.json': JSON.stringify({
+        semanticTokenColors: { function: '#BASE', class: '#BASE' },
+        tokenColors: [{ scope: 'variable', settings: { foreground: '#BASE' } }],
+      }),
+      'dark.tmTheme': TM_THEME,
+    })
+
+    const result = await parseThemeFile(vscode.Uri.file('/ext'), './themes/dark.json')
+    expect(result?.sources).toEqual({
+      semanticTokenColors: {
+        function: { uri: 'file:///ext/themes/dark.json', includeLevel: 0 },
+        class: { uri: 'file:///ext/themes/base.json', includeLevel: 1 },
+      },
+      tokenColors: [
+        { uri: 'file:///ext/themes/base.json', includeLevel: 1 },
+        { uri: 'file:///ext/themes/dark.tmTheme', includeLevel: 0 },
+        { uri: 'file:///ext/themes/dark.tmTheme', includeLevel: 0 },
+      ],
     })
   })
+
+  it('should collect every file it reads, even when one of them is missing', async () => {
+    mockReadFile({
+      'theme.json': JSON.stringify({ include: './base.json', tokenColors: './rules.json' }),
+      'base.json': JSON.stringify({ include: './missing.json' }),
+    })
+
+    const files: vscode.Uri[] = []
+    expect(await parseThemeFile(vscode.Uri.file('/ext'), './theme.json', files)).toBeUndefined()
+    expect(files.map((uri) => uri.path.split('/').pop())).toEqual(['theme.json', 'base.json', 'missing.json'])
+  })
+
+  it('should load tokenColors given as a path to a JSON file', async () => {
+    const rules = [{ scope: 'variable', settings: { foreground: '#9CDCFE' } }]
+    mockReadFile({
+      'theme.json': JSON.stringify({ tokenColors: './rules.json' }),
+      'rules.json': JSON.stringify({ tokenColors: rules }),
+      'array.json': JSON.stringify({ include: './theme.json', tokenColors: './list.json' }),
+      'list.json': JSON.stringify(rules),
+    })
+
+    expect((await parseThemeFile(vscode.Uri.file('/ext'), './theme.json'))?.tokenColors).toEqual(rules)
+    expect((await parseThemeFile(vscode.Uri.file('/ext'), './array.json'))?.tokenColors).toEqual([...rules, ...rules])
+  })
+
+  it('should read the settings array of a .tmTheme theme', async () => {
+    mockReadFile({ 'classic.tmTheme': TM_THEME })
+
+    const result = await parseThemeFile(vscode.Uri.file('/ext'), './classic.tmTheme')
+    expect(result?.tokenColors).toEqual(TM_THEME_RULES)
+  })
 })
@@ -1,56 +1,103 @@
 import { parse as parsePlist } from 'fast-plist'
 import { parse as parseJsonc } from 'jsonc-parser'
 import * as vscode from 'vscode'
-import type { RawThemeData, ResolvedThemeData, TokenColorRule } from '@/theme/types'
+import type { RawThemeData, ResolvedThemeData, ThemeFileLocation, TokenColorRule, TokenStyle } from '@/theme/types'
+import { toTokenStyle } from './toTokenStyle'
 
 const MAX_INCLUDE_DEPTH = 10
 
+/** Parses a theme with its include chain, adding every file it reads to `files`, even when parsing fails */
 export async function parseThemeFile(
   extensionUri: vscode.Uri,
   themePath: string,
+  files: vscode.Uri[] = [],
 ): Promise<ResolvedThemeData | undefined> {
   try {
-    return await resolveTheme(extensionUri, themePath, 0)
+    return await resolveTheme(extensionUri, themePath, 0, files)
   } catch {
     return undefined
   }
 }
 
-async function resolveTheme(baseUri: vscode.Uri, themePath: string, depth: number): Promise<ResolvedThemeData> {
+async function resolveTheme(
+  baseUri: vscode.Uri,
+  themePath: string,
+  depth: number,
+  files: vscode.Uri[],
+): Promise<ResolvedThemeData> {
   if (depth > MAX_INCLUDE_DEPTH) {
-    return { semanticHighlighting: false, semanticTokenColors: {}, tokenColors: [] }
+    return createEmptyTheme()
   }
 
   const themeUri = vscode.Uri.joinPath(baseUri, themePath)
+  files.push(themeUri)
   const raw = await readThemeFile(themeUri)
 
-  let parentData: ResolvedThemeData = {
-    semanticHighlighting: false,
-    semanticTokenColors: {},
-    tokenColors: [],
-  }
-
+  let parentData = createEmptyTheme()
+  const dir = themePath.substring(0, themePath.lastIndexOf('/') + 1)
   if (raw.include) {
-    const dir = themePath.substring(0, themePath.lastIndexOf('/') + 1)
-    const includePath = dir + raw.include
-    parentData = await resolveTheme(baseUri, includePath, depth + 1)
+    parentData = await resolveTheme(baseUri, dir + raw.include, depth + 1, files)
+  }
+  const sources = {
+    semanticTokenColors: { ...parentData.sources?.semanticTokenColors },
+    tokenColors: [...(parentData.sources?.tokenColors ?? [])],
   }
 
-  const tokenColors: TokenColorRule[] = [...parentData.tokenColors, ...(raw.tokenColors ?? [])]
+  const ownTokenColors = await resolveTokenColors(baseUri, themeUri, dir, raw, files)
+  const tokenColors: TokenColorRule[] = [...parentData.tokenColors, ...ownTokenColors.rules]
+  const tokenColorsLocation: ThemeFileLocation = { uri: ownTokenColors.uri.toString(), includeLevel: depth }
+  sources.tokenColors.push(...ownTokenColors.rules.map(() => tokenColorsLocation))
 
-  const semanticTokenColors: Record<string, string> = { ...parentData.semanticTokenColors }
+  const semanticTokenColors: Record<string, TokenStyle> = { ...parentData.semanticTokenColors }
   if (raw.semanticTokenColors) {
     for (const [key, value] of Object.entries(raw.semanticTokenColors)) {
-      const color = typeof value === 'string' ? value : value?.foreground
-      if (color) {
-        semanticTokenColors[key] = color
+      const style = toTokenStyle(value)
+      if (style) {
+        semanticTokenColors[key] = style
+        sources.semanticTokenColors[key] = { uri: themeUri.toString(), includeLevel: depth }
       }
     }
   }
 
   const semanticHighlighting = raw.semanticHighlighting ?? parentData.semanticHighlighting
 
-  return { semanticHighlighting, semanticTokenColors, tokenColors }
+  return { semanticHighlighting, semanticTokenColors, tokenColors, sources }
+}
+
+function createEmptyTheme(): ResolvedThemeData {
+  return {
+    semanticHighlighting: false,
+    semanticTokenColors: {},
+    tokenColors: [],
+    sources: { semanticTokenColors: {}, tokenColors: [] },
+  }
+}
+
+/**
+ * Rules given inline, by the path of a `.tmTheme` or JSON file, or as the `settings` of a `.tmTheme` theme, along with
+ * the file holding them
+ */
+async function resolveTokenColors(
+  baseUri: vscode.Uri,
+  themeUri: vscode.Uri,
+  dir: string,
+  raw: RawThemeData,
+  files: vscode.Uri[],
+): Promise<{ uri: vscode.Uri; rules: TokenColorRule[] }> {
+  if (typeof raw.tokenColors === 'string') {
+    const tokenColorsUri = vscode.Uri.joinPath(baseUri, dir + raw.tokenColors)
+    files.push(tokenColorsUri)
+    const data: unknown = await readThemeFile(tokenColorsUri)
+    return { uri: tokenColorsUri, rules: Array.isArray(data) ? data : readRules(data as RawThemeData | undefined) }
+  }
+  return { uri: themeUri, rules: readRules(raw) }
+}
+
+function readRules(data: RawThemeData | undefined) {
+  if (Array.isArray(data?.tokenColors)) {
+    return data.tokenColors
+  }
+  return Array.isArray(data?.settings) ? data.settings : []
 }
 
 async function readThemeFile(uri: vscode.Uri): Promise<RawThemeData> {
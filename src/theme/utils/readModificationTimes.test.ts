@@ -0,0 +1,27 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import * as vscode from 'vscode'
+import { readModificationTimes } from './readModificationTimes'
+
+describe('readModificationTimes', () => {
+  beforeEach(() => {
+    vi.mocked(vscode.workspace.fs.stat).mockImplementation(async (uri: vscode.Uri) => {
+      if (uri.path.endsWith('missing.json')) {
+        throw new Error(`File not found: ${uri.path}`)
+      }
+      return { mtime: uri.path.length } as vscode.FileStat
+    })
+  })
+
+  it('should return the modification time of each file by URI', async () => {
+    const files = [vscode.Uri.file('/ext/theme.json'), vscode.Uri.file('/ext/base.json')]
+    expect(await readModificationTimes(files)).toEqual({
+      [files[0].toString()]: 15,
+      [files[1].toString()]: 14,
+    })
+  })
+
+  it('should leave out files that cannot be read', async () => {
+    const files = [vscode.Uri.file('/ext/theme.json'), vscode.Uri.file('/ext/missing.json')]
+    expect(Object.keys(await readModificationTimes(files))).toEqual([files[0].toString()])
+  })
+})
@@ -0,0 +1,16 @@
+import * as vscode from 'vscode'
+
+/** Modification times of the given files by URI, leaving out those that cannot be read */
+export async function readModificationTimes(files: vscode.Uri[]): Promise<Record<string, number>> {
+  const entries = await Promise.all(
+    files.map(async (file) => {
+      try {
+        const { mtime } = await vscode.workspace.fs.stat(file)
+        return [[file.toString(), mtime] as const]
+      } catch {
+        return []
+      }
+    }),
+  )
+  return Object.fromEntries(entries.flat())
+}
@@ -0,0 +1,33 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import * as vscode from 'vscode'
+import { readSemanticHighlightingSetting } from './readSemanticHighlightingSetting'
+
+function mockSemanticCustomizations(value: unknown) {
+  vi.mocked(vscode.workspace.getConfiguration).mockImplementation(
+    () => ({ get: vi.fn(() => value) }) as unknown as vscode.WorkspaceConfiguration,
+  )
+}
+
+describe('readSemanticHighlightingSetting', () => {
+  beforeEach(() => {
+    vi.mocked(vscode.workspace.getConfiguration).mockReset()
+  })
+
+  it('should return undefined when the flag is not set', () => {
+    mockSemanticCustomizations(undefined)
+    expect(readSemanticHighlightingSetting('My Theme')).toBeUndefined()
+    mockSemanticCustomizations({ rules: {}, enabled: 'yes' })
+    expect(readSemanticHighlightingSetting('My Theme')).toBeUndefined()
+  })
+
+  it('should read the global flag', () => {
+    mockSemanticCustomizations({ enabled: false })
+    expect(readSemanticHighlightingSetting('My Theme')).toBe(false)
+  })
+
+  it('should let matching theme scopes override the global flag', () => {
+    mockSemanticCustomizations({ enabled: true, '[*Dark*]': { enabled: false }, '[Other]': { enabled: true } })
+    expect(readSemanticHighlightingSetting('My Dark Theme')).toBe(false)
+    expect(readSemanticHighlightingSetting('My Light Theme')).toBe(true)
+  })
+})
@@ -0,0 +1,20 @@
+import * as vscode from 'vscode'
+import { getThemeScopedEntries } from './getThemeScopedEntries'
+
+interface SemanticHighlightingCustomization {
+  enabled?: unknown
+}
+
+/** The `enabled` flag of `editor.semanticTokenColorCustomizations`, theme-scoped values overriding the global one */
+export function readSemanticHighlightingSetting(themeName: string): boolean | undefined {
+  const config =
+    vscode.workspace.getConfiguration('editor').get<Record<string, unknown>>('semanticTokenColorCustomizations') ?? {}
+
+  let enabled = typeof config.enabled === 'boolean' ? config.enabled : undefined
+  for (const entry of getThemeScopedEntries<SemanticHighlightingCustomization | undefined>(config, themeName)) {
+    if (typeof entry?.enabled === 'boolean') {
+      enabled = entry.enabled
+    }
+  }
+  return enabled
+}
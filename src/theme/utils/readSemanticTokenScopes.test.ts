@@ -0,0 +1,39 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import * as vscode from 'vscode'
+import { readSemanticTokenScopes } from './readSemanticTokenScopes'
+
+function mockExtensions(contributions: unknown[]) {
+  ;(vscode.extensions as { all: unknown[] }).all = contributions.map((semanticTokenScopes) => ({
+    packageJSON: { contributes: { semanticTokenScopes } },
+  }))
+}
+
+describe('readSemanticTokenScopes', () => {
+  beforeEach(() => {
+    ;(vscode.extensions as { all: unknown[] }).all = []
+  })
+
+  it('should return no mappings without contributions', () => {
+    ;(vscode.extensions as { all: unknown[] }).all = [{ packageJSON: {} }]
+    expect(readSemanticTokenScopes()).toEqual([])
+  })
+
+  it('should read mappings in extension order and split scope paths', () => {
+    mockExtensions([
+      [{ scopes: { 'function.defaultLibrary': ['support.function'] } }],
+      [{ language: 'typescript', scopes: { class: ['meta.class entity.name.type.class.ts', ''] } }],
+    ])
+    expect(readSemanticTokenScopes()).toEqual([
+      { selector: { type: 'function', modifiers: ['defaultLibrary'] }, scopes: [['support.function']] },
+      {
+        selector: { type: 'class', modifiers: [], language: 'typescript' },
+        scopes: [['meta.class', 'entity.name.type.class.ts']],
+      },
+    ])
+  })
+
+  it('should skip malformed contributions and selectors', () => {
+    mockExtensions([{ scopes: {} }, [{ scopes: { 'a..b': ['x'], class: 'entity.name.type.class' } }, null]])
+    expect(readSemanticTokenScopes()).toEqual([])
+  })
+})
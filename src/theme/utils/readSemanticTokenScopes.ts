@@ -0,0 +1,41 @@
+import * as vscode from 'vscode'
+import type { SemanticTokenScopeMapping } from '@/theme/types'
+import { parseSemanticTokenSelector } from './parseSemanticTokenSelector'
+
+interface SemanticTokenScopesContribution {
+  language?: string
+  scopes?: Record<string, unknown>
+}
+
+/** Collects the `semanticTokenScopes` contributed by installed extensions, in extension order */
+export function readSemanticTokenScopes(): SemanticTokenScopeMapping[] {
+  const mappings: SemanticTokenScopeMapping[] = []
+
+  for (const ext of vscode.extensions.all) {
+    const contributions = ext.packageJSON?.contributes?.semanticTokenScopes as
+      | SemanticTokenScopesContribution[]
+      | undefined
+    if (!Array.isArray(contributions)) {
+      continue
+    }
+
+    for (const contribution of contributions) {
+      for (const [key, scopes] of Object.entries(contribution?.scopes ?? {})) {
+        const selector = parseSemanticTokenSelector(key)
+        if (!selector || !Array.isArray(scopes)) {
+          continue
+        }
+        if (typeof contribution.language === 'string') {
+          selector.language = contribution.language
+        }
+        // Each scope may be a space-separated path, e.g. `meta.import variable.other.readwrite`
+        const paths = scopes
+          .filter((scope): scope is string => typeof scope === 'string' && scope.trim() !== '')
+          .map((scope) => scope.trim().split(/\s+/))
+        mappings.push({ selector, scopes: paths })
+      }
+    }
+  }
+
+  return mappings
+}
@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import * as vscode from 'vscode'
+import { SymbolKind } from '@/symbol'
+import { StyleSource, type SymbolStyleOrigins } from '@/theme/types'
+import { readUserSemanticTokenStyles } from './readUserSemanticTokenStyles'
+
+function mockEditorConfig(settings: Record<string, unknown>) {
+  vi.mocked(vscode.workspace.getConfiguration).mockImplementation((section?: string) => {
+    if (section === 'editor') {
+      return {
+        get: vi.fn((key: string) => settings[key]),
+      } as unknown as vscode.WorkspaceConfiguration
+    }
+    return { get: vi.fn() } as unknown as vscode.WorkspaceConfiguration
+  })
+}
+
+describe('readUserSemanticTokenStyles', () => {
+  beforeEach(() => {
+    vi.mocked(vscode.workspace.getConfiguration).mockReset()
+  })
+
+  it('should return empty map when no customizations exist', () => {
+    mockEditorConfig({})
+    expect(readUserSemanticTokenStyles('My Theme')).toEqual({})
+  })
+
+  it('should read global semantic token rules', () => {
+    mockEditorConfig({
+      semanticTokenColorCustomizations: {
+        rules: { function: '#FF0000', class: '#00FF00' },
+      },
+    })
+    const result = readUserSemanticTokenStyles('My Theme')
+    expect(result[SymbolKind.Function]?.color).toBe('#FF0000')
+    expect(result[SymbolKind.Class]?.color).toBe('#00FF00')
+  })
+
+  it('should read semantic rules with foreground object format', () => {
+    mockEditorConfig({
+      semanticTokenColorCustomizations: {
+        rules: { function: { foreground: '#FF0000' } },
+      },
+    })
+    const result = readUserSemanticTokenStyles('My Theme')
+    expect(result[SymbolKind.Function]?.color).toBe('#FF0000')
+  })
+
+  it('should apply theme-specific semantic rules over global ones', () => {
+    mockEditorConfig({
+      semanticTokenColorCustomizations: {
+        rules: { function: '#GLOBAL' },
+        '[My Theme]': {
+          rules: { function: '#THEME_SPECIFIC' },
+        },
+      },
+    })
+    const result = readUserSemanticTokenStyles('My Theme')
+    expect(result[SymbolKind.Function]?.color).toBe('#THEME_SPECIFIC')
+  })
+
+  it('should not apply theme-specific rules for a different theme', () => {
+    mockEditorConfig({
+      semanticTokenColorCustomizations: {
+        '[Other Theme]': {
+          rules: { function: '#OTHER' },
+        },
+      },
+    })
+    const result = readUserSemanticTokenStyles('My Theme')
+    expect(result[SymbolKind.Function]).toBeUndefined()
+  })
+
+  it('should read font styles from semantic rules', () => {
+    mockEditorConfig({
+      semanticTokenColorCustomizations: {
+        rules: { function: { italic: true }, class: { foreground: '#00FF00', fontStyle: 'bold' } },
+      },
+    })
+    const result = readUserSemanticTokenStyles('My Theme')
+    expect(result[SymbolKind.Function]).toEqual({ fontStyle: 'italic' })
+    expect(result[SymbolKind.Class]).toEqual({ color: '#00FF00', fontStyle: 'bold' })
+  })
+
+  it('should merge theme-specific semantic rules into global ones property by property', () => {
+    mockEditorConfig({
+      semanticTokenColorCustomizations: {
+        rules: { function: { foreground: '#GLOBAL', bold: true } },
+        '[My Theme]': {
+          rules: { function: '#THEME_SPECIFIC' },
+        },
+      },
+    })
+    const result = readUserSemanticTokenStyles('My Theme')
+    expect(result[SymbolKind.Function]).toEqual({ color: '#THEME_SPECIFIC', fontStyle: 'bold' })
+  })
+
+  it('should apply rules of wildcard and multi-theme scopes in setting order', () => {
+    mockEditorConfig({
+      semanticTokenColorCustomizations: {
+        '[*Dark*]': { rules: { function: '#WILDCARD', class: '#WILDCARD' } },
+        '[Light][My Dark Theme]': { rules: { function: '#LISTED' } },
+      },
+    })
+    const result = readUserSemanticTokenStyles('My Dark Theme')
+    expect(result[SymbolKind.Function]?.color).toBe('#LISTED')
+    expect(result[SymbolKind.Class]?.color).toBe('#WILDCARD')
+  })
+
+  it('should ignore semantic rules while semantic highlighting is off', () => {
+    mockEditorConfig({
+      semanticTokenColorCustomizations: {
+        rules: { function: '#SEMANTIC' },
+      },
+    })
+    expect(readUserSemanticTokenStyles('My Theme', false)).toEqual({})
+  })
+
+  it('should match rules against the modifiers and language of the token', () => {
+    mockEditorConfig({
+      semanticTokenColorCustomizations: {
+        rules: { 'variable.readonly': '#READONLY', 'variable:javascript': '#JAVASCRIPT' },
+      },
+    })
+    expect(readUserSemanticTokenStyles('My Theme')[SymbolKind.Variable]).toBeUndefined()
+    expect(readUserSemanticTokenStyles('My Theme', true, undefined, ['readonly'])[SymbolKind.Variable]?.color).toBe(
+      '#READONLY',
+    )
+    expect(readUserSemanticTokenStyles('My Theme', true, undefined, [], 'javascript')[SymbolKind.Variable]?.color).toBe(
+      '#JAVASCRIPT',
+    )
+  })
+
+  it('should record the customization each setting is taken from', () => {
+    mockEditorConfig({
+      semanticTokenColorCustomizations: {
+        rules: { '*': { bold: true } },
+        '[My Theme]': { rules: { function: '#SEMANTIC' } },
+      },
+    })
+    const origins: SymbolStyleOrigins = {}
+    readUserSemanticTokenStyles('My Theme', true, origins)
+
+    expect(origins[SymbolKind.Function]).toEqual({
+      color: { source: StyleSource.SemanticTokenColorCustomizations, selector: 'function' },
+      fontStyle: { source: StyleSource.SemanticTokenColorCustomizations, selector: '*' },
+    })
+  })
+})
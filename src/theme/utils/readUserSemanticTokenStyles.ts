@@ -0,0 +1,87 @@
+import * as vscode from 'vscode'
+import { SymbolKind } from '@/symbol'
+import {
+  type RuleMatches,
+  type SemanticTokenStyleValue,
+  StyleSource,
+  type SymbolStyleMap,
+  type SymbolStyleOrigins,
+  type TokenStyle,
+} from '@/theme/types'
+import { findSemanticTokenStyle } from './findSemanticTokenStyle'
+import { getThemeScopedEntries } from './getThemeScopedEntries'
+import { type StyleCandidate, toStyleOrigins } from './toStyleOrigins'
+import { toSymbolStyle } from './toSymbolStyle'
+import { toTokenStyle } from './toTokenStyle'
+
+interface SemanticTokenCustomizations {
+  enabled?: boolean
+  rules?: Record<string, SemanticTokenStyleValue>
+  [themeScope: string]: unknown
+}
+
+function resolveSemanticRules(rules: Record<string, SemanticTokenStyleValue>): Record<string, TokenStyle> {
+  const resolved: Record<string, TokenStyle> = {}
+  for (const [key, value] of Object.entries(rules)) {
+    const style = toTokenStyle(value)
+    if (style) {
+      resolved[key] = style
+    }
+  }
+  return resolved
+}
+
+/**
+ * Styles the user's semantic token rules give each kind as a token with the modifiers in the language, recording the
+ * rules they come from in `origins`. They only apply while semantic highlighting is on, and override the theme's styles
+ */
+export function readUserSemanticTokenStyles(
+  themeName: string,
+  semanticHighlighting = true,
+  origins?: SymbolStyleOrigins,
+  modifiers: readonly string[] = [],
+  language = 'typescript',
+): SymbolStyleMap {
+  const styles: SymbolStyleMap = {}
+  if (!semanticHighlighting) {
+    return styles
+  }
+
+  const config =
+    vscode.workspace.getConfiguration('editor').get<SemanticTokenCustomizations>('semanticTokenColorCustomizations') ??
+    {}
+
+  // Global rules, then the rules of every matching theme scope override
+  let mergedRules = resolveSemanticRules(config.rules ?? {})
+  for (const entry of getThemeScopedEntries<SemanticTokenCustomizations | undefined>(config, themeName)) {
+    mergedRules = mergeSemanticRules(mergedRules, resolveSemanticRules(entry?.rules ?? {}))
+  }
+
+  for (const kind of Object.values(SymbolKind)) {
+    const matches: RuleMatches = {}
+    const candidates: StyleCandidate[] = [
+      {
+        source: StyleSource.SemanticTokenColorCustomizations,
+        style: findSemanticTokenStyle(kind, mergedRules, modifiers, language, matches),
+        matches,
+      },
+    ]
+    const style = toSymbolStyle(...candidates.map((candidate) => candidate.style))
+    if (style) {
+      styles[kind] = style
+      if (origins) {
+        origins[kind] = toStyleOrigins(candidates)
+      }
+    }
+  }
+
+  return styles
+}
+
+function mergeSemanticRules(base: Record<string, TokenStyle>, overrides: Record<string, TokenStyle>) {
+  const merged = { ...base }
+  for (const [key, style] of Object.entries(overrides)) {
+    merged[key] = { ...merged[key], ...style }
+  }
+  return merged
+}
@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import * as vscode from 'vscode'
+import { readUserTextMateRules } from './readUserTextMateRules'
+
+function mockEditorConfig(settings: Record<string, unknown>) {
+  vi.mocked(vscode.workspace.getConfiguration).mockImplementation((section?: string) => {
+    if (section === 'editor') {
+      return {
+        get: vi.fn((key: string) => settings[key]),
+      } as unknown as vscode.WorkspaceConfiguration
+    }
+    return { get: vi.fn() } as unknown as vscode.WorkspaceConfiguration
+  })
+}
+
+describe('readUserTextMateRules', () => {
+  beforeEach(() => {
+    vi.mocked(vscode.workspace.getConfiguration).mockReset()
+  })
+
+  it('should return no rules when no customizations exist', () => {
+    mockEditorConfig({})
+    expect(readUserTextMateRules('My Theme')).toEqual([])
+  })
+
+  it('should list global rules before the rules of matching theme scopes', () => {
+    const global = { scope: 'entity.name.function', settings: { foreground: '#GLOBAL' } }
+    const wildcard = { scope: 'variable', settings: { foreground: '#WILDCARD' } }
+    const listed = { scope: 'entity.name.function', settings: { foreground: '#LISTED' } }
+    mockEditorConfig({
+      tokenColorCustomizations: {
+        '[*Dark*]': { textMateRules: [wildcard] },
+        textMateRules: [global],
+        '[Light][My Dark Theme]': { textMateRules: [listed] },
+        '[Other Theme]': { textMateRules: [{ scope: 'variable', settings: { foreground: '#OTHER' } }] },
+      },
+    })
+    expect(readUserTextMateRules('My Dark Theme')).toEqual([global, wildcard, listed])
+  })
+})
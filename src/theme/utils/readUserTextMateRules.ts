@@ -0,0 +1,23 @@
+import * as vscode from 'vscode'
+import type { TokenColorRule } from '@/theme/types'
+import { getThemeScopedEntries } from './getThemeScopedEntries'
+
+interface TokenColorCustomizations {
+  textMateRules?: TokenColorRule[]
+  [themeScope: string]: unknown
+}
+
+/**
+ * User `textMateRules` for the theme: global rules, then the rules of every matching theme scope. VS Code appends them
+ * to the theme's `tokenColors` and ranks them together, so later rules win ties
+ */
+export function readUserTextMateRules(themeName: string): TokenColorRule[] {
+  const config =
+    vscode.workspace.getConfiguration('editor').get<TokenColorCustomizations>('tokenColorCustomizations') ?? {}
+  return [
+    ...(config.textMateRules ?? []),
+    ...getThemeScopedEntries<TokenColorCustomizations | undefined>(config, themeName).flatMap(
+      (entry) => entry?.textMateRules ?? [],
+    ),
+  ]
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import type { RuleMatches, TokenColorRule } from '@/theme/types'
+import { resolveScopeStackStyle } from './resolveScopeStackStyle'
+
+describe('resolveScopeStackStyle', () => {
+  it('should return undefined when no rule matches', () => {
+    const tokenColors: TokenColorRule[] = [{ scope: 'keyword', settings: { foreground: '#C586C0' } }]
+    expect(resolveScopeStackStyle(['source.ts', 'support.function'], tokenColors)).toBeUndefined()
+  })
+
+  it('should let inner scopes override the settings of outer scopes', () => {
+    const tokenColors: TokenColorRule[] = [
+      { scope: 'meta.import', settings: { foreground: '#111111', fontStyle: 'italic' } },
+      { scope: 'variable.other', settings: { foreground: '#222222' } },
+    ]
+    expect(resolveScopeStackStyle(['meta.import', 'variable.other.readwrite'], tokenColors)).toEqual({
+      foreground: '#222222',
+      fontStyle: 'italic',
+    })
+  })
+
+  it('should ignore rules without settings or scope', () => {
+    const tokenColors: TokenColorRule[] = [{ settings: { foreground: '#111111' } }, { scope: 'support.function' }]
+    expect(resolveScopeStackStyle(['support.function'], tokenColors)).toBeUndefined()
+  })
+
+  it('should record the rule each setting is taken from', () => {
+    const tokenColors: TokenColorRule[] = [
+      { scope: 'meta.import', settings: { foreground: '#111111', fontStyle: 'italic' } },
+      { scope: ['keyword', 'variable.other'], settings: { foreground: '#222222' } },
+    ]
+    const matches: RuleMatches = {}
+    resolveScopeStackStyle(['meta.import', 'variable.other.readwrite'], tokenColors, matches)
+    expect(matches).toEqual({
+      foreground: { selector: 'variable.other', index: 1 },
+      fontStyle: { selector: 'meta.import', index: 0 },
+    })
+  })
+})
@@ -0,0 +1,77 @@
+import type { RuleMatches, ScopeSelector, TokenColorRule, TokenStyle } from '@/theme/types'
+import { matchScopeSelector } from './matchScopeSelector'
+import { parseScopeSelector } from './parseScopeSelector'
+
+const SETTINGS = ['foreground', 'fontStyle'] as const
+
+interface RankedSelector {
+  selector: ScopeSelector
+  /** The rule's scope entry the selector was parsed from */
+  scope: string
+  settings: TokenStyle
+  index: number
+}
+
+/**
+ * Resolves the style TextMate rules give a scope stack the way VS Code does: each scope takes the most specific
+ * matching rule per setting, and settings a scope leaves unset are inherited from the scopes around it. The rule each
+ * setting is taken from is recorded in `matches`
+ */
+export function resolveScopeStackStyle(
+  stack: readonly string[],
+  tokenColors: TokenColorRule[],
+  matches?: RuleMatches,
+): TokenStyle | undefined {
+  const selectors = tokenColors.flatMap((rule, index) => {
+    if (!rule.settings || !rule.scope) {
+      return []
+    }
+    const scopes = Array.isArray(rule.scope) ? rule.scope : [rule.scope]
+    return scopes.flatMap((scope) =>
+      parseScopeSelector(scope).map((selector) => ({ selector, scope, settings: rule.settings ?? {}, index })),
+    )
+  })
+
+  const style: TokenStyle = {}
+  for (let depth = 1; depth <= stack.length; depth++) {
+    const path = stack.slice(0, depth)
+    const ranked = selectors.filter(({ selector }) => matchScopeSelector(selector, path)).sort(compareSpecificity)
+    for (const setting of SETTINGS) {
+      const match = ranked.find(({ settings }) => typeof settings[setting] === 'string')
+      if (match) {
+        style[setting] = match.settings[setting]
+        if (matches) {
+          matches[setting] = { selector: match.scope, index: match.index }
+        }
+      }
+    }
+  }
+
+  return Object.keys(style).length > 0 ? style : undefined
+}
+
+/** Sorts the most specific selector first: longer scope, then longer ancestor scopes, then the later rule */
+function compareSpecificity(a: RankedSelector, b: RankedSelector) {
+  const depthDiff = scopeDepth(b.selector.scope) - scopeDepth(a.selector.scope)
+  if (depthDiff !== 0) {
+    return depthDiff
+  }
+
+  const aParents = a.selector.parentScopes.filter((scope) => scope !== '>')
+  const bParents = b.selector.parentScopes.filter((scope) => scope !== '>')
+  for (let i = 0; i < Math.min(aParents.length, bParents.length); i++) {
+    const lengthDiff = bParents[i].length - aParents[i].length
+    if (lengthDiff !== 0) {
+      return lengthDiff
+    }
+  }
+  if (aParents.length !== bParents.length) {
+    return bParents.length - aParents.length
+  }
+
+  return b.index - a.index
+}
+
+function scopeDepth(scope: string) {
+  return scope.split('.').length
+}
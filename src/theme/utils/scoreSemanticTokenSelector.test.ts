@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { parseSemanticTokenSelector } from './parseSemanticTokenSelector'
+import { scoreSemanticTokenSelector } from './scoreSemanticTokenSelector'
+
+function score(selector: string, hierarchy: string[], modifiers: string[] = [], language?: string) {
+  const parsed = parseSemanticTokenSelector(selector)
+  if (!parsed) {
+    throw new Error(`invalid selector '${selector}'`)
+  }
+  return scoreSemanticTokenSelector(parsed, hierarchy, modifiers, language)
+}
+
+describe('scoreSemanticTokenSelector', () => {
+  it('should score exact types above super types and wildcards', () => {
+    expect(score('class', ['class', 'type'])).toBe(100)
+    expect(score('type', ['class', 'type'])).toBe(99)
+    expect(score('*', ['class', 'type'])).toBe(0)
+  })
+
+  it('should not match other types', () => {
+    expect(score('function', ['class', 'type'])).toBe(-1)
+  })
+
+  it('should require every selector modifier and rank each above the type', () => {
+    expect(score('*.readonly', ['variable'], ['readonly'])).toBe(100)
+    expect(score('variable.readonly', ['variable'], ['readonly', 'declaration'])).toBe(200)
+    expect(score('variable.readonly', ['variable'])).toBe(-1)
+  })
+
+  it('should add a bonus for a matching language and reject other languages', () => {
+    expect(score('class:typescript', ['class'], [], 'typescript')).toBe(110)
+    expect(score('class:javascript', ['class'], [], 'typescript')).toBe(-1)
+    expect(score('class:typescript', ['class'])).toBe(-1)
+  })
+})
@@ -0,0 +1,33 @@
+import type { SemanticTokenSelector } from '@/theme/types'
+
+/**
+ * Scores how specifically a selector matches a token the way VS Code ranks `semanticTokenColors` rules, or returns
+ * -1 when it does not match. `typeHierarchy` lists the token type followed by its super types
+ */
+export function scoreSemanticTokenSelector(
+  selector: SemanticTokenSelector,
+  typeHierarchy: readonly string[],
+  modifiers: readonly string[],
+  language?: string,
+): number {
+  let score = 0
+  if (selector.language !== undefined) {
+    if (selector.language !== language) {
+      return -1
+    }
+    score += 10
+  }
+
+  if (selector.type !== '*') {
+    const level = typeHierarchy.indexOf(selector.type)
+    if (level === -1) {
+      return -1
+    }
+    score += 100 - level
+  }
+
+  if (selector.modifiers.some((modifier) => !modifiers.includes(modifier))) {
+    return -1
+  }
+  return score + selector.modifiers.length * 100
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { StyleSource } from '@/theme/types'
+import { toStyleOrigins } from './toStyleOrigins'
+
+const SOURCES = {
+  semanticTokenColors: { function: { uri: 'file:///ext/theme.json', includeLevel: 0 } },
+  tokenColors: [{ uri: 'file:///ext/base.json', includeLevel: 1 }],
+}
+
+describe('toStyleOrigins', () => {
+  it('should take the origin of each property from the first candidate that sets it', () => {
+    const origins = toStyleOrigins([
+      { source: StyleSource.SemanticTokenColors, style: { fontStyle: '' }, matches: { fontStyle: { selector: '*' } } },
+      { source: StyleSource.TokenColors, style: undefined, matches: {} },
+      {
+        source: StyleSource.TokenColors,
+        style: { foreground: '#FUNC', fontStyle: 'italic' },
+        matches: { foreground: { selector: 'entity.name' }, fontStyle: { selector: 'entity' } },
+      },
+    ])
+
+    expect(origins).toEqual({
+      color: { source: StyleSource.TokenColors, selector: 'entity.name' },
+      fontStyle: { source: StyleSource.SemanticTokenColors, selector: '*' },
+    })
+  })
+
+  it('should locate theme rules by semantic selector and by TextMate rule index', () => {
+    const origins = toStyleOrigins(
+      [
+        {
+          source: StyleSource.SemanticTokenColors,
+          style: { foreground: '#FUNC' },
+          matches: { foreground: { selector: 'function' } },
+        },
+        {
+          source: StyleSource.SemanticTokenScopes,
+          style: { fontStyle: 'bold' },
+          matches: { fontStyle: { selector: 'entity.name.function', index: 0, scopes: ['entity.name.function'] } },
+        },
+      ],
+      SOURCES,
+    )
+
+    expect(origins).toEqual({
+      color: {
+        source: StyleSource.SemanticTokenColors,
+        selector: 'function',
+        location: SOURCES.semanticTokenColors.function,
+      },
+      fontStyle: {
+        source: StyleSource.SemanticTokenScopes,
+        selector: 'entity.name.function',
+        scopes: ['entity.name.function'],
+        location: SOURCES.tokenColors[0],
+      },
+    })
+  })
+
+  it('should return no origins when no candidate sets a property', () => {
+    expect(toStyleOrigins([{ source: StyleSource.TokenColors, style: undefined, matches: {} }])).toEqual({})
+  })
+})
@@ -0,0 +1,40 @@
+import type { ResolvedThemeData, RuleMatches, StyleOrigin, StyleOrigins, StyleSource, TokenStyle } from '@/theme/types'
+
+/** A style found by one of the finders, along with the rules its settings were taken from */
+export interface StyleCandidate {
+  source: StyleSource
+  style?: TokenStyle
+  matches: RuleMatches
+}
+
+/**
+ * Where each property `toSymbolStyle` would pick from the candidates comes from. Theme rules are located through the
+ * `sources` of the theme they were found in
+ */
+export function toStyleOrigins(candidates: StyleCandidate[], sources?: ResolvedThemeData['sources']): StyleOrigins {
+  const origins: StyleOrigins = {}
+  const color = candidates.find((candidate) => candidate.style?.foreground)
+  if (color) {
+    origins.color = toStyleOrigin(color, 'foreground', sources)
+  }
+  const fontStyle = candidates.find((candidate) => candidate.style?.fontStyle !== undefined)
+  if (fontStyle) {
+    origins.fontStyle = toStyleOrigin(fontStyle, 'fontStyle', sources)
+  }
+  return origins
+}
+
+function toStyleOrigin(
+  { source, matches }: StyleCandidate,
+  setting: keyof TokenStyle,
+  sources: ResolvedThemeData['sources'],
+): StyleOrigin {
+  const { index, ...match } = matches[setting] ?? {}
+  const location =
+    index !== undefined
+      ? sources?.tokenColors[index]
+      : match.selector !== undefined
+        ? sources?.semanticTokenColors[match.selector]
+        : undefined
+  return location ? { source, ...match, location } : { source, ...match }
+}
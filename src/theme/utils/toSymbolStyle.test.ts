@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { toSymbolStyle } from './toSymbolStyle'
+
+describe('toSymbolStyle', () => {
+  it('should map foreground to color', () => {
+    expect(toSymbolStyle({ foreground: '#DCDCAA', fontStyle: 'italic' })).toEqual({
+      color: '#DCDCAA',
+      fontStyle: 'italic',
+    })
+  })
+
+  it('should fall back per property', () => {
+    expect(toSymbolStyle({ fontStyle: 'bold' }, { foreground: '#FF0000', fontStyle: 'italic' })).toEqual({
+      color: '#FF0000',
+      fontStyle: 'bold',
+    })
+  })
+
+  it('should keep an explicitly empty fontStyle from the preferred style', () => {
+    expect(toSymbolStyle({ fontStyle: '' }, { fontStyle: 'italic' })).toEqual({ fontStyle: '' })
+  })
+
+  it('should take each property from the first candidate that sets it', () => {
+    expect(
+      toSymbolStyle(undefined, { fontStyle: 'bold' }, { foreground: '#111111' }, { foreground: '#222222' }),
+    ).toEqual({
+      color: '#111111',
+      fontStyle: 'bold',
+    })
+  })
+
+  it('should return undefined when neither style sets anything', () => {
+    expect(toSymbolStyle(undefined, {})).toBeUndefined()
+  })
+})
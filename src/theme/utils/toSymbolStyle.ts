@@ -0,0 +1,15 @@
+import type { SymbolStyle, TokenStyle } from '@/theme/types'
+
+/** Takes each property from the first style that sets it, in order of preference */
+export function toSymbolStyle(...candidates: (TokenStyle | undefined)[]): SymbolStyle | undefined {
+  const style: SymbolStyle = {}
+  const color = candidates.find((candidate) => candidate?.foreground)?.foreground
+  if (color) {
+    style.color = color
+  }
+  const fontStyle = candidates.find((candidate) => candidate?.fontStyle !== undefined)?.fontStyle
+  if (fontStyle !== undefined) {
+    style.fontStyle = fontStyle
+  }
+  return Object.keys(style).length > 0 ? style : undefined
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import { toTokenStyle } from './toTokenStyle'
+
+describe('toTokenStyle', () => {
+  it('should treat a string as the foreground color', () => {
+    expect(toTokenStyle('#DCDCAA')).toEqual({ foreground: '#DCDCAA' })
+  })
+
+  it('should keep foreground and fontStyle', () => {
+    expect(toTokenStyle({ foreground: '#DCDCAA', fontStyle: 'italic bold' })).toEqual({
+      foreground: '#DCDCAA',
+      fontStyle: 'italic bold',
+    })
+  })
+
+  it('should fold boolean flags into fontStyle', () => {
+    expect(toTokenStyle({ bold: true, underline: true, italic: false })).toEqual({ fontStyle: 'bold underline' })
+  })
+
+  it('should let flags add to and remove from fontStyle', () => {
+    expect(toTokenStyle({ fontStyle: 'italic bold', bold: false, strikethrough: true })).toEqual({
+      fontStyle: 'italic strikethrough',
+    })
+  })
+
+  it('should keep an explicitly cleared fontStyle', () => {
+    expect(toTokenStyle({ fontStyle: '' })).toEqual({ fontStyle: '' })
+    expect(toTokenStyle({ italic: false })).toEqual({ fontStyle: '' })
+  })
+
+  it('should return undefined for entries without any style', () => {
+    expect(toTokenStyle(undefined)).toBeUndefined()
+    expect(toTokenStyle('')).toBeUndefined()
+    expect(toTokenStyle({})).toBeUndefined()
+  })
+})
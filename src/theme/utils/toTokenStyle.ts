@@ -0,0 +1,38 @@
+import type { SemanticTokenStyleValue, TokenStyle } from '@/theme/types'
+
+const FONT_STYLE_FLAGS = ['italic', 'bold', 'underline', 'strikethrough'] as const
+
+/** Normalizes a `semanticTokenColors` entry, folding the boolean flags into a TextMate-style `fontStyle` */
+export function toTokenStyle(value: SemanticTokenStyleValue | undefined): TokenStyle | undefined {
+  if (typeof value === 'string') {
+    return value ? { foreground: value } : undefined
+  }
+  if (!value || typeof value !== 'object') {
+    return undefined
+  }
+
+  const style: TokenStyle = {}
+  if (typeof value.foreground === 'string' && value.foreground) {
+    style.foreground = value.foreground
+  }
+
+  const hasFontStyle = typeof value.fontStyle === 'string'
+  const fontStyles = new Set(hasFontStyle ? value.fontStyle?.split(/\s+/).filter(Boolean) : [])
+  let hasFlags = false
+  for (const flag of FONT_STYLE_FLAGS) {
+    if (typeof value[flag] !== 'boolean') {
+      continue
+    }
+    hasFlags = true
+    if (value[flag]) {
+      fontStyles.add(flag)
+    } else {
+      fontStyles.delete(flag)
+    }
+  }
+  if (hasFontStyle || hasFlags) {
+    style.fontStyle = [...fontStyles].join(' ')
+  }
+
+  return Object.keys(style).length > 0 ? style : undefined
+}
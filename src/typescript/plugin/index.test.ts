@@ -13,6 +13,9 @@ const SymbolFlags = {
   BlockScopedVariable: 1 << 1,
   FunctionScopedVariable: 1 << 0,
   NamespaceModule: 1 << 9,
+  ValueModule: 1 << 10,
+  Property: 1 << 2,
+  Assignment: 1 << 26,
 }
 
 const ALL_FALSE: Omit<ResolveResponse, 'id' | 'debug'> = {
@@ -106,8 +109,8 @@ describe('tsPlugin', () => {
     return { proxy, ls, mockTypeChecker }
   }
 
-  function resolve(proxy: tslib.LanguageService) {
-    return proxy.getCompletionsAtPosition('test.ts', 0, {
+  function resolve(proxy: tslib.LanguageService, fileName = 'test.ts') {
+    return proxy.getCompletionsAtPosition(fileName, 0, {
       triggerCharacter: { id: 'resolve' } as unknown as tslib.CompletionsTriggerCharacter,
     })
   }
@@ -168,6 +171,34 @@ describe('tsPlugin', () => {
       expect(getResponse(resolve(proxy))).toMatchObject({ id: 'resolve', ...ALL_FALSE, isNamespace: true })
     })
 
+    it('should resolve callable CommonJS exports in JS files as function', () => {
+      const { proxy } = setupPlugin({
+        program: { symbol: { flags: SymbolFlags.Property | SymbolFlags.Assignment }, type: createMockType(1) },
+      })
+      expect(getResponse(resolve(proxy, 'lib.js'))).toMatchObject({ id: 'resolve', ...ALL_FALSE, isFunction: true })
+    })
+
+    it('should resolve non-callable CommonJS exports in JS files as variable', () => {
+      const { proxy } = setupPlugin({
+        program: { symbol: { flags: SymbolFlags.Property | SymbolFlags.Assignment }, type: createMockType(0) },
+      })
+      expect(getResponse(resolve(proxy, 'lib.cjs'))).toMatchObject({ id: 'resolve', ...ALL_FALSE, isVariable: true })
+    })
+
+    it('should not classify property symbols in TS files', () => {
+      const { proxy } = setupPlugin({
+        program: { symbol: { flags: SymbolFlags.Property }, type: createMockType(1) },
+      })
+      expect(getResponse(resolve(proxy))).toMatchObject({ id: 'resolve', ...ALL_FALSE })
+    })
+
+    it('should resolve ValueModule symbol as namespace', () => {
+      const { proxy } = setupPlugin({
+        program: { symbol: { flags: SymbolFlags.ValueModule } },
+      })
+      expect(getResponse(resolve(proxy))).toMatchObject({ id: 'resolve', ...ALL_FALSE, isNamespace: true })
+    })
+
     it('should resolve BlockScopedVariable with call signatures as function', () => {
       const { proxy } = setupPlugin({
         program: { symbol: { flags: SymbolFlags.BlockScopedVariable }, type: createMockType(1) },
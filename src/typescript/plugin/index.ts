@@ -1,4 +1,5 @@
 import type tslib from 'typescript/lib/tsserverlibrary'
+import { isJavaScriptFile } from '@/utils/isJavaScriptFile'
 import { type PluginRequest, type PluginResponse, RESPONSE_KEY } from './protocol'
 
 type TypeScript = typeof tslib
@@ -95,7 +96,11 @@ function handleResolve(ts: TypeScript, ls: tslib.LanguageService, fileName: stri
   }
 
   const flags = resolved.flags
-  const isVariable = !!(flags & (ts.SymbolFlags.BlockScopedVariable | ts.SymbolFlags.FunctionScopedVariable))
+  // CommonJS exports in JS files (`exports.foo = ...`, `module.exports.foo = ...`) are property assignments
+  const isCommonJsExport =
+    isJavaScriptFile(fileName) && !!(flags & (ts.SymbolFlags.Property | ts.SymbolFlags.Assignment))
+  const isVariable =
+    !!(flags & (ts.SymbolFlags.BlockScopedVariable | ts.SymbolFlags.FunctionScopedVariable)) || isCommonJsExport
 
   let isCallable = false
   if (isVariable) {
@@ -110,7 +115,7 @@ function handleResolve(ts: TypeScript, ls: tslib.LanguageService, fileName: stri
     isInterface: !!(flags & ts.SymbolFlags.Interface),
     isType: !!(flags & ts.SymbolFlags.TypeAlias),
     isEnum: !!(flags & ts.SymbolFlags.Enum),
-    isNamespace: !!(flags & ts.SymbolFlags.NamespaceModule),
+    isNamespace: !!(flags & (ts.SymbolFlags.NamespaceModule | ts.SymbolFlags.ValueModule)),
     isVariable: isVariable && !isCallable,
     isNotReady: wasAlias && resolved.getName() === 'unknown',
     debug: {
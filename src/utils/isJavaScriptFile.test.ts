@@ -6,6 +6,7 @@ describe('isJavaScriptFile', () => {
     '/node_modules/lodash/lodash.js',
     '/node_modules/pkg/index.mjs',
     '/node_modules/pkg/index.cjs',
+    '/src/app.jsx',
   ])('should return true for %s', (path) => {
     expect(isJavaScriptFile(path)).toBe(true)
   })
@@ -14,7 +15,6 @@ describe('isJavaScriptFile', () => {
     '/node_modules/@types/lodash/index.d.ts',
     '/src/app.ts',
     '/src/app.tsx',
-    '/src/app.jsx',
   ])('should return false for %s', (path) => {
     expect(isJavaScriptFile(path)).toBe(false)
   })
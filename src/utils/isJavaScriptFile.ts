@@ -1,3 +1,3 @@
 export function isJavaScriptFile(fsPath: string): boolean {
-  return /\.(m|c)?js$/.test(fsPath)
+  return /\.((m|c)?js|jsx)$/.test(fsPath)
 }